@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // react-pdf renders on the server (reports/[id]/pdf); keep it out of the bundle
+  serverExternalPackages: ["@react-pdf/renderer"],
 };
 
 export default nextConfig;
@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { apiError, parseJson } from "@/lib/http";
+import { authenticate, issueStaffToken, setSessionCookie } from "@/lib/auth";
+import { LoginSchema } from "@/lib/schemas";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/auth/login  { email, password }  -> sets the session cookie; also returns the token for API clients
+export async function POST(req: NextRequest) {
+  const parsed = await parseJson(req, LoginSchema);
+  if (!parsed.ok) return parsed.response;
+  const { email, password } = parsed.value;
+
+  const db = await getDb();
+  const user = await authenticate(db, email, password);
+  if (!user) return apiError(401, "UNAUTHORIZED", "invalid email or password");
+
+  const token = issueStaffToken(user);
+  const res = NextResponse.json({ email: user.email, roles: user.roles, token });
+  setSessionCookie(res, token);
+  return res;
+}
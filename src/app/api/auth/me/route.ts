@@ -0,0 +1,13 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { apiError } from "@/lib/http";
+import { getPrincipal } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/auth/me  -> who the current session belongs to
+export async function GET(req: NextRequest) {
+  const principal = getPrincipal(req);
+  if (!principal) return apiError(401, "UNAUTHORIZED", "sign in required");
+  return NextResponse.json(principal, { headers: { "Cache-Control": "no-store" } });
+}
@@ -1,23 +1,68 @@
-import { NextResponse, type NextRequest } from "next/server";
+import { after, NextResponse, type NextRequest } from "next/server";
+import { randomUUID } from "node:crypto";
 import { getDb } from "@/lib/mongo";
-import type { ProctorEventInput, ProctorEventDB } from "@/lib/types";
+import { authorize } from "@/lib/auth";
+import { apiError, parseJson, validationError } from "@/lib/http";
+import { appendEvents, ChainBusyError, type UnchainedEvent } from "@/lib/eventChain";
+import { loadForCandidate } from "@/lib/lifecycle";
+import { EventBatchSchema, MAX_EVENT_BATCH_BYTES } from "@/lib/schemas";
+import { refreshScore } from "@/lib/scoring";
+import { notifyViolations } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
 
 export async function POST(req: NextRequest) {
-  const body = (await req.json()) as { interviewId: string; events: ProctorEventInput[] };
-  if (!body?.interviewId || !Array.isArray(body.events)) {
-    return NextResponse.json({ error: "invalid body" }, { status: 400 });
+  const parsed = await parseJson(req, EventBatchSchema, MAX_EVENT_BATCH_BYTES);
+  if (!parsed.ok) return parsed.response;
+  const body = parsed.value;
+
+  // only the candidate of this interview (or an admin) may add events to it
+  const auth = authorize(req, { roles: [], candidateFor: body.interviewId });
+  if (!auth.ok) return auth.response;
+
+  const mismatched = body.events
+    .map((e, i) => (e.interviewId && e.interviewId !== body.interviewId ? i : -1))
+    .filter((i) => i >= 0);
+  if (mismatched.length) {
+    return validationError(
+      mismatched.map((i) => ({ path: `events[${i}].interviewId`, message: "must match the batch interviewId" }))
+    );
   }
+
+  // not before the candidate started, but late batches from an ended session are kept
+  const db = await getDb();
+  const loaded = await loadForCandidate(db, body.interviewId, "upload", auth.principal, {
+    candidateName: 1,
+    policy: 1,
+  });
+  if (!loaded.ok) return loaded.response;
+  const interview = loaded.interview;
+
+  // t, createdAt and confidence are the client's claims; the chain adds the server receive time
   const nowIso = new Date().toISOString();
-  const docs: ProctorEventDB[] = body.events.map((e) => ({
-    interviewId: body.interviewId,
+  const batch: UnchainedEvent[] = body.events.map((e) => ({
+    eventId: e.eventId ?? randomUUID(),
     t: e.t,
     type: e.type,
-    confidence: e.confidence,
-    meta: e.meta,
+    ...(e.confidence !== undefined ? { confidence: e.confidence } : {}),
+    ...(e.meta ? { meta: e.meta } : {}),
     createdAt: e.createdAt ?? nowIso,
   }));
+  if (batch.length === 0) return NextResponse.json({ inserted: 0, duplicates: 0 });
 
-  const db = await getDb();
-  await db.collection<ProctorEventDB>("events").insertMany(docs);
-  return NextResponse.json({ inserted: docs.length });
+  try {
+    const res = await appendEvents(db, interview, batch);
+    if (res.inserted > 0) after(() => refreshScore(db, body.interviewId));
+    // events a retried batch already delivered are deduplicated by the webhook key
+    after(() => notifyViolations(db, interview, batch));
+    return NextResponse.json(res);
+  } catch (e) {
+    if (e instanceof ChainBusyError) {
+      // Retry-After tells the outbox this 409 is transient, unlike a closed interview
+      const res = apiError(409, "CONFLICT", e.message);
+      res.headers.set("Retry-After", "1");
+      return res;
+    }
+    throw e;
+  }
 }
@@ -0,0 +1,35 @@
+import { type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { apiError, notFound } from "@/lib/http";
+import { getStorage } from "@/lib/storage";
+import { EXPORT_CONTENT_TYPES, exportFilename, findExportJob, type ExportQuery } from "@/lib/exports";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/exports/:jobId/download  -> the finished file; 409 while the job is not done
+export async function GET(req: NextRequest, ctx: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await ctx.params;
+  const auth = authorize(req, { roles: ["reviewer"] });
+  if (!auth.ok) return auth.response;
+  if (auth.principal.kind !== "staff") return notFound();
+
+  const db = await getDb();
+  const job = await findExportJob(db, jobId, auth.principal);
+  if (!job) return notFound();
+  if (job.status !== "done" || !job.key) return apiError(409, "CONFLICT", `export is ${job.status}`);
+
+  const file = await getStorage().get(job.key);
+  if (!file) return notFound("export file not found");
+
+  return new Response(file.body, {
+    headers: {
+      "Content-Type": EXPORT_CONTENT_TYPES[job.format],
+      "Content-Length": String(file.size),
+      "Content-Disposition": `attachment; filename="${exportFilename(job.query as ExportQuery, new Date(job.createdAt))}"`,
+      "Cache-Control": "no-store",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
@@ -0,0 +1,25 @@
+import { after, NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { notFound } from "@/lib/http";
+import { findExportJob, needsRun, publicJob, runExportJob } from "@/lib/exports";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/exports/:jobId  -> { id, status: queued|running|done|failed, rows, downloadUrl, … }
+//   a job whose runner never started or died (e.g. a restart) is picked up again here;
+//   only the user who queued it and admins can see it (404 for anyone else)
+export async function GET(req: NextRequest, ctx: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await ctx.params;
+  const auth = authorize(req, { roles: ["reviewer"] });
+  if (!auth.ok) return auth.response;
+  if (auth.principal.kind !== "staff") return notFound();
+
+  const db = await getDb();
+  const job = await findExportJob(db, jobId, auth.principal);
+  if (!job) return notFound();
+  if (needsRun(job)) after(() => runExportJob(db, job._id));
+
+  return NextResponse.json(publicJob(job), { headers: { "Cache-Control": "no-store" } });
+}
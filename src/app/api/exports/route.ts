@@ -0,0 +1,59 @@
+import { after, NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { notFound, parseQuery } from "@/lib/http";
+import { settleOverdue } from "@/lib/lifecycle";
+import {
+  EXPORT_CONTENT_TYPES,
+  exportFilename,
+  exportSize,
+  exportStream,
+  MAX_STREAMED_EVENTS,
+  MAX_STREAMED_INTERVIEWS,
+  publicJob,
+  queueExportJob,
+  runExportJob,
+} from "@/lib/exports";
+import { ExportQuerySchema } from "@/lib/schemas";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/exports  -> the export file, streamed (reviewers and admins)
+ *   ?dataset=interviews|events  &format=csv|jsonl
+ *   &q= &from=ISO &to=ISO &minScore= &maxScore= &phone=1 &multipleFaces=1 &status=  (as in GET /api/interviews)
+ *   &types=A,B  (events dataset only)
+ * Larger exports (or &background=1) answer 202 with a job instead; poll GET /api/exports/:jobId.
+ */
+export async function GET(req: NextRequest) {
+  const auth = authorize(req, { roles: ["reviewer"] });
+  if (!auth.ok) return auth.response;
+  if (auth.principal.kind !== "staff") return notFound();
+
+  const parsed = parseQuery(req, ExportQuerySchema);
+  if (!parsed.ok) return parsed.response;
+  const { background, ...query } = parsed.value;
+
+  const db = await getDb();
+  await settleOverdue(db);
+
+  const size = await exportSize(db, query);
+  if (background === "1" || size.interviews > MAX_STREAMED_INTERVIEWS || size.events > MAX_STREAMED_EVENTS) {
+    const job = await queueExportJob(db, query, auth.principal);
+    after(() => runExportJob(db, job._id));
+    return NextResponse.json(publicJob(job), {
+      status: 202,
+      headers: { Location: `/api/exports/${String(job._id)}`, "Cache-Control": "no-store" },
+    });
+  }
+
+  return new Response(await exportStream(db, query), {
+    headers: {
+      "Content-Type": EXPORT_CONTENT_TYPES[query.format ?? "csv"],
+      "Content-Disposition": `attachment; filename="${exportFilename(query)}"`,
+      "Cache-Control": "no-store",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
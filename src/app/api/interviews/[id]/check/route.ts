@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { parseJson } from "@/lib/http";
+import { type InterviewDoc } from "@/lib/reportData";
+import { loadForCandidate } from "@/lib/lifecycle";
+import { SystemCheckSchema } from "@/lib/schemas";
+import { SYSTEM_CHECKS, type SystemCheck } from "@/lib/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/interviews/:id/check  { checks, baseline?, mimeType?, userAgent? }  -> stores the candidate's system check
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: [], candidateFor: id });
+  if (!auth.ok) return auth.response;
+
+  const parsed = await parseJson(req, SystemCheckSchema);
+  if (!parsed.ok) return parsed.response;
+
+  const systemCheck: SystemCheck = {
+    ...parsed.value,
+    passed: SYSTEM_CHECKS.every((name) => parsed.value.checks[name].ok),
+    at: new Date().toISOString(),
+  };
+  const db = await getDb();
+  const loaded = await loadForCandidate(db, id, "prepare", auth.principal);
+  if (!loaded.ok) return loaded.response;
+  await db.collection<InterviewDoc>("interviews").updateOne({ _id: loaded.interview._id }, { $set: { systemCheck } });
+
+  return NextResponse.json({ ok: true, passed: systemCheck.passed, at: systemCheck.at });
+}
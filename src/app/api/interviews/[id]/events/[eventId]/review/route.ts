@@ -0,0 +1,64 @@
+import { NextResponse, type NextRequest } from "next/server";
+import type { Db } from "mongodb";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { notFound, parseJson } from "@/lib/http";
+import { interviewKey, type InterviewDoc } from "@/lib/reportData";
+import { clearReview, reviewEvent } from "@/lib/reviews";
+import { refreshScore } from "@/lib/scoring";
+import { EventReviewSchema } from "@/lib/schemas";
+import type { Reviewer } from "@/lib/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string; eventId: string }> };
+
+/** Resolve the interview and make sure the event belongs to it; null -> 404. */
+async function findEvent(db: Db, id: string, eventId: string): Promise<string | null> {
+  const interview = await db
+    .collection<InterviewDoc>("interviews")
+    .findOne({ _id: interviewKey(id) }, { projection: { _id: 1 } });
+  if (!interview) return null;
+  const interviewId = String(interview._id);
+  const exists = await db.collection("events").countDocuments({ interviewId, eventId }, { limit: 1 });
+  return exists ? interviewId : null;
+}
+
+// PUT /api/interviews/:id/events/:eventId/review  { status: confirmed|dismissed|disputed, note? }
+export async function PUT(req: NextRequest, ctx: Ctx) {
+  const { id, eventId } = await ctx.params;
+  const auth = authorize(req, { roles: ["reviewer"] });
+  if (!auth.ok) return auth.response;
+  if (auth.principal.kind !== "staff") return notFound();
+  const parsed = await parseJson(req, EventReviewSchema);
+  if (!parsed.ok) return parsed.response;
+
+  const db = await getDb();
+  const interviewId = await findEvent(db, id, eventId);
+  if (!interviewId) return notFound("event not found");
+
+  const reviewer: Reviewer = { userId: auth.principal.userId, email: auth.principal.email };
+  const review = await reviewEvent(db, interviewId, eventId, parsed.value.status, parsed.value.note, reviewer);
+  // the stored score must match the verdicts before the dashboard lists it again
+  await refreshScore(db, interviewId);
+  return NextResponse.json(review);
+}
+
+// DELETE /api/interviews/:id/events/:eventId/review  -> back to unreviewed (counts again)
+export async function DELETE(req: NextRequest, ctx: Ctx) {
+  const { id, eventId } = await ctx.params;
+  const auth = authorize(req, { roles: ["reviewer"] });
+  if (!auth.ok) return auth.response;
+  if (auth.principal.kind !== "staff") return notFound();
+
+  const db = await getDb();
+  const interviewId = await findEvent(db, id, eventId);
+  if (!interviewId) return notFound("event not found");
+
+  const reviewer: Reviewer = { userId: auth.principal.userId, email: auth.principal.email };
+  const cleared = await clearReview(db, interviewId, eventId, reviewer);
+  if (!cleared) return notFound("event has no review");
+  await refreshScore(db, interviewId);
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { notFound, parseQuery, validationError } from "@/lib/http";
+import { interviewKey, type InterviewDoc } from "@/lib/reportData";
+import { decodeCursor, listEventsPage } from "@/lib/eventQuery";
+import { reviewsByEvent } from "@/lib/reviews";
+import { EventListQuerySchema } from "@/lib/schemas";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/interviews/:id/events  -> { items, nextCursor, total }, oldest first;
+ *   each item carries its reviewer verdict as `review` (null when unreviewed)
+ *   ?types=A,B  &from=ms &to=ms  &minConfidence=0.8  &includeMeta=1
+ *   &limit=100 (max 500)  &cursor=<nextCursor of the previous page>
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: ["reviewer"] });
+  if (!auth.ok) return auth.response;
+
+  const parsed = parseQuery(req, EventListQuerySchema);
+  if (!parsed.ok) return parsed.response;
+  const qs = parsed.value;
+
+  const after = qs.cursor ? decodeCursor(qs.cursor) : undefined;
+  if (after === null) return validationError([{ path: "cursor", message: "has an invalid format" }], "invalid query parameters");
+
+  const db = await getDb();
+  const interview = await db
+    .collection<InterviewDoc>("interviews")
+    .findOne({ _id: interviewKey(id) }, { projection: { _id: 1 } });
+  if (!interview) return notFound();
+
+  const interviewId = String(interview._id);
+  const page = await listEventsPage(db, interviewId, {
+    types: qs.types,
+    from: qs.from,
+    to: qs.to,
+    minConfidence: qs.minConfidence,
+    includeMeta: qs.includeMeta === "1",
+    after,
+    limit: qs.limit,
+  });
+  const byEvent = await reviewsByEvent(db, interviewId, page.items.flatMap((e) => (e.eventId ? [e.eventId] : [])));
+  const items = page.items.map((e) => {
+    const r = e.eventId ? byEvent.get(e.eventId) : undefined;
+    return { ...e, review: r ? { status: r.status, note: r.note ?? null, reviewer: r.reviewer, reviewedAt: r.reviewedAt } : null };
+  });
+  return NextResponse.json({ ...page, items }, { headers: { "Cache-Control": "no-store" } });
+}
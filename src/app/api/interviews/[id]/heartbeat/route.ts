@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { parseJson } from "@/lib/http";
+import { type InterviewDoc } from "@/lib/reportData";
+import { loadForCandidate } from "@/lib/lifecycle";
+import { HeartbeatSchema } from "@/lib/schemas";
+import { heartbeatUpdate } from "@/lib/identity";
+import type { LiveState } from "@/lib/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/interviews/:id/heartbeat  { status, faces, recording, similarity? }  -> candidate page reports its live state
+//   similarity (identity re-match) is only sent once per re-match and folded into interview.identity
+//   -> { ok, at, stop }: stop is true while recording past the interview's deadline (the page then ends the recording)
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: [], candidateFor: id });
+  if (!auth.ok) return auth.response;
+
+  const parsed = await parseJson(req, HeartbeatSchema);
+  if (!parsed.ok) return parsed.response;
+
+  const live: LiveState = { ...parsed.value, at: new Date().toISOString() };
+  const db = await getDb();
+  const loaded = await loadForCandidate(db, id, "prepare", auth.principal);
+  if (!loaded.ok) return loaded.response;
+  await db.collection<InterviewDoc>("interviews").updateOne({ _id: loaded.interview._id }, heartbeatUpdate(live));
+
+  const deadline = loaded.interview.deadline;
+  const stop = live.recording && deadline !== undefined && Date.now() > Date.parse(deadline);
+  return NextResponse.json({ ok: true, at: live.at, stop });
+}
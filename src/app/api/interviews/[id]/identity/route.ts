@@ -0,0 +1,52 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { apiError, parseQuery, validationError } from "@/lib/http";
+import { loadForCandidate } from "@/lib/lifecycle";
+import { isJpeg } from "@/lib/snapshots";
+import { MAX_IDENTITY_PHOTO_BYTES, identityLocked, storeIdentityPhoto } from "@/lib/identity";
+import { IdentityUploadQuerySchema } from "@/lib/schemas";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// POST /api/interviews/:id/identity?kind=selfie&signature=a,b,...  (image/jpeg)  -> reference selfie
+// POST /api/interviews/:id/identity?kind=idDocument                (image/jpeg)  -> optional ID photo
+export async function POST(req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: [], candidateFor: id });
+  if (!auth.ok) return auth.response;
+  const parsed = parseQuery(req, IdentityUploadQuerySchema);
+  if (!parsed.ok) return parsed.response;
+  const { kind, signature } = parsed.value;
+  if (kind === "selfie" && !signature) {
+    return validationError([{ path: "signature", message: "is required for a selfie" }], "invalid query parameters");
+  }
+
+  if (Number(req.headers.get("content-length") ?? 0) > MAX_IDENTITY_PHOTO_BYTES) {
+    return apiError(413, "PAYLOAD_TOO_LARGE", `photo exceeds ${MAX_IDENTITY_PHOTO_BYTES} bytes`);
+  }
+  const bytes = Buffer.from(await req.arrayBuffer());
+  if (bytes.length > MAX_IDENTITY_PHOTO_BYTES) {
+    return apiError(413, "PAYLOAD_TOO_LARGE", `photo exceeds ${MAX_IDENTITY_PHOTO_BYTES} bytes`);
+  }
+  if (!isJpeg(bytes)) return apiError(400, "VALIDATION_FAILED", "body must be a JPEG image");
+
+  const db = await getDb();
+  const loaded = await loadForCandidate(db, id, "prepare", auth.principal, {
+    _id: 1,
+    identity: 1,
+    chainHead: 1,
+    live: 1,
+  });
+  if (!loaded.ok) return loaded.response;
+  const interview = loaded.interview;
+  if (identityLocked(interview, kind)) {
+    return apiError(409, "CONFLICT", "the reference photo cannot be replaced once the interview has started");
+  }
+
+  const key = await storeIdentityPhoto(db, interview, kind, bytes, kind === "selfie" ? signature : undefined);
+  return NextResponse.json({ ok: true, kind, key });
+}
@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { notFound } from "@/lib/http";
+import { interviewKey, type InterviewDoc } from "@/lib/reportData";
+import { settleStatus, stateConflict } from "@/lib/lifecycle";
+import { inviteUrl, reissueInvite } from "@/lib/invites";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/interviews/:id/invite  -> { inviteUrl }: a new one-time link (the old one stops working); scheduled interviews only
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: ["interviewer"] });
+  if (!auth.ok) return auth.response;
+
+  const db = await getDb();
+  const interview = await db
+    .collection<InterviewDoc>("interviews")
+    .findOne({ _id: interviewKey(id) }, { projection: { status: 1, schedule: 1, deadline: 1, endedAt: 1 } });
+  if (!interview) return notFound();
+  const status = await settleStatus(db, interview);
+  if (status !== "scheduled") return stateConflict(status);
+
+  const code = await reissueInvite(db, interview);
+  return NextResponse.json({ inviteUrl: inviteUrl(code) });
+}
@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize, STAFF_ROLES } from "@/lib/auth";
+import { notFound, parseJson } from "@/lib/http";
+import { loadForCandidate } from "@/lib/lifecycle";
+import { interviewKey, type InterviewDoc } from "@/lib/reportData";
+import { listRejected, recordRejected } from "@/lib/rejectedEvents";
+import { RejectedEventBatchSchema } from "@/lib/schemas";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// POST /api/interviews/:id/rejected-events { events: [{ eventId, status, issues?, payload, rejectedAt }] }
+//   -> the candidate's outbox reports events /api/events refused for good; safe to retry
+export async function POST(req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: [], candidateFor: id });
+  if (!auth.ok) return auth.response;
+  const parsed = await parseJson(req, RejectedEventBatchSchema);
+  if (!parsed.ok) return parsed.response;
+
+  const db = await getDb();
+  const loaded = await loadForCandidate(db, id, "upload", auth.principal);
+  if (!loaded.ok) return loaded.response;
+
+  const interviewId = String(loaded.interview._id);
+  const reportedAt = new Date().toISOString();
+  const recorded = await recordRejected(
+    db,
+    parsed.value.events.map((e) => ({ interviewId, ...e, reportedAt }))
+  );
+  return NextResponse.json({ recorded });
+}
+
+// GET /api/interviews/:id/rejected-events  -> { events: what the candidate's browser could not deliver, newest first }
+export async function GET(req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: STAFF_ROLES });
+  if (!auth.ok) return auth.response;
+
+  const db = await getDb();
+  const interview = await db
+    .collection<InterviewDoc>("interviews")
+    .findOne({ _id: interviewKey(id) }, { projection: { _id: 1 } });
+  if (!interview) return notFound();
+
+  const events = await listRejected(db, String(interview._id));
+  return NextResponse.json({ events }, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { notFound } from "@/lib/http";
+import { interviewKey, type InterviewDoc } from "@/lib/reportData";
+import { listReviewAudit, reviewsByEvent } from "@/lib/reviews";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/interviews/:id/reviews  -> { reviews: current verdicts, audit: every review action, newest first }
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: ["reviewer"] });
+  if (!auth.ok) return auth.response;
+
+  const db = await getDb();
+  const interview = await db
+    .collection<InterviewDoc>("interviews")
+    .findOne({ _id: interviewKey(id) }, { projection: { _id: 1 } });
+  if (!interview) return notFound();
+
+  const interviewId = String(interview._id);
+  const [reviews, audit] = await Promise.all([reviewsByEvent(db, interviewId), listReviewAudit(db, interviewId)]);
+  return NextResponse.json(
+    { reviews: Array.from(reviews.values()), audit },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -1,6 +1,13 @@
-import { NextResponse, type NextRequest } from "next/server";
+import { after, NextResponse, type NextRequest } from "next/server";
 import { getDb } from "@/lib/mongo";
+import { authorize, refuseRevoked, STAFF_ROLES } from "@/lib/auth";
 import { ObjectId } from "mongodb";
+import { notFound, parseJson, validationError } from "@/lib/http";
+import { InterviewPatchSchema } from "@/lib/schemas";
+import { loadForCandidate, settleStatus, stateConflict } from "@/lib/lifecycle";
+import type { InterviewDoc } from "@/lib/reportData";
+import { refreshScore } from "@/lib/scoring";
+import { finishInterview } from "@/lib/reportArchive";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -14,45 +21,100 @@ function idFilter(id: string) {
   return { $or: or };
 }
 
-// GET /api/interviews/:id  -> returns the interview doc
-export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+/** What a candidate token may read: its session settings, plus the lifecycle and token fields the checks need. */
+const CANDIDATE_PROJECTION = {
+  requireFullscreen: 1,
+  status: 1,
+  schedule: 1,
+  systemCheck: 1,
+  "identity.signature": 1,
+  startedAt: 1,
+  endedAt: 1,
+  deadline: 1,
+  tokenGen: 1,
+};
+
+// GET /api/interviews/:id  -> returns the interview doc, with its current lifecycle status
+//   (candidates get only their session settings and whether a reference selfie exists)
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
   const { id } = await ctx.params;
+  const auth = authorize(req, { roles: STAFF_ROLES, candidateFor: id });
+  if (!auth.ok) return auth.response;
+  const candidate = auth.principal.kind === "candidate";
+
   const db = await getDb();
 
-  const doc = await db.collection("interviews").findOne(idFilter(id));
-  if (!doc) return NextResponse.json({ error: "not found" }, { status: 404 });
+  const doc = await db
+    .collection<InterviewDoc>("interviews")
+    .findOne(idFilter(id), { projection: candidate ? CANDIDATE_PROJECTION : { invite: 0 } });
+  if (!doc) return notFound();
+  const revoked = refuseRevoked(auth.principal, doc);
+  if (revoked) return revoked;
+  const status = await settleStatus(db, doc);
+  const headers = { "Cache-Control": "no-store" };
 
-  return NextResponse.json(doc, { headers: { "Cache-Control": "no-store" } });
+  if (candidate) {
+    // the page re-matches the face locally, so it needs the reference signature itself
+    const signature = doc.identity?.signature;
+    return NextResponse.json(
+      {
+        _id: doc._id,
+        requireFullscreen: doc.requireFullscreen ?? false,
+        status,
+        schedule: doc.schedule ?? null,
+        systemCheck: doc.systemCheck ?? null,
+        hasReference: signature !== undefined,
+        identity: signature ? { signature } : null,
+      },
+      { headers }
+    );
+  }
+  return NextResponse.json({ ...doc, status }, { headers });
 }
 
-// PATCH /api/interviews/:id  -> updates allowed fields (e.g., videoUrl, endedAt, integrityScore)
+// PATCH /api/interviews/:id  -> updates allowed fields (interviewers and admins only)
 export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
   const { id } = await ctx.params;
+  const auth = authorize(req, { roles: ["interviewer"] });
+  if (!auth.ok) return auth.response;
+
   const db = await getDb();
 
-  let body: Record<string, unknown>;
-  try {
-    body = await req.json();
-  } catch {
-    return NextResponse.json({ error: "invalid JSON" }, { status: 400 });
-  }
+  const parsed = await parseJson(req, InterviewPatchSchema);
+  if (!parsed.ok) return parsed.response;
 
-  // allow-list fields you expect to update
-  const allowed = new Set(["videoUrl", "endedAt", "candidateName", "integrityScore"]);
-  const $set: Record<string, unknown> = {};
-  for (const [k, v] of Object.entries(body)) {
-    if (allowed.has(k)) $set[k] = v;
-  }
+  // the schema is the allow-list of fields you expect to update
+  const $set: Record<string, unknown> = { ...parsed.value };
   if (Object.keys($set).length === 0) {
-    return NextResponse.json({ error: "no updatable fields" }, { status: 400 });
+    return validationError([], "no updatable fields");
   }
 
-  const res = await db.collection("interviews").updateOne(idFilter(id), { $set });
+  if (!parsed.value.endedAt) {
+    const res = await db.collection("interviews").updateOne(idFilter(id), { $set });
 
-  // If it matched but didn't modify, that's still success (e.g., same value)
-  if (res.matchedCount === 0) {
-    return NextResponse.json({ error: "not found" }, { status: 404 });
+    // If it matched but didn't modify, that's still success (e.g., same value)
+    if (res.matchedCount === 0) {
+      return notFound();
+    }
+    return NextResponse.json({ ok: true, matchedCount: res.matchedCount, modifiedCount: res.modifiedCount });
   }
 
+  // endedAt ends a running session: only in_progress, and only once
+  const loaded = await loadForCandidate(db, id, "end", auth.principal);
+  if (!loaded.ok) return loaded.response;
+  const { interview } = loaded;
+  if (interview.status !== undefined) $set.status = "completed";
+  const res = await db.collection<InterviewDoc>("interviews").updateOne(
+    {
+      _id: interview._id,
+      status: interview.status ?? { $exists: false },
+      endedAt: { $not: { $type: "string" } },
+    },
+    { $set }
+  );
+  if (res.modifiedCount === 0) return stateConflict("completed", "interview was ended meanwhile");
+
+  after(() => refreshScore(db, id));
+  after(() => finishInterview(db, id));
   return NextResponse.json({ ok: true, matchedCount: res.matchedCount, modifiedCount: res.modifiedCount });
 }
@@ -0,0 +1,48 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { apiError, parseQuery } from "@/lib/http";
+import { loadForCandidate } from "@/lib/lifecycle";
+import { MAX_SNAPSHOT_BYTES, isJpeg, sha256Hex, storeSnapshot } from "@/lib/snapshots";
+import { SnapshotUploadQuerySchema } from "@/lib/schemas";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// POST /api/interviews/:id/snapshots?eventId=X  (image/jpeg)  -> stores the evidence frame of one event; safe to retry
+export async function POST(req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: [], candidateFor: id });
+  if (!auth.ok) return auth.response;
+  const parsed = parseQuery(req, SnapshotUploadQuerySchema);
+  if (!parsed.ok) return parsed.response;
+  const { eventId } = parsed.value;
+
+  if (Number(req.headers.get("content-length") ?? 0) > MAX_SNAPSHOT_BYTES) {
+    return apiError(413, "PAYLOAD_TOO_LARGE", `snapshot exceeds ${MAX_SNAPSHOT_BYTES} bytes`);
+  }
+  const bytes = Buffer.from(await req.arrayBuffer());
+  if (bytes.length > MAX_SNAPSHOT_BYTES) {
+    return apiError(413, "PAYLOAD_TOO_LARGE", `snapshot exceeds ${MAX_SNAPSHOT_BYTES} bytes`);
+  }
+  if (!isJpeg(bytes)) return apiError(400, "VALIDATION_FAILED", "body must be a JPEG image");
+
+  const db = await getDb();
+  const loaded = await loadForCandidate(db, id, "upload", auth.principal);
+  if (!loaded.ok) return loaded.response;
+  const interviewId = String(loaded.interview._id);
+
+  // the event may still be in the candidate's outbox; if it already arrived, the bytes must match its hash
+  const event = await db
+    .collection<{ meta?: Record<string, unknown> }>("events")
+    .findOne({ interviewId, eventId }, { projection: { _id: 0, meta: 1 } });
+  const expected = event?.meta?.snapshotSha256;
+  if (typeof expected === "string" && expected !== sha256Hex(bytes)) {
+    return apiError(409, "CONFLICT", "snapshot does not match the hash recorded on its event");
+  }
+
+  const snap = await storeSnapshot(db, interviewId, eventId, bytes);
+  return NextResponse.json({ ok: true, key: snap.key, size: snap.size });
+}
@@ -0,0 +1,25 @@
+import { after, NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { loadForCandidate, startInterview, stateConflict } from "@/lib/lifecycle";
+import { notifyInterviewStarted } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/interviews/:id/start  -> { status, startedAt, deadline }: the candidate begins recording
+//   409 outside the start window or once the interview is over; repeated calls return the same deadline
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: [], candidateFor: id });
+  if (!auth.ok) return auth.response;
+
+  const db = await getDb();
+  const loaded = await loadForCandidate(db, id, "start", auth.principal, { startedAt: 1 });
+  if (!loaded.ok) return loaded.response;
+
+  const res = await startInterview(db, loaded.interview);
+  if (!res.ok) return stateConflict(loaded.status, res.message);
+  after(() => notifyInterviewStarted(db, id));
+  return NextResponse.json({ status: "in_progress", startedAt: res.startedAt, deadline: res.deadline });
+}
@@ -0,0 +1,156 @@
+import { type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { notFound } from "@/lib/http";
+import { liveScorer, watchInterview } from "@/lib/live";
+import { policyConflict, resolvePolicy } from "@/lib/policies";
+import type { EventRow } from "@/lib/report";
+import { interviewKey, type InterviewDoc } from "@/lib/reportData";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const KEEPALIVE_MS = 15_000;
+
+/**
+ * GET /api/interviews/:id/stream  (text/event-stream)
+ *   snapshot -> { interview, policy, live, events, score } once on connect
+ *   event    -> each newly ingested event (id: seq)
+ *   score    -> running score after new events
+ *   status   -> candidate heartbeat (focus status, faces, recording)
+ *   ended    -> { endedAt }
+ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: ["interviewer", "reviewer"] });
+  if (!auth.ok) return auth.response;
+
+  const db = await getDb();
+  const interviews = db.collection<InterviewDoc>("interviews");
+  const interview = await interviews.findOne({ _id: interviewKey(id) });
+  if (!interview) return notFound();
+
+  const interviewId = String(interview._id);
+  let policy;
+  try {
+    policy = await resolvePolicy(db, interview.policy);
+  } catch (e) {
+    return policyConflict(e);
+  }
+  const events = db.collection<EventRow>("events");
+  const projection = { _id: 0, prevHash: 0, hash: 0 };
+  const enc = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(enc.encode(chunk));
+      };
+      const send = (event: string, data: unknown, eventId?: number) =>
+        write(`${eventId !== undefined ? `id: ${eventId}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      // state for this connection: a running score and the last seq sent, never the events themselves
+      const scorer = liveScorer(policy);
+      let lastSeq = -1;
+      let liveAt = interview.live?.at;
+      let endedAt = interview.endedAt;
+
+      // the snapshot's events are scored, sent once and dropped (events is read before score)
+      const initialEvents = async () => {
+        const initial: EventRow[] = await events.find({ interviewId }, { projection, sort: { t: 1 } }).toArray();
+        for (const e of initial) {
+          scorer.add(e);
+          lastSeq = Math.max(lastSeq, e.seq ?? -1);
+        }
+        return initial;
+      };
+
+      write(`retry: 3000\n\n`);
+      send("snapshot", {
+        interview: {
+          _id: interviewId,
+          candidateName: interview.candidateName ?? null,
+          startedAt: interview.startedAt ?? null,
+          endedAt: endedAt ?? null,
+        },
+        policy: { name: policy.name, version: policy.version, mode: policy.mode ?? "count" },
+        live: interview.live ?? null,
+        events: await initialEvents(),
+        score: scorer.score(interview),
+      });
+
+      // pull whatever changed since the last wake-up; wake-ups during a pull coalesce into one more pass
+      let pulling = false;
+      let again = false;
+      const pull = async () => {
+        if (pulling) {
+          again = true;
+          return;
+        }
+        pulling = true;
+        try {
+          do {
+            again = false;
+            const fresh = await events
+              .find({ interviewId, seq: { $gt: lastSeq } }, { projection, sort: { seq: 1 } })
+              .toArray();
+            const doc = await interviews.findOne(
+              { _id: interview._id },
+              { projection: { live: 1, startedAt: 1, endedAt: 1 } }
+            );
+            if (closed) return;
+
+            if (fresh.length) {
+              lastSeq = fresh[fresh.length - 1].seq ?? lastSeq;
+              for (const e of fresh) {
+                scorer.add(e);
+                send("event", e, e.seq);
+              }
+              send("score", scorer.score(doc ?? interview));
+            }
+            if (doc?.live && doc.live.at !== liveAt) {
+              liveAt = doc.live.at;
+              send("status", doc.live);
+            }
+            if (doc?.endedAt && doc.endedAt !== endedAt) {
+              endedAt = doc.endedAt;
+              send("ended", { endedAt });
+              send("score", scorer.score(doc));
+            }
+          } while (again);
+        } catch (e) {
+          console.error("interview stream:", (e as Error).message);
+        } finally {
+          pulling = false;
+        }
+      };
+
+      const stopWatching = watchInterview(db, interview, () => void pull());
+      const keepalive = setInterval(() => write(`: ping\n\n`), KEEPALIVE_MS);
+
+      req.signal.addEventListener("abort", () => {
+        closed = true;
+        stopWatching();
+        clearInterval(keepalive);
+        try {
+          controller.close();
+        } catch {
+          /* already closed */
+        }
+      });
+
+      // catch anything that landed between the snapshot query and the watcher starting
+      void pull();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { notFound } from "@/lib/http";
+import { verifyChain } from "@/lib/eventChain";
+import { interviewKey, type InterviewDoc } from "@/lib/reportData";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/interviews/:id/verify  -> { status, events, unchained, head, issues[] } for the event hash chain
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: ["reviewer"] });
+  if (!auth.ok) return auth.response;
+
+  const db = await getDb();
+  const interview = await db
+    .collection<InterviewDoc>("interviews")
+    .findOne({ _id: interviewKey(id) }, { projection: { _id: 1, chainHead: 1 } });
+  if (!interview) return notFound();
+
+  const report = await verifyChain(db, interview);
+  return NextResponse.json(report, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { listActiveSessions } from "@/lib/activeSessions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/interviews/active  -> { items: ActiveSession[] (riskiest first), generatedAt }
+export async function GET(req: NextRequest) {
+  const auth = authorize(req, { roles: ["interviewer", "reviewer"] });
+  if (!auth.ok) return auth.response;
+
+  const db = await getDb();
+  const now = Date.now();
+  const items = await listActiveSessions(db, now);
+
+  return NextResponse.json(
+    { items, generatedAt: new Date(now).toISOString() },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -1,15 +1,111 @@
 import { NextResponse, type NextRequest } from "next/server";
+import type { Document } from "mongodb";
 import { getDb } from "@/lib/mongo";
-import type { Interview } from "@/lib/types";
+import { authorize, STAFF_ROLES } from "@/lib/auth";
+import { parseJson, parseQuery, validationError } from "@/lib/http";
+import { pinPolicy } from "@/lib/policies";
+import { buildSchedule, settleOverdue } from "@/lib/lifecycle";
+import { inviteUrl, newInvite } from "@/lib/invites";
+import { interviewFilterStages } from "@/lib/interviewQuery";
+import { InterviewCreateSchema, InterviewListQuerySchema } from "@/lib/schemas";
 
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/interviews  -> paginated list for the dashboard
+ *   ?q=name  &from=ISO &to=ISO  &minScore=&maxScore=
+ *   &phone=1 &multipleFaces=1  &status=scheduled|in_progress|completed|expired|abandoned
+ *   &sort=startedAt|integrityScore &order=asc|desc  &page=1 &limit=20
+ */
+export async function GET(req: NextRequest) {
+  const auth = authorize(req, { roles: STAFF_ROLES });
+  if (!auth.ok) return auth.response;
+
+  const parsed = parseQuery(req, InterviewListQuerySchema);
+  if (!parsed.ok) return parsed.response;
+  const qs = parsed.value;
+
+  const db = await getDb();
+  await settleOverdue(db);
+
+  const page = qs.page ?? 1;
+  const limit = qs.limit ?? 20;
+  const sortField = qs.sort ?? "startedAt";
+  const order = qs.order === "asc" ? 1 : -1;
+
+  const pipeline: Document[] = [
+    ...interviewFilterStages(qs),
+    { $sort: { [sortField]: order, _id: order } },
+    {
+      $facet: {
+        items: [
+          { $skip: (page - 1) * limit },
+          { $limit: limit },
+          {
+            $project: {
+              _id: { $toString: "$_id" },
+              candidateName: 1,
+              candidateEmail: 1,
+              status: 1,
+              schedule: 1,
+              startedAt: 1,
+              endedAt: 1,
+              integrityScore: 1,
+              videoUrl: 1,
+              phoneDetected: 1,
+              multipleFaces: 1,
+            },
+          },
+        ],
+        total: [{ $count: "n" }],
+      },
+    },
+  ];
+
+  const [res] = await db.collection("interviews").aggregate(pipeline).toArray();
+  const total: number = res?.total?.[0]?.n ?? 0;
+
+  return NextResponse.json(
+    { items: res?.items ?? [], total, page, limit },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+/**
+ * POST /api/interviews -> { id, policy, status, schedule, inviteUrl } (interviewers and admins)
+ * The interview starts out "scheduled"; the candidate joins through the one-time inviteUrl.
+ */
 export async function POST(req: NextRequest) {
-  const body = (await req.json()) as Partial<Interview>;
-  if (!body.candidateName) return NextResponse.json({ error: "candidateName required" }, { status: 400 });
+  const auth = authorize(req, { roles: ["interviewer"] });
+  if (!auth.ok) return auth.response;
+
+  const parsed = await parseJson(req, InterviewCreateSchema);
+  if (!parsed.ok) return parsed.response;
+  const body = parsed.value;
+  const sched = buildSchedule(body);
+  if (!sched.ok) return validationError(sched.issues);
 
   const db = await getDb();
+
+  // pin the scoring policy now so later policy edits don't rescore this interview
+  const policy = await pinPolicy(db, body.policyName);
+  if (!policy) {
+    return validationError([{ path: "policyName", message: "unknown or archived policy" }]);
+  }
+
+  // startedAt is set when the candidate starts recording
+  const { code, invite } = newInvite();
   const r = await db.collection("interviews").insertOne({
     candidateName: body.candidateName,
-    startedAt: new Date().toISOString(),
+    ...(body.candidateEmail ? { candidateEmail: body.candidateEmail.toLowerCase() } : {}),
+    status: "scheduled",
+    schedule: sched.schedule,
+    invite,
+    createdAt: new Date().toISOString(),
+    policy,
+    ...(body.requireFullscreen ? { requireFullscreen: true } : {}),
   });
-  return NextResponse.json({ id: r.insertedId.toString() });
+  const id = r.insertedId.toString();
+  return NextResponse.json({ id, policy, status: "scheduled", schedule: sched.schedule, inviteUrl: inviteUrl(code) });
 }
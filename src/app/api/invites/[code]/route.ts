@@ -0,0 +1,20 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { apiError } from "@/lib/http";
+import { redeemInvite } from "@/lib/invites";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/invites/:code  -> { interviewId, candidateToken }; works once, while the interview is scheduled
+// (POST rather than GET so link previews in mail and chat clients cannot use up the invite)
+export async function POST(_req: NextRequest, ctx: { params: Promise<{ code: string }> }) {
+  const { code } = await ctx.params;
+  const db = await getDb();
+  const res = await redeemInvite(db, code);
+  if (!res.ok) return apiError(res.status, res.status === 404 ? "NOT_FOUND" : "CONFLICT", res.message);
+  return NextResponse.json(
+    { interviewId: res.interviewId, candidateToken: res.candidateToken },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,90 @@
+import { type NextRequest } from "next/server";
+import { getStorage, isValidKey, parseRange, verifyMediaSignature, type StorageDriver } from "@/lib/storage";
+import { apiError, notFound, validationError } from "@/lib/http";
+import { authorize, STAFF_ROLES } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ key: string[] }> };
+
+/** A failing backend is the server's problem: 502 when it is a remote store, 500 for the local disk. */
+function storageFailure(storage: StorageDriver, e: unknown) {
+  console.error("media read failed:", (e as Error).message);
+  return apiError(storage.name === "local" ? 500 : 502, "INTERNAL", "storage backend failed");
+}
+
+// GET /api/media/:key*  -> streams a stored file (any driver), with Range support for video scrubbing
+async function serve(req: NextRequest, ctx: Ctx, headOnly: boolean) {
+  const storage = getStorage();
+
+  const { key: parts } = await ctx.params;
+  const key = parts.join("/");
+  if (!isValidKey(key)) return validationError([{ path: "key", message: "has an invalid format" }]);
+  const sp = req.nextUrl.searchParams;
+  if (!verifyMediaSignature(key, sp.get("exp"), sp.get("sig"))) {
+    return apiError(403, "FORBIDDEN", "invalid or expired signature");
+  }
+  // a valid signature is its own grant; plain URLs need a staff session
+  if (!sp.get("sig")) {
+    const auth = authorize(req, { roles: STAFF_ROLES });
+    if (!auth.ok) return auth.response;
+  }
+
+  let obj;
+  try {
+    obj = await storage.get(key);
+  } catch (e) {
+    return storageFailure(storage, e);
+  }
+  if (!obj) return notFound();
+
+  const headers: Record<string, string> = {
+    "Content-Type": obj.contentType,
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "private, max-age=3600",
+    "X-Content-Type-Options": "nosniff",
+  };
+
+  const rangeHeader = req.headers.get("range");
+  if (!rangeHeader) {
+    headers["Content-Length"] = String(obj.size);
+    if (headOnly) {
+      await obj.body.cancel();
+      return new Response(null, { headers });
+    }
+    return new Response(obj.body, { headers });
+  }
+
+  // re-open just the requested slice
+  await obj.body.cancel();
+  const range = parseRange(rangeHeader, obj.size);
+  if (!range) {
+    return new Response(null, { status: 416, headers: { ...headers, "Content-Range": `bytes */${obj.size}` } });
+  }
+
+  let part;
+  try {
+    part = await storage.get(key, range);
+  } catch (e) {
+    return storageFailure(storage, e);
+  }
+  if (!part) return notFound();
+  const { start, end } = part.range!;
+  headers["Content-Range"] = `bytes ${start}-${end}/${part.size}`;
+  headers["Content-Length"] = String(end - start + 1);
+
+  if (headOnly) {
+    await part.body.cancel();
+    return new Response(null, { status: 206, headers });
+  }
+  return new Response(part.body, { status: 206, headers });
+}
+
+export function GET(req: NextRequest, ctx: Ctx) {
+  return serve(req, ctx, false);
+}
+
+export function HEAD(req: NextRequest, ctx: Ctx) {
+  return serve(req, ctx, true);
+}
@@ -0,0 +1,71 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize, STAFF_ROLES } from "@/lib/auth";
+import { apiError, notFound, parseJson, parseQuery } from "@/lib/http";
+import {
+  archivePolicy,
+  getLatestPolicy,
+  getPolicyVersion,
+  savePolicyVersion,
+} from "@/lib/policies";
+import { PolicyQuerySchema, PolicyUpdateSchema } from "@/lib/schemas";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ name: string }> };
+
+// GET /api/policies/:name[?version=N]  -> latest or one specific version
+export async function GET(req: NextRequest, ctx: Ctx) {
+  const { name } = await ctx.params;
+  const auth = authorize(req, { roles: STAFF_ROLES });
+  if (!auth.ok) return auth.response;
+
+  const parsed = parseQuery(req, PolicyQuerySchema);
+  if (!parsed.ok) return parsed.response;
+  const { version } = parsed.value;
+  const db = await getDb();
+
+  const policy = version ? await getPolicyVersion(db, name, version) : await getLatestPolicy(db, name);
+  if (!policy) return notFound();
+
+  return NextResponse.json(policy, { headers: { "Cache-Control": "no-store" } });
+}
+
+// PUT /api/policies/:name  { rules, mode?, description? }  -> inserts the next version.
+// Existing versions are immutable so already-pinned interviews keep their score.
+export async function PUT(req: NextRequest, ctx: Ctx) {
+  const { name } = await ctx.params;
+  const auth = authorize(req, { roles: ["admin"] });
+  if (!auth.ok) return auth.response;
+
+  const parsed = await parseJson(req, PolicyUpdateSchema);
+  if (!parsed.ok) return parsed.response;
+  const body = parsed.value;
+
+  const db = await getDb();
+  const prev = await getLatestPolicy(db, name);
+  if (!prev) return notFound();
+  if (prev.archivedAt) return apiError(409, "CONFLICT", "policy is archived");
+
+  const policy = await savePolicyVersion(db, name, {
+    rules: body.rules,
+    mode: body.mode ?? prev.mode ?? "count",
+    description: body.description ?? prev.description,
+  });
+  return NextResponse.json(policy);
+}
+
+// DELETE /api/policies/:name  -> archives it (no new interviews can pin it)
+export async function DELETE(req: NextRequest, ctx: Ctx) {
+  const { name } = await ctx.params;
+  const auth = authorize(req, { roles: ["admin"] });
+  if (!auth.ok) return auth.response;
+
+  const db = await getDb();
+
+  const n = await archivePolicy(db, name);
+  if (n === 0) return notFound();
+
+  return NextResponse.json({ ok: true, archivedVersions: n });
+}
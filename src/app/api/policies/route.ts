@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize, STAFF_ROLES } from "@/lib/auth";
+import { apiError, parseJson } from "@/lib/http";
+import { getLatestPolicy, listPolicies, savePolicyVersion } from "@/lib/policies";
+import { PolicyCreateSchema } from "@/lib/schemas";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/policies  -> latest version of every policy
+export async function GET(req: NextRequest) {
+  const auth = authorize(req, { roles: STAFF_ROLES });
+  if (!auth.ok) return auth.response;
+
+  const db = await getDb();
+  const policies = await listPolicies(db);
+  return NextResponse.json({ policies }, { headers: { "Cache-Control": "no-store" } });
+}
+
+// POST /api/policies  { name, rules, mode?, description? }  -> creates version 1
+export async function POST(req: NextRequest) {
+  const auth = authorize(req, { roles: ["admin"] });
+  if (!auth.ok) return auth.response;
+
+  const parsed = await parseJson(req, PolicyCreateSchema);
+  if (!parsed.ok) return parsed.response;
+  const { name, rules, mode, description } = parsed.value;
+
+  const db = await getDb();
+  if (await getLatestPolicy(db, name)) {
+    return apiError(409, "CONFLICT", "policy exists; PUT /api/policies/:name for a new version");
+  }
+
+  const policy = await savePolicyVersion(db, name, { rules, mode, description });
+  return NextResponse.json(policy, { status: 201 });
+}
@@ -0,0 +1,58 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { apiError, parseQuery } from "@/lib/http";
+import { loadForCandidate, stateConflict, uploadsClosed } from "@/lib/lifecycle";
+import { MAX_CHUNK_BYTES, listChunkSeqs, storeChunk } from "@/lib/recordings";
+import { ChunkListQuerySchema, ChunkUploadQuerySchema } from "@/lib/schemas";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// GET /api/recordings/:id/chunks?take=X  -> { take, seqs } already received (for resume)
+export async function GET(req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: [], candidateFor: id });
+  if (!auth.ok) return auth.response;
+  const parsed = parseQuery(req, ChunkListQuerySchema);
+  if (!parsed.ok) return parsed.response;
+  const { take } = parsed.value;
+
+  const db = await getDb();
+  const loaded = await loadForCandidate(db, id, "upload", auth.principal);
+  if (!loaded.ok) return loaded.response;
+  const seqs = await listChunkSeqs(db, String(loaded.interview._id), take);
+  return NextResponse.json({ take, seqs }, { headers: { "Cache-Control": "no-store" } });
+}
+
+// POST /api/recordings/:id/chunks?take=X&seq=N  (raw bytes)  -> stores one slice; safe to retry
+export async function POST(req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: [], candidateFor: id });
+  if (!auth.ok) return auth.response;
+  const parsed = parseQuery(req, ChunkUploadQuerySchema);
+  if (!parsed.ok) return parsed.response;
+  const { take, seq } = parsed.value;
+
+  if (Number(req.headers.get("content-length") ?? 0) > MAX_CHUNK_BYTES) {
+    return apiError(413, "PAYLOAD_TOO_LARGE", `chunk exceeds ${MAX_CHUNK_BYTES} bytes`);
+  }
+  const bytes = Buffer.from(await req.arrayBuffer());
+  if (bytes.length === 0) return apiError(400, "VALIDATION_FAILED", "empty chunk");
+  if (bytes.length > MAX_CHUNK_BYTES) {
+    return apiError(413, "PAYLOAD_TOO_LARGE", `chunk exceeds ${MAX_CHUNK_BYTES} bytes`);
+  }
+
+  const db = await getDb();
+  const loaded = await loadForCandidate(db, id, "upload", auth.principal);
+  if (!loaded.ok) return loaded.response;
+  // the duration limit holds on the server too: nothing recorded long after the deadline is taken
+  if (uploadsClosed(loaded.interview)) {
+    return stateConflict(loaded.status, "the recording upload window has closed");
+  }
+
+  const chunk = await storeChunk(db, String(loaded.interview._id), take, seq, bytes);
+  return NextResponse.json({ ok: true, seq: chunk.seq, size: chunk.size });
+}
@@ -0,0 +1,84 @@
+import { after, NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { type InterviewDoc } from "@/lib/reportData";
+import { loadForCandidate, sessionEnd, stateConflict, uploadsClosed } from "@/lib/lifecycle";
+import { assembleTake, discardChunks, type RecordingTake } from "@/lib/recordings";
+import { apiError, parseJson } from "@/lib/http";
+import { FinalizeRecordingSchema } from "@/lib/schemas";
+import { refreshScore } from "@/lib/scoring";
+import { finishInterview } from "@/lib/reportArchive";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Doc = InterviewDoc & { recordings?: RecordingTake[] };
+
+// POST /api/recordings/:id/finalize  { take, totalChunks, mimeType, endedAt? }
+//   -> assembles the take, sets videoUrl and completes the interview; 409 listing the absent chunks otherwise.
+//   The client's endedAt is not trusted: the end is the receive time, capped at the deadline and set once.
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: [], candidateFor: id });
+  if (!auth.ok) return auth.response;
+
+  const parsed = await parseJson(req, FinalizeRecordingSchema);
+  if (!parsed.ok) return parsed.response;
+  const body = parsed.value;
+  const take = body.take;
+  const total = body.totalChunks;
+  const mimeType = body.mimeType ?? "video/webm";
+
+  const db = await getDb();
+  const col = db.collection<Doc>("interviews");
+  const loaded = await loadForCandidate(db, id, "upload", auth.principal, { recordings: 1 });
+  if (!loaded.ok) return loaded.response;
+  const interview = loaded.interview as Doc;
+
+  const interviewId = String(interview._id);
+  const cleanup = () =>
+    discardChunks(db, interviewId, take).catch((e) => console.error("recording cleanup:", (e as Error).message));
+
+  // finalize is idempotent: a retry after a lost response returns the same file
+  const done = interview.recordings?.find((r) => r.take === take);
+  if (done) {
+    after(cleanup);
+    return NextResponse.json({ ok: true, url: done.url, recording: done });
+  }
+  if (uploadsClosed(interview)) return stateConflict(loaded.status, "the recording upload window has closed");
+
+  const res = await assembleTake(db, interviewId, take, total, mimeType);
+  if ("missing" in res) {
+    return apiError(
+      409,
+      "CONFLICT",
+      `${res.missing.length} chunk(s) not received`,
+      res.missing.map((seq) => ({ path: `chunks[${seq}]`, message: "not received" }))
+    );
+  }
+
+  const $set: Partial<Doc> = { videoUrl: res.recording.url };
+  // a late upload still completes a session that was marked abandoned
+  if (interview.status !== undefined) $set.status = "completed";
+  // once per take: a concurrent finalize that recorded it first wins
+  const updated = await col.findOneAndUpdate(
+    { _id: interview._id, "recordings.take": { $ne: take } },
+    // $min keeps the first end (ISO strings of one format order like the times)
+    { $set, $min: { endedAt: sessionEnd(interview) }, $push: { recordings: res.recording } }
+  );
+  if (!updated) {
+    const current = await col.findOne({ _id: interview._id }, { projection: { recordings: 1 } });
+    const winner = current?.recordings?.find((r) => r.take === take);
+    if (!winner) return apiError(409, "CONFLICT", "recording could not be saved; retry finalize");
+    return NextResponse.json({ ok: true, url: winner.url, recording: winner });
+  }
+
+  // the parts go only after the interview points at the assembled file
+  after(cleanup);
+  // endedAt fixes the duration time-mode scores divide by
+  after(() => refreshScore(db, interviewId));
+  // a further take of an already completed interview is not another completion
+  if (loaded.status !== "completed") after(() => finishInterview(db, id));
+
+  return NextResponse.json({ ok: true, url: res.recording.url, recording: res.recording });
+}
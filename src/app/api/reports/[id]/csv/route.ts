@@ -1,13 +1,15 @@
 import { type NextRequest } from "next/server";
 import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
 import { ObjectId } from "mongodb";
-import {
-  summarizeCounts,
-  computeIntegrity,
-  fetchEventsByInterview,
-  estimateDurationMs,
-  type EventRow,
-} from "@/lib/report";
+import type { EventRow } from "@/lib/report";
+import { policyConflict, resolvePolicy } from "@/lib/policies";
+import { verifyChain } from "@/lib/eventChain";
+import { eventCursor } from "@/lib/eventQuery";
+import { scoreInterview } from "@/lib/scoring";
+import type { EventReview, IdentityState, PolicyRef } from "@/lib/types";
+import { notFound } from "@/lib/http";
+import { csvCell } from "@/lib/csv";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -19,6 +21,8 @@ type InterviewDoc = {
   endedAt?: string;
   videoUrl?: string;
   integrityScore?: number;
+  policy?: PolicyRef;
+  identity?: IdentityState;
 };
 
 function msToHMS(ms: number) {
@@ -31,14 +35,30 @@ function msToHMS(ms: number) {
   return `${ss}s`;
 }
 
-function q(v: unknown): string {
-  const s = v == null ? "" : String(v);
-  // Quote if we see comma, quote, newline; double the quotes inside.
-  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+const line = (r: (string | number)[]) => r.map(csvCell).join(",") + "\r\n";
+
+/** Timeline rows written per pull, so long interviews never sit in memory as one string. */
+const STREAM_BATCH = 500;
+
+function timelineRow(e: EventRow, byEvent: Map<string, EventReview>): (string | number)[] {
+  const dur = e.meta?.durationMs;
+  const review = e.eventId ? byEvent.get(e.eventId) : undefined;
+  return [
+    "Timeline",
+    e.t,
+    e.type,
+    typeof e.confidence === "number" ? e.confidence : "",
+    typeof dur === "number" ? dur : "",
+    e.seq ?? "",
+    review?.status ?? "",
+    review?.note ?? "",
+  ];
 }
 
-export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
   const { id } = await ctx.params;
+  const auth = authorize(req, { roles: ["reviewer"] });
+  if (!auth.ok) return auth.response;
 
   const db = await getDb();
   const col = db.collection<InterviewDoc>("interviews");
@@ -47,20 +67,26 @@ export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string
   const key: InterviewDoc["_id"] = ObjectId.isValid(id) ? new ObjectId(id) : id;
   const interview = await col.findOne({ _id: key });
   if (!interview) {
-    return new Response("not found", { status: 404 });
+    return notFound();
   }
 
-  // Gather data
-  const events: EventRow[] = await fetchEventsByInterview(db, String(interview._id));
-  const counts = summarizeCounts(events);
-  const integrity = computeIntegrity(counts);
-  const durationMs = estimateDurationMs(interview.startedAt, interview.endedAt, events);
-
-  // Persist score back (handy for lists)
-  await col.updateOne({ _id: interview._id }, { $set: { integrityScore: integrity.score } });
+  let policy;
+  try {
+    policy = await resolvePolicy(db, interview.policy);
+  } catch (e) {
+    return policyConflict(e);
+  }
+  // dismissed events are left out of the score, counts and flags; the timeline streams in a second pass
+  const { durationMs, reviews: byEvent, raw, counts, intervals, integrity } = await scoreInterview(db, interview, policy);
+  const chain = await verifyChain(db, interview);
 
   const phoneDetected = (counts["PHONE_DETECTED"] ?? 0) > 0;
   const multipleFaces = (counts["MULTIPLE_FACES"] ?? 0) > 0;
+  const otherVoices = (counts["BACKGROUND_VOICE"] ?? 0) + (counts["MULTIPLE_SPEAKERS"] ?? 0) > 0;
+  const leftPage = (counts["TAB_HIDDEN"] ?? 0) + (counts["WINDOW_BLUR"] ?? 0) + (counts["FULLSCREEN_EXIT"] ?? 0) > 0;
+  const clipboardUsed = (counts["COPY_PASTE"] ?? 0) > 0;
+  const identityMismatch = (counts["IDENTITY_MISMATCH"] ?? 0) > 0;
+  const idChecks = interview.identity?.checks ?? 0;
 
   // Build CSV rows (with blank rows separating sections)
   const rows: (string | number)[][] = [];
@@ -73,13 +99,41 @@ export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string
   rows.push(["Meta", "Duration", msToHMS(durationMs)]);
   rows.push([]);
   rows.push(["Score", "Final Score", integrity.score]);
+  rows.push(["Score", "Raw Score (before review)", raw.integrity.score]);
+  rows.push(["Score", "Reviewed events", `${byEvent.size} (${[...byEvent.values()].filter((r) => r.status === "dismissed").length} dismissed)`]);
+  rows.push(["Score", "Policy", `${policy.name} v${policy.version} (${policy.mode ?? "count"})`]);
+  rows.push(["Score", "Event log", `${chain.status} (${chain.events} chained, ${chain.issues.length} issues)`]);
   rows.push(["Flags", "Phone shown", phoneDetected ? "Yes" : "No"]);
   rows.push(["Flags", "Multiple faces", multipleFaces ? "Yes" : "No"]);
+  rows.push(["Flags", "Other voices", otherVoices ? "Yes" : "No"]);
+  rows.push(["Flags", "Left the page", leftPage ? "Yes" : "No"]);
+  rows.push(["Flags", "Copy/paste", clipboardUsed ? "Yes" : "No"]);
+  rows.push(["Flags", "Identity mismatch", identityMismatch ? "Yes" : "No"]);
+  rows.push([
+    "Identity",
+    "Similarity (mean / min / re-matches)",
+    idChecks > 0
+      ? `${Math.round(((interview.identity?.similaritySum ?? 0) / idChecks) * 100) / 100} / ${interview.identity?.minSimilarity ?? ""} / ${idChecks}`
+      : interview.identity?.selfieKey ? "not re-checked" : "no reference photo",
+  ]);
 
   rows.push([]);
-  rows.push(["Deductions", "Type", "Times", "Deduction"]);
+  rows.push(["Deductions", "Type", "Times", "Deduction", "Seconds"]);
   for (const b of integrity.breakdown) {
-    rows.push(["Deductions", b.type, b.times, `-${b.deduct}`]);
+    rows.push(["Deductions", b.type, b.times, -b.deduct, b.seconds ?? ""]);
+  }
+
+  rows.push([]);
+  rows.push(["Violations", "Type", "Start (s)", "End (s)", "Duration (s)", "Events"]);
+  for (const iv of intervals) {
+    rows.push([
+      "Violations",
+      iv.type,
+      (iv.start / 1000).toFixed(1),
+      (iv.end / 1000).toFixed(1),
+      (iv.durationMs / 1000).toFixed(1),
+      iv.events,
+    ]);
   }
 
   rows.push([]);
@@ -89,17 +143,35 @@ export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string
   }
 
   rows.push([]);
-  rows.push(["Timeline (first 200)", "t (ms)", "type", "confidence"]);
-  for (const e of events.slice(0, 200)) {
-    rows.push(["Timeline", e.t, e.type, typeof e.confidence === "number" ? e.confidence : ""]);
-  }
-
-  // Excel-friendly: add UTF-8 BOM
-  const csv =
-    "\uFEFF" +
-    rows.map((r) => r.map(q).join(",")).join("\r\n");
+  rows.push(["Timeline", "t (ms)", "type", "confidence", "duration (ms)", "seq", "review", "review note"]);
+
+  // summary first, then every event straight from the database
+  const encoder = new TextEncoder();
+  const cursor = eventCursor(db, String(interview._id), { includeMeta: true });
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Excel-friendly: add UTF-8 BOM
+      controller.enqueue(encoder.encode("\uFEFF" + rows.map(line).join("")));
+    },
+    async pull(controller) {
+      let chunk = "";
+      for (let n = 0; n < STREAM_BATCH; n++) {
+        const e = await cursor.next();
+        if (!e) {
+          if (chunk) controller.enqueue(encoder.encode(chunk));
+          await cursor.close();
+          return controller.close();
+        }
+        chunk += line(timelineRow(e, byEvent));
+      }
+      controller.enqueue(encoder.encode(chunk));
+    },
+    async cancel() {
+      await cursor.close();
+    },
+  });
 
-  return new Response(csv, {
+  return new Response(body, {
     headers: {
       "Content-Type": "text/csv; charset=utf-8",
       "Content-Disposition": `attachment; filename="report-${String(interview._id)}.csv"`,
@@ -0,0 +1,35 @@
+import { type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { buildReport } from "@/lib/reportData";
+import { renderReportPdf } from "@/lib/pdf/ReportDocument";
+import { notFound } from "@/lib/http";
+import { policyConflict } from "@/lib/policies";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/reports/:id/pdf  -> renders the current report as a PDF download (the stored copy is made on completion)
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: ["reviewer"] });
+  if (!auth.ok) return auth.response;
+  const db = await getDb();
+
+  let built;
+  try {
+    built = await buildReport(db, id);
+  } catch (e) {
+    return policyConflict(e);
+  }
+  if (!built) return notFound();
+
+  const pdf = await renderReportPdf(built.report, built.events);
+  return new Response(new Uint8Array(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="report-${built.report.interview._id}.pdf"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -1,14 +1,25 @@
 import { NextResponse, type NextRequest } from "next/server";
-import { put } from "@vercel/blob";
+import { getStorage } from "@/lib/storage";
+import { authorize } from "@/lib/auth";
+import { apiError, validationError } from "@/lib/http";
 
+export const runtime = "nodejs";
+
+// POST /api/upload (multipart "file")  -> whole-file upload; staff only, candidates stream via /api/recordings
 export async function POST(req: NextRequest) {
-  const token = process.env.BLOB_READ_WRITE_TOKEN;
-  if (!token) return NextResponse.json({ error: "Missing BLOB_READ_WRITE_TOKEN" }, { status: 500 });
+  const auth = authorize(req, { roles: ["interviewer"] });
+  if (!auth.ok) return auth.response;
 
   const form = await req.formData();
   const file = form.get("file");
-  if (!(file instanceof File)) return NextResponse.json({ error: "file required" }, { status: 400 });
+  if (!(file instanceof File)) return validationError([{ path: "file", message: "is required" }]);
 
-  const res = await put(`videos/${Date.now()}-${file.name}`, file, { access: "public", token });
-  return NextResponse.json({ url: res.url });
+  try {
+    const res = await getStorage().put(`videos/${Date.now()}-${file.name}`, file, {
+      contentType: file.type || "video/webm",
+    });
+    return NextResponse.json({ url: res.url, key: res.key });
+  } catch (e) {
+    return apiError(500, "INTERNAL", (e as Error).message || "upload failed");
+  }
 }
@@ -0,0 +1,56 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb, indexesOnce } from "@/lib/mongo";
+import { apiError, parseJson } from "@/lib/http";
+import { authorize, hashPassword } from "@/lib/auth";
+import { UserCreateSchema } from "@/lib/schemas";
+import type { User } from "@/lib/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const ensureIndexes = indexesOnce((db) => db.collection<User>("users").createIndex({ email: 1 }, { unique: true }));
+
+// GET /api/users  -> staff accounts (admins only; no password hashes)
+export async function GET(req: NextRequest) {
+  const auth = authorize(req, { roles: ["admin"] });
+  if (!auth.ok) return auth.response;
+
+  const db = await getDb();
+  const users = await db
+    .collection<User>("users")
+    .find({}, { projection: { passwordHash: 0 } })
+    .sort({ email: 1 })
+    .toArray();
+  return NextResponse.json(
+    { users: users.map((u) => ({ ...u, _id: String(u._id) })) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+// POST /api/users  { email, password, roles }  -> creates a staff account (admins only)
+export async function POST(req: NextRequest) {
+  const auth = authorize(req, { roles: ["admin"] });
+  if (!auth.ok) return auth.response;
+
+  const parsed = await parseJson(req, UserCreateSchema);
+  if (!parsed.ok) return parsed.response;
+  const body = parsed.value;
+
+  const db = await getDb();
+  const col = db.collection<User>("users");
+  await ensureIndexes(db);
+
+  const email = body.email.toLowerCase();
+  if (await col.findOne({ email }, { projection: { _id: 1 } })) {
+    return apiError(409, "CONFLICT", "a user with this email exists");
+  }
+
+  const user: User = {
+    email,
+    passwordHash: await hashPassword(body.password),
+    roles: Array.from(new Set(body.roles)),
+    createdAt: new Date().toISOString(),
+  };
+  const r = await col.insertOne(user);
+  return NextResponse.json({ _id: r.insertedId.toString(), email, roles: user.roles }, { status: 201 });
+}
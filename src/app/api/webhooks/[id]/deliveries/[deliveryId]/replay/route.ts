@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { ObjectId } from "mongodb";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { apiError, notFound } from "@/lib/http";
+import { deliveries, findWebhook, publicDelivery, replayDelivery } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/webhooks/:id/deliveries/:deliveryId/replay
+//   -> 201 with the new delivery after its first attempt (same event and data, replayOf = the original)
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string; deliveryId: string }> }) {
+  const { id, deliveryId } = await ctx.params;
+  const auth = authorize(req, { roles: ["admin"] });
+  if (!auth.ok) return auth.response;
+
+  const db = await getDb();
+  const hook = await findWebhook(db, id);
+  if (!hook || !ObjectId.isValid(deliveryId)) return notFound();
+  if (!hook.active) return apiError(409, "CONFLICT", "webhook is inactive");
+  const original = await deliveries(db).findOne({ _id: new ObjectId(deliveryId), webhookId: String(hook._id) });
+  if (!original) return notFound("delivery not found");
+
+  const replayed = await replayDelivery(db, original);
+  if (!replayed) return notFound("delivery not found");
+  return NextResponse.json(publicDelivery(replayed), { status: 201 });
+}
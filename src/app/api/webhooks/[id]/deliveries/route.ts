@@ -0,0 +1,42 @@
+import { after, NextResponse, type NextRequest } from "next/server";
+import { ObjectId, type Filter } from "mongodb";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { notFound, parseQuery } from "@/lib/http";
+import { WebhookDeliveryQuerySchema } from "@/lib/schemas";
+import { deliverDue, deliveries, findWebhook, publicDelivery } from "@/lib/webhooks";
+import type { WebhookDelivery } from "@/lib/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/webhooks/:id/deliveries[?status=pending|delivered|failed&limit=&cursor=]
+//   -> { items, nextCursor }: the delivery log, newest first, each with its attempts
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: ["admin"] });
+  if (!auth.ok) return auth.response;
+
+  const parsed = parseQuery(req, WebhookDeliveryQuerySchema);
+  if (!parsed.ok) return parsed.response;
+  const { status, cursor, limit = 50 } = parsed.value;
+
+  const db = await getDb();
+  const hook = await findWebhook(db, id);
+  if (!hook) return notFound();
+  // retries that came due while no timer was running (e.g. after a restart)
+  after(() => deliverDue(db).catch((e) => console.error("webhook retry:", (e as Error).message)));
+
+  const filter: Filter<WebhookDelivery> = { webhookId: String(hook._id) };
+  if (status) filter.status = status;
+  if (cursor) filter._id = { $lt: new ObjectId(cursor) };
+  const rows = await deliveries(db).find(filter).sort({ _id: -1 }).limit(limit + 1).toArray();
+  const page = rows.slice(0, limit);
+  return NextResponse.json(
+    {
+      items: page.map(publicDelivery),
+      nextCursor: rows.length > limit ? String(page[page.length - 1]._id) : null,
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
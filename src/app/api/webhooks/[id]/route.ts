@@ -0,0 +1,58 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { notFound, parseJson, validationError } from "@/lib/http";
+import { WebhookUpdateSchema } from "@/lib/schemas";
+import { deliveries, findWebhook, publicWebhook, subscriptions } from "@/lib/webhooks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// GET /api/webhooks/:id  -> the subscription (admins only)
+export async function GET(req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: ["admin"] });
+  if (!auth.ok) return auth.response;
+
+  const db = await getDb();
+  const hook = await findWebhook(db, id);
+  if (!hook) return notFound();
+  return NextResponse.json(publicWebhook(hook), { headers: { "Cache-Control": "no-store" } });
+}
+
+// PATCH /api/webhooks/:id  { url?, events?, description?, active? }  -> the updated subscription.
+// Deliveries still pending for an inactive subscription fail at their next attempt; replay them once it is back on.
+export async function PATCH(req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: ["admin"] });
+  if (!auth.ok) return auth.response;
+
+  const parsed = await parseJson(req, WebhookUpdateSchema);
+  if (!parsed.ok) return parsed.response;
+  const { events, ...rest } = parsed.value;
+  const $set: Record<string, unknown> = { ...rest, ...(events && { events: Array.from(new Set(events)) }) };
+  if (Object.keys($set).length === 0) return validationError([], "no updatable fields");
+
+  const db = await getDb();
+  const hook = await findWebhook(db, id);
+  if (!hook) return notFound();
+  const updated = await subscriptions(db).findOneAndUpdate({ _id: hook._id }, { $set }, { returnDocument: "after" });
+  if (!updated) return notFound();
+  return NextResponse.json(publicWebhook(updated));
+}
+
+// DELETE /api/webhooks/:id  -> removes the subscription and its delivery log
+export async function DELETE(req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params;
+  const auth = authorize(req, { roles: ["admin"] });
+  if (!auth.ok) return auth.response;
+
+  const db = await getDb();
+  const hook = await findWebhook(db, id);
+  if (!hook) return notFound();
+  await subscriptions(db).deleteOne({ _id: hook._id });
+  const { deletedCount } = await deliveries(db).deleteMany({ webhookId: String(hook._id) });
+  return NextResponse.json({ ok: true, deletedDeliveries: deletedCount });
+}
@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { notFound, parseJson } from "@/lib/http";
+import { WebhookCreateSchema } from "@/lib/schemas";
+import { newWebhookSecret, publicWebhook, subscriptions } from "@/lib/webhooks";
+import type { WebhookSubscription } from "@/lib/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// GET /api/webhooks  -> { webhooks } (admins only; secrets are never listed)
+export async function GET(req: NextRequest) {
+  const auth = authorize(req, { roles: ["admin"] });
+  if (!auth.ok) return auth.response;
+
+  const db = await getDb();
+  const rows = await subscriptions(db).find({}).sort({ createdAt: 1 }).toArray();
+  return NextResponse.json({ webhooks: rows.map(publicWebhook) }, { headers: { "Cache-Control": "no-store" } });
+}
+
+// POST /api/webhooks  { url, events, description? }  -> the subscription plus its signing secret (shown only here)
+export async function POST(req: NextRequest) {
+  const auth = authorize(req, { roles: ["admin"] });
+  if (!auth.ok) return auth.response;
+  if (auth.principal.kind !== "staff") return notFound();
+
+  const parsed = await parseJson(req, WebhookCreateSchema);
+  if (!parsed.ok) return parsed.response;
+  const body = parsed.value;
+
+  const db = await getDb();
+  const hook: WebhookSubscription = {
+    url: body.url,
+    events: Array.from(new Set(body.events)),
+    secret: newWebhookSecret(),
+    ...(body.description && { description: body.description }),
+    active: true,
+    createdBy: auth.principal.email,
+    createdAt: new Date().toISOString(),
+  };
+  const r = await subscriptions(db).insertOne(hook);
+  return NextResponse.json(
+    { ...publicWebhook({ ...hook, _id: r.insertedId }), secret: hook.secret },
+    { status: 201 }
+  );
+}
@@ -0,0 +1,35 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { timingSafeEqual } from "node:crypto";
+import { getDb } from "@/lib/mongo";
+import { authorize } from "@/lib/auth";
+import { deliverDue } from "@/lib/webhooks";
+import { refreshUnscored } from "@/lib/scoring";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Deliveries attempted per sweep; a scheduler calling every minute keeps well ahead of the backoff. */
+const SWEEP_LIMIT = 200;
+
+/** `Authorization: Bearer <CRON_SECRET>`, as schedulers such as Vercel Cron send it. */
+function isCron(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const got = Buffer.from(req.headers.get("authorization") ?? "");
+  const want = Buffer.from(`Bearer ${secret}`);
+  return got.length === want.length && timingSafeEqual(got, want);
+}
+
+// GET /api/webhooks/sweep  -> { attempted, scored }: sends every delivery whose retry is due and
+// backfills a batch of never-scored interviews (cron or admins)
+export async function GET(req: NextRequest) {
+  if (!isCron(req)) {
+    const auth = authorize(req, { roles: ["admin"] });
+    if (!auth.ok) return auth.response;
+  }
+
+  const db = await getDb();
+  const attempted = await deliverDue(db, SWEEP_LIMIT);
+  const scored = await refreshUnscored(db);
+  return NextResponse.json({ attempted, scored }, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,485 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+
+/** Matches GET /api/interviews */
+type Row = {
+  _id: string;
+  candidateName?: string;
+  candidateEmail?: string;
+  status?: Status;                   // absent on interviews created before scheduling
+  schedule?: { windowStart: string; windowEnd: string; maxDurationMs: number };
+  startedAt?: string;
+  endedAt?: string;
+  integrityScore?: number;
+  phoneDetected: boolean;
+  multipleFaces: boolean;
+};
+
+type Status = "scheduled" | "in_progress" | "completed" | "expired" | "abandoned";
+
+const STATUS_COLORS: Record<Status, string> = {
+  scheduled: "#9f94ff",
+  in_progress: "#21d07a",
+  completed: "#a0aec0",
+  expired: "#f6ad55",
+  abandoned: "#ff6b6b",
+};
+
+type ListResponse = { items: Row[]; total: number; page: number; limit: number };
+
+type Filters = {
+  q: string;
+  from: string;
+  to: string;
+  minScore: string;
+  maxScore: string;
+  phone: boolean;
+  multipleFaces: boolean;
+  status: Status | "";
+  sort: "startedAt" | "integrityScore";
+  order: "asc" | "desc";
+};
+
+const EMPTY: Filters = {
+  q: "",
+  from: "",
+  to: "",
+  minScore: "",
+  maxScore: "",
+  phone: false,
+  multipleFaces: false,
+  status: "",
+  sort: "startedAt",
+  order: "desc",
+};
+
+const LIMIT = 25;
+
+/** The filter part of the query, shared by the list and exports. */
+function filterParams(f: Filters) {
+  const p = new URLSearchParams();
+  if (f.q.trim()) p.set("q", f.q.trim());
+  // date inputs are local days; cover the whole "to" day
+  if (f.from) p.set("from", new Date(`${f.from}T00:00:00`).toISOString());
+  if (f.to) p.set("to", new Date(`${f.to}T23:59:59.999`).toISOString());
+  if (f.minScore) p.set("minScore", f.minScore);
+  if (f.maxScore) p.set("maxScore", f.maxScore);
+  if (f.phone) p.set("phone", "1");
+  if (f.multipleFaces) p.set("multipleFaces", "1");
+  if (f.status) p.set("status", f.status);
+  return p;
+}
+
+function toQuery(f: Filters, page: number) {
+  const p = filterParams(f);
+  for (const [k, v] of Object.entries({ sort: f.sort, order: f.order, page: String(page), limit: String(LIMIT) })) {
+    p.set(k, v);
+  }
+  return p.toString();
+}
+
+type ExportJob = { id: string; status: "queued" | "running" | "done" | "failed"; error?: string | null; downloadUrl?: string | null };
+
+function saveBlob(blob: Blob, filename: string) {
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(blob);
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(a.href), 10_000);
+}
+
+export default function DashboardPage() {
+  const [draft, setDraft] = useState<Filters>(EMPTY);
+  const router = useRouter();
+  const [filters, setFilters] = useState<Filters>(EMPTY);
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<ListResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  // progress of the running export, if any
+  const [exporting, setExporting] = useState<string | null>(null);
+  // freshly issued invite links, by interview id
+  const [invites, setInvites] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        setLoading(true);
+        setErr(null);
+        const r = await fetch(`/api/interviews?${toQuery(filters, page)}`, { cache: "no-store" });
+        if (r.status === 401) {
+          router.replace("/login?next=/dashboard");
+          return;
+        }
+        if (!r.ok) {
+          const t = await r.text().catch(() => "");
+          throw new Error(`HTTP ${r.status}${t ? ` – ${t}` : ""}`);
+        }
+        const j = (await r.json()) as ListResponse;
+        if (alive) setData(j);
+      } catch (e) {
+        if (alive) setErr((e as Error).message);
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [filters, page, router]);
+
+  async function reissue(id: string) {
+    const r = await fetch(`/api/interviews/${id}/invite`, { method: "POST" });
+    const j = (await r.json().catch(() => null)) as { inviteUrl?: string; error?: { message?: string } } | null;
+    if (!r.ok || !j?.inviteUrl) {
+      setErr(j?.error?.message || `HTTP ${r.status}`);
+      return;
+    }
+    setInvites((m) => ({ ...m, [id]: `${window.location.origin}${j.inviteUrl}` }));
+  }
+
+  /** Small exports download directly; large ones come back as a job that is polled until its file is ready. */
+  async function exportAs(dataset: "interviews" | "events", format: "csv" | "jsonl") {
+    setErr(null);
+    setExporting(`Preparing ${dataset} export…`);
+    try {
+      const p = filterParams(filters);
+      p.set("dataset", dataset);
+      p.set("format", format);
+      const r = await fetch(`/api/exports?${p.toString()}`, { cache: "no-store" });
+      const filename = `${dataset}.${format}`;
+      if (r.status === 200) return saveBlob(await r.blob(), filename);
+      const body = (await r.json().catch(() => null)) as unknown;
+      if (r.status !== 202) {
+        throw new Error((body as { error?: { message?: string } } | null)?.error?.message || `HTTP ${r.status}`);
+      }
+      let job = body as ExportJob;
+      while (job.status === "queued" || job.status === "running") {
+        setExporting(`Large export running in the background (${job.status})…`);
+        await new Promise((res) => setTimeout(res, 3000));
+        const s = await fetch(`/api/exports/${job.id}`, { cache: "no-store" });
+        if (!s.ok) throw new Error(`HTTP ${s.status}`);
+        job = (await s.json()) as ExportJob;
+      }
+      if (job.status !== "done" || !job.downloadUrl) throw new Error(job.error || "export failed");
+      const f = await fetch(job.downloadUrl);
+      if (!f.ok) throw new Error(`HTTP ${f.status}`);
+      saveBlob(await f.blob(), filename);
+    } catch (e) {
+      setErr(`Export failed: ${(e as Error).message}`);
+    } finally {
+      setExporting(null);
+    }
+  }
+
+  function apply(e: React.FormEvent) {
+    e.preventDefault();
+    setPage(1);
+    setFilters(draft);
+  }
+
+  function sortBy(field: Filters["sort"]) {
+    const next: Filters = {
+      ...filters,
+      sort: field,
+      order: filters.sort === field && filters.order === "desc" ? "asc" : "desc",
+    };
+    setDraft(next);
+    setFilters(next);
+    setPage(1);
+  }
+
+  const pages = data ? Math.max(1, Math.ceil(data.total / data.limit)) : 1;
+
+  /** ---------- styles (dark / glass) ---------- */
+  const outer: React.CSSProperties = {
+    minHeight: "100vh",
+    background:
+      "radial-gradient(1200px 600px at 70% -10%, rgba(129,61,255,0.18), transparent), #000",
+    display: "grid",
+    placeItems: "start center",
+    padding: 24,
+    color: "#fff",
+  };
+
+  const card: React.CSSProperties = {
+    width: "100%",
+    maxWidth: 1100,
+    borderRadius: 16,
+    border: "1px solid #262626",
+    background: "linear-gradient(180deg, rgba(255,255,255,0.04), rgba(255,255,255,0.02))",
+    boxShadow: "0 10px 40px rgba(0,0,0,0.4)",
+    padding: 24,
+    backdropFilter: "blur(6px)",
+  };
+
+  const btn: React.CSSProperties = {
+    background: "#1b1b1e",
+    border: "1px solid #3a3a3f",
+    color: "#fff",
+    padding: "8px 14px",
+    borderRadius: 10,
+    cursor: "pointer",
+  };
+
+  const input: React.CSSProperties = {
+    background: "#0f0f10",
+    border: "1px solid #2c2c2c",
+    color: "#fff",
+    padding: "8px 10px",
+    borderRadius: 8,
+    fontSize: 14,
+  };
+
+  const table: React.CSSProperties = {
+    width: "100%",
+    borderCollapse: "collapse",
+    borderTop: "1px solid #2f2f33",
+    marginTop: 16,
+  };
+
+  const th: React.CSSProperties = {
+    textAlign: "left",
+    padding: "8px 6px",
+    fontWeight: 700,
+    borderBottom: "1px solid #2f2f33",
+    color: "#d9d9d9",
+  };
+
+  const td: React.CSSProperties = {
+    padding: "8px 6px",
+    borderBottom: "1px dashed #2a2a2e",
+    color: "#ebebeb",
+  };
+
+  const flag = (on: boolean): React.CSSProperties => ({
+    padding: "2px 8px",
+    borderRadius: 999,
+    fontSize: 12,
+    background: on ? "#3d142a" : "#143d2a",
+    color: on ? "#ff6b6b" : "#21d07a",
+  });
+
+  const arrow = (field: Filters["sort"]) =>
+    filters.sort === field ? (filters.order === "desc" ? " ↓" : " ↑") : "";
+
+  return (
+    <main style={outer}>
+      <section style={card}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 16 }}>
+          <h1 style={{ margin: 0, fontSize: 22, fontWeight: 700 }}>Interviews</h1>
+          <div style={{ display: "flex", gap: 10 }}>
+            <Link href="/monitor" style={{ textDecoration: "none" }}>
+              <button style={btn}>Live wall</button>
+            </Link>
+            <Link href="/" style={{ textDecoration: "none" }}>
+              <button style={btn}>New Interview</button>
+            </Link>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <form onSubmit={apply} style={{ display: "flex", flexWrap: "wrap", gap: 10, alignItems: "center" }}>
+          <input
+            placeholder="Candidate name"
+            value={draft.q}
+            onChange={(e) => setDraft({ ...draft, q: e.target.value })}
+            style={{ ...input, minWidth: 200 }}
+          />
+          <label style={{ fontSize: 13, opacity: 0.85 }}>
+            From{" "}
+            <input type="date" value={draft.from} onChange={(e) => setDraft({ ...draft, from: e.target.value })} style={input} />
+          </label>
+          <label style={{ fontSize: 13, opacity: 0.85 }}>
+            To{" "}
+            <input type="date" value={draft.to} onChange={(e) => setDraft({ ...draft, to: e.target.value })} style={input} />
+          </label>
+          <input
+            type="number"
+            placeholder="Min score"
+            min={0}
+            max={100}
+            value={draft.minScore}
+            onChange={(e) => setDraft({ ...draft, minScore: e.target.value })}
+            style={{ ...input, width: 100 }}
+          />
+          <input
+            type="number"
+            placeholder="Max score"
+            min={0}
+            max={100}
+            value={draft.maxScore}
+            onChange={(e) => setDraft({ ...draft, maxScore: e.target.value })}
+            style={{ ...input, width: 100 }}
+          />
+          <label style={{ fontSize: 13 }}>
+            <input type="checkbox" checked={draft.phone} onChange={(e) => setDraft({ ...draft, phone: e.target.checked })} /> Phone
+          </label>
+          <label style={{ fontSize: 13 }}>
+            <input
+              type="checkbox"
+              checked={draft.multipleFaces}
+              onChange={(e) => setDraft({ ...draft, multipleFaces: e.target.checked })}
+            />{" "}
+            Multiple faces
+          </label>
+          <select
+            value={draft.status}
+            onChange={(e) => setDraft({ ...draft, status: e.target.value as Filters["status"] })}
+            style={input}
+          >
+            <option value="">Any status</option>
+            {(Object.keys(STATUS_COLORS) as Status[]).map((s) => (
+              <option key={s} value={s}>
+                {s.replace("_", " ")}
+              </option>
+            ))}
+          </select>
+          <button type="submit" style={btn}>
+            Apply
+          </button>
+          <button
+            type="button"
+            style={btn}
+            onClick={() => {
+              setDraft(EMPTY);
+              setFilters(EMPTY);
+              setPage(1);
+            }}
+          >
+            Reset
+          </button>
+        </form>
+
+        {/* Exports use the applied filters */}
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", marginBottom: 12 }}>
+          <span style={{ opacity: 0.8 }}>Export:</span>
+          {(["interviews", "events"] as const).flatMap((dataset) =>
+            (["csv", "jsonl"] as const).map((format) => (
+              <button
+                key={`${dataset}-${format}`}
+                type="button"
+                style={btn}
+                disabled={exporting !== null}
+                onClick={() => void exportAs(dataset, format)}
+              >
+                {dataset === "interviews" ? "Interviews" : "Events"} ({format.toUpperCase()})
+              </button>
+            ))
+          )}
+          {exporting && <span style={{ opacity: 0.8 }}>{exporting}</span>}
+        </div>
+
+        {/* Results */}
+        {loading && <p style={{ opacity: 0.85 }}>Loading…</p>}
+        {err && <p style={{ color: "#ff6b6b" }}>Error: {err}</p>}
+
+        {!loading && !err && data && (
+          <>
+            {data.items.length === 0 ? (
+              <p style={{ opacity: 0.85, marginTop: 16 }}>No interviews match.</p>
+            ) : (
+              <table style={table}>
+                <thead>
+                  <tr>
+                    <th style={th}>Candidate</th>
+                    <th style={th}>Status</th>
+                    <th style={{ ...th, cursor: "pointer" }} onClick={() => sortBy("startedAt")}>
+                      Started{arrow("startedAt")}
+                    </th>
+                    <th style={{ ...th, cursor: "pointer" }} onClick={() => sortBy("integrityScore")}>
+                      Score{arrow("integrityScore")}
+                    </th>
+                    <th style={th}>Flags</th>
+                    <th style={th}></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.items.map((r) => (
+                    <tr key={r._id}>
+                      <td style={td}>
+                        {r.candidateName || "—"}
+                        {r.candidateEmail && <div style={{ fontSize: 12, opacity: 0.7 }}>{r.candidateEmail}</div>}
+                      </td>
+                      <td style={td}>
+                        {r.status ? (
+                          <span
+                            style={{ color: STATUS_COLORS[r.status] }}
+                            title={
+                              r.schedule &&
+                              `window ${new Date(r.schedule.windowStart).toLocaleString()} – ${new Date(r.schedule.windowEnd).toLocaleString()}, max ${Math.round(r.schedule.maxDurationMs / 60000)} min`
+                            }
+                          >
+                            {r.status.replace("_", " ")}
+                          </span>
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                      <td style={td}>{r.startedAt ? new Date(r.startedAt).toLocaleString() : "—"}</td>
+                      <td style={{ ...td, fontWeight: 700 }}>{r.integrityScore ?? "—"}</td>
+                      <td style={{ ...td, display: "flex", gap: 6 }}>
+                        <span style={flag(r.phoneDetected)}>Phone</span>
+                        <span style={flag(r.multipleFaces)}>Faces</span>
+                      </td>
+                      <td style={td}>
+                        <Link href={`/report/${r._id}`} style={{ color: "#9f94ff" }}>
+                          Report
+                        </Link>
+                        {(r.status ? r.status === "in_progress" : !r.endedAt) && (
+                          <>
+                            {" · "}
+                            <Link href={`/monitor/${r._id}`} style={{ color: "#9f94ff" }}>
+                              Monitor
+                            </Link>
+                          </>
+                        )}
+                        {r.status === "scheduled" && (
+                          <>
+                            {" · "}
+                            <button
+                              type="button"
+                              onClick={() => void reissue(r._id)}
+                              style={{ background: "none", border: "none", padding: 0, color: "#9f94ff", cursor: "pointer", font: "inherit" }}
+                            >
+                              New invite link
+                            </button>
+                          </>
+                        )}
+                        {invites[r._id] && (
+                          <input
+                            readOnly
+                            value={invites[r._id]}
+                            onFocus={(e) => e.currentTarget.select()}
+                            style={{ ...input, display: "block", marginTop: 6, fontSize: 12, width: 260 }}
+                          />
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {/* Pagination */}
+            <div style={{ display: "flex", alignItems: "center", gap: 12, marginTop: 16 }}>
+              <button style={btn} disabled={page <= 1} onClick={() => setPage((p) => p - 1)}>
+                Prev
+              </button>
+              <span style={{ opacity: 0.85, fontSize: 14 }}>
+                Page {data.page} of {pages} • {data.total} interview(s)
+              </span>
+              <button style={btn} disabled={page >= pages} onClick={() => setPage((p) => p + 1)}>
+                Next
+              </button>
+            </div>
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,435 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useParams } from "next/navigation";
+import { SYSTEM_CHECKS, type CheckResult, type FocusBaseline, type SystemCheckName } from "@/lib/types";
+import { useFaceFocus, type FaceSample } from "@/lib/detect/useFaceFocus";
+import { useObjectDetect } from "@/lib/detect/useObjectDetect";
+import { useAudioMonitor } from "@/lib/detect/useAudioMonitor";
+import { authHeader, readCandidateToken } from "@/lib/candidateSession";
+import { pickSupportedMime } from "@/lib/media";
+import { isMatchable } from "@/lib/detect/useIdentityCheck";
+import { medianSignature } from "@/lib/detect/faceSignature";
+import { captureFrame } from "@/lib/snapshotUploader";
+import { uploadIdentityPhoto } from "@/lib/identityUpload";
+
+/* ----- thresholds ----- */
+// loudest mic frame while the candidate speaks must beat this
+const MIN_VOICE_DB = -45;
+// mean luma (0–255) of the frame: below is too dark, above is washed out
+const LUMA_RANGE = [50, 220] as const;
+const MODEL_TIMEOUT_MS = 30000;
+const MIC_MS = 3000;
+const CALIBRATE_MS = 3000;
+// at ~15 fps a steady 3 s gives ~45 frames; fewer means the face kept dropping out
+const MIN_CALIBRATION_SAMPLES = 15;
+// face centre may sit this far from the middle of the frame
+const MAX_CENTER_OFFSET = 0.2;
+// face narrower than this share of the frame is too far from the camera
+const MIN_FACE_SIZE = 0.12;
+// reference selfie: frames averaged into its signature, and the photo widths
+const SELFIE_MS = 2000;
+const MIN_SELFIE_SAMPLES = 10;
+const SELFIE_WIDTH = 640;
+const ID_PHOTO_WIDTH = 960;
+
+const LABELS: Record<SystemCheckName, string> = {
+  camera: "Camera",
+  microphone: "Microphone",
+  lighting: "Lighting",
+  recorder: "Recording support",
+  faceModel: "Face tracking",
+  objectModel: "Object detection",
+  calibration: "Calibration",
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+const median = (xs: number[]) => {
+  const s = [...xs].sort((a, b) => a - b);
+  return s.length ? s[Math.floor(s.length / 2)] : 0;
+};
+
+/** Mean luma of the current frame, read from a small canvas. */
+function meanLuma(video: HTMLVideoElement): number | null {
+  const c = document.createElement("canvas");
+  c.width = 64;
+  c.height = 36;
+  const ctx = c.getContext("2d", { willReadFrequently: true });
+  if (!ctx || !video.videoWidth) return null;
+  ctx.drawImage(video, 0, 0, c.width, c.height);
+  const px = ctx.getImageData(0, 0, c.width, c.height).data;
+  let sum = 0;
+  for (let i = 0; i < px.length; i += 4) sum += 0.299 * px[i] + 0.587 * px[i + 1] + 0.114 * px[i + 2];
+  return sum / (px.length / 4);
+}
+
+/** Record one second and confirm the browser produced data. */
+async function testRecorder(stream: MediaStream, mimeType: string): Promise<CheckResult> {
+  const parts: Blob[] = [];
+  try {
+    const rec = new MediaRecorder(stream, { mimeType });
+    rec.ondataavailable = (e: BlobEvent) => {
+      if (e.data.size > 0) parts.push(e.data);
+    };
+    const stopped = new Promise((r) => (rec.onstop = r));
+    rec.start(250);
+    await sleep(1000);
+    rec.stop();
+    await stopped;
+  } catch (e) {
+    return { ok: false, detail: (e as Error).message || "recorder failed" };
+  }
+  const bytes = parts.reduce((n, b) => n + b.size, 0);
+  return bytes > 0 ? { ok: true, detail: mimeType } : { ok: false, detail: "recorder produced no data" };
+}
+
+export default function SystemCheckPage() {
+  const { id: interviewId } = useParams<{ id: string }>();
+
+  // callback refs: the detector hooks start once both elements exist
+  const [video, setVideo] = useState<HTMLVideoElement | null>(null);
+  const [canvas, setCanvas] = useState<HTMLCanvasElement | null>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [token, setToken] = useState<string | null | undefined>(undefined);
+
+  const [running, setRunning] = useState(false);
+  const [step, setStep] = useState<string | null>(null);
+  const [results, setResults] = useState<Partial<Record<SystemCheckName, CheckResult>>>({});
+  const [saved, setSaved] = useState<{ passed: boolean } | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [identity, setIdentity] = useState({ selfie: false, idDocument: false });
+  const [idBusy, setIdBusy] = useState(false);
+  const [idErr, setIdErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    setToken(readCandidateToken(String(interviewId)));
+  }, [interviewId]);
+
+  // release the camera when leaving the page
+  const streamRef = useRef<MediaStream | null>(null);
+  useEffect(() => {
+    streamRef.current = stream;
+  }, [stream]);
+  useEffect(() => () => streamRef.current?.getTracks().forEach((t) => t.stop()), []);
+
+  // calibration collects face samples only while it runs
+  const samplesRef = useRef<FaceSample[] | null>(null);
+  const onSample = useCallback((s: FaceSample) => {
+    samplesRef.current?.push(s);
+  }, []);
+
+  const face = useFaceFocus({ video, canvas, onSample });
+  const objects = useObjectDetect({ video, canvas });
+  const { levelDb } = useAudioMonitor({ stream });
+
+  // latest values for the async check sequence
+  const liveRef = useRef({ levelDb, face, objects });
+  useEffect(() => {
+    liveRef.current = { levelDb, face, objects };
+  }, [levelDb, face, objects]);
+
+  async function run() {
+    setErr(null);
+    setSaved(null);
+    setResults({});
+    if (!token) {
+      setErr("This page needs the interview link you were sent. Open that link to continue.");
+      return;
+    }
+    if (!video) return;
+    setRunning(true);
+    const out: Partial<Record<SystemCheckName, CheckResult>> = {};
+    const report = (name: SystemCheckName, r: CheckResult) => {
+      out[name] = r;
+      setResults({ ...out });
+    };
+    let baseline: FocusBaseline | undefined;
+    let mimeType: string | undefined;
+
+    try {
+      // camera + microphone
+      setStep("Asking for camera and microphone…");
+      let media = streamRef.current;
+      if (!media) {
+        try {
+          media = await navigator.mediaDevices.getUserMedia({
+            video: { width: { ideal: 1280 }, height: { ideal: 720 }, facingMode: "user" },
+            audio: true,
+          });
+        } catch (e) {
+          const detail = (e as Error).name || "permission denied";
+          report("camera", { ok: false, detail });
+          report("microphone", { ok: false, detail });
+        }
+      }
+      if (media) {
+        video.srcObject = media;
+        setStream(media);
+        try {
+          await video.play();
+        } catch {}
+        for (let i = 0; i < 20 && !video.videoWidth; i++) await sleep(100);
+        report(
+          "camera",
+          video.videoWidth
+            ? { ok: true, detail: `${video.videoWidth}×${video.videoHeight}` }
+            : { ok: false, detail: "no video frames" }
+        );
+        const mic = media.getAudioTracks()[0];
+        if (!mic) report("microphone", { ok: false, detail: "no microphone track" });
+      }
+
+      // recording support
+      setStep("Testing recording…");
+      mimeType = pickSupportedMime();
+      if (!mimeType) report("recorder", { ok: false, detail: "MediaRecorder WebM not supported" });
+      else if (media) report("recorder", await testRecorder(media, mimeType));
+      else report("recorder", { ok: false, detail: "no camera stream" });
+
+      // lighting
+      const luma = out.camera?.ok ? meanLuma(video) : null;
+      if (luma == null) report("lighting", { ok: false, detail: "no camera image" });
+      else {
+        const ok = luma >= LUMA_RANGE[0] && luma <= LUMA_RANGE[1];
+        const hint = luma < LUMA_RANGE[0] ? "too dark" : luma > LUMA_RANGE[1] ? "too bright" : "ok";
+        report("lighting", { ok, detail: `brightness ${Math.round(luma)} (${hint})` });
+      }
+
+      // microphone level
+      if (media?.getAudioTracks()[0]) {
+        setStep("Say a few words in your normal voice…");
+        let peak = -Infinity;
+        for (const until = Date.now() + MIC_MS; Date.now() < until; ) {
+          await sleep(100);
+          peak = Math.max(peak, liveRef.current.levelDb);
+        }
+        const ok = peak > MIN_VOICE_DB;
+        report("microphone", { ok, detail: `peak ${Math.round(peak)} dB${ok ? "" : " (too quiet)"}` });
+      }
+
+      // detector models
+      setStep("Loading detection models…");
+      const settled = () => {
+        const { face, objects } = liveRef.current;
+        return (face.ready || face.error != null) && (objects.ready || objects.error != null);
+      };
+      for (const until = Date.now() + MODEL_TIMEOUT_MS; Date.now() < until && !settled(); ) await sleep(250);
+      const models = liveRef.current;
+      report("faceModel", models.face.ready ? { ok: true } : { ok: false, detail: models.face.error ?? "timed out loading" });
+      report(
+        "objectModel",
+        models.objects.ready ? { ok: true } : { ok: false, detail: models.objects.error ?? "timed out loading" }
+      );
+
+      // calibration: neutral pose and usual distance
+      if (models.face.ready && out.camera?.ok) {
+        setStep("Look at the screen and sit as you will during the interview…");
+        samplesRef.current = [];
+        await sleep(CALIBRATE_MS);
+        const all = samplesRef.current;
+        samplesRef.current = null;
+        const good = all.filter(
+          (s) =>
+            s.faces === 1 &&
+            s.pose &&
+            s.faceSize != null &&
+            s.center &&
+            Math.abs(s.center.x - 0.5) <= MAX_CENTER_OFFSET &&
+            Math.abs(s.center.y - 0.5) <= MAX_CENTER_OFFSET
+        );
+        const size = median(good.map((s) => s.faceSize!));
+        if (good.length < MIN_CALIBRATION_SAMPLES) {
+          const many = all.some((s) => s.faces > 1);
+          report("calibration", {
+            ok: false,
+            detail: many ? "more than one face in view" : "keep your face centred in the frame",
+          });
+        } else if (size < MIN_FACE_SIZE) {
+          report("calibration", { ok: false, detail: "move closer to the camera" });
+        } else {
+          baseline = {
+            yaw: Math.round(median(good.map((s) => s.pose!.yaw)) * 10) / 10,
+            pitch: Math.round(median(good.map((s) => s.pose!.pitch)) * 10) / 10,
+            faceSize: Math.round(size * 1000) / 1000,
+          };
+          report("calibration", { ok: true, detail: `yaw ${baseline.yaw}°, pitch ${baseline.pitch}°` });
+        }
+      } else {
+        report("calibration", { ok: false, detail: "needs camera and face tracking" });
+      }
+
+      // save
+      setStep("Saving…");
+      const checks = Object.fromEntries(
+        SYSTEM_CHECKS.map((name) => [name, out[name] ?? { ok: false, detail: "not run" }])
+      ) as Record<SystemCheckName, CheckResult>;
+      const r = await fetch(`/api/interviews/${interviewId}/check`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeader(token) },
+        body: JSON.stringify({ checks, baseline, mimeType, userAgent: navigator.userAgent.slice(0, 300) }),
+      });
+      if (!r.ok) throw new Error(`Saving the check failed (${r.status})`);
+      setSaved((await r.json()) as { passed: boolean });
+    } catch (e) {
+      samplesRef.current = null;
+      setErr((e as Error).message || "System check failed");
+    } finally {
+      setStep(null);
+      setRunning(false);
+    }
+  }
+
+  /** Reference selfie: the photo plus the median face signature of a short still window. */
+  async function takeSelfie() {
+    if (!video || !token) return;
+    setIdErr(null);
+    setIdBusy(true);
+    try {
+      samplesRef.current = [];
+      await sleep(SELFIE_MS);
+      const good = samplesRef.current.filter(isMatchable);
+      samplesRef.current = null;
+      const signature = good.length >= MIN_SELFIE_SAMPLES ? medianSignature(good.map((s) => s.signature!)) : null;
+      if (!signature) throw new Error("Look straight at the camera, alone in the frame, and try again.");
+      const photo = await captureFrame(video, null, SELFIE_WIDTH);
+      if (!photo) throw new Error("No camera image");
+      await uploadIdentityPhoto(String(interviewId), token, "selfie", photo, signature);
+      setIdentity((p) => ({ ...p, selfie: true }));
+    } catch (e) {
+      samplesRef.current = null;
+      setIdErr((e as Error).message);
+    } finally {
+      setIdBusy(false);
+    }
+  }
+
+  async function takeIdPhoto() {
+    if (!video || !token) return;
+    setIdErr(null);
+    setIdBusy(true);
+    try {
+      const photo = await captureFrame(video, null, ID_PHOTO_WIDTH);
+      if (!photo) throw new Error("No camera image");
+      await uploadIdentityPhoto(String(interviewId), token, "idDocument", photo);
+      setIdentity((p) => ({ ...p, idDocument: true }));
+    } catch (e) {
+      setIdErr((e as Error).message);
+    } finally {
+      setIdBusy(false);
+    }
+  }
+
+  /** ---------- styles (same family as the interview page) ---------- */
+  const page: React.CSSProperties = {
+    minHeight: "100vh",
+    background:
+      "radial-gradient(1200px 600px at 70% -10%, rgba(129,61,255,0.18), transparent), #000",
+    display: "grid",
+    placeItems: "center",
+    padding: 24,
+    color: "#fff",
+  };
+
+  const card: React.CSSProperties = {
+    width: "100%",
+    maxWidth: 900,
+    borderRadius: 16,
+    border: "1px solid #262626",
+    background: "linear-gradient(180deg, rgba(255,255,255,0.04), rgba(255,255,255,0.02))",
+    boxShadow: "0 10px 40px rgba(0,0,0,0.4)",
+    padding: 24,
+    backdropFilter: "blur(6px)",
+  };
+
+  const btn: React.CSSProperties = {
+    background: "#1b1b1e",
+    border: "1px solid #3a3a3f",
+    color: "#fff",
+    padding: "10px 16px",
+    borderRadius: 10,
+    cursor: "pointer",
+    textDecoration: "none",
+  };
+
+  return (
+    <main style={page}>
+      <section style={card}>
+        <h2 style={{ marginTop: 0, marginBottom: 6 }}>System check</h2>
+        <p style={{ marginTop: 0, opacity: 0.8 }}>
+          Before the interview we test your camera, microphone, lighting and browser, and note how you
+          normally sit so looking at your screen is not mistaken for looking away.
+        </p>
+
+        <div style={{ position: "relative", maxWidth: 640 }}>
+          <video
+            ref={setVideo}
+            playsInline
+            muted
+            style={{ width: "100%", background: "#000", borderRadius: 12, display: "block", minHeight: 200 }}
+          />
+          <canvas
+            ref={setCanvas}
+            style={{ position: "absolute", inset: 0, borderRadius: 12, pointerEvents: "none" }}
+          />
+        </div>
+
+        <ul style={{ listStyle: "none", padding: 0, margin: "16px 0", display: "grid", gap: 6 }}>
+          {SYSTEM_CHECKS.map((name) => {
+            const r = results[name];
+            return (
+              <li key={name} style={{ display: "flex", gap: 10, alignItems: "baseline" }}>
+                <span style={{ width: 18, color: !r ? "#777" : r.ok ? "#21d07a" : "#ff6b6b" }}>
+                  {!r ? "•" : r.ok ? "✓" : "✗"}
+                </span>
+                <span style={{ minWidth: 150 }}>{LABELS[name]}</span>
+                {r?.detail && <span style={{ fontSize: 13, opacity: 0.75 }}>{r.detail}</span>}
+              </li>
+            );
+          })}
+        </ul>
+
+        {step && <p style={{ color: "#bdb6ff" }}>{step}</p>}
+        {err && <p style={{ color: "#ff6b6b" }}>{err}</p>}
+        {saved && (
+          <p style={{ color: saved.passed ? "#c8f3d2" : "#f6ad55" }}>
+            {saved.passed
+              ? "All checks passed."
+              : "Some checks failed. Fix what you can and run the check again, or continue anyway."}
+          </p>
+        )}
+
+        {saved && (
+          <div style={{ margin: "8px 0 16px", paddingTop: 12, borderTop: "1px solid #262626" }}>
+            <h3 style={{ margin: "0 0 6px" }}>Identity</h3>
+            <p style={{ marginTop: 0, opacity: 0.8, fontSize: 14 }}>
+              Take a reference photo: look straight at the camera for two seconds. During the interview your face is
+              compared with it from time to time. You can also add a photo of your ID: hold it next to your face, with
+              the photo side towards the camera.
+            </p>
+            <div style={{ display: "flex", gap: 14, flexWrap: "wrap", alignItems: "center" }}>
+              <button style={btn} onClick={takeSelfie} disabled={idBusy || running}>
+                {identity.selfie ? "✓ Retake reference photo" : "Take reference photo"}
+              </button>
+              <button style={btn} onClick={takeIdPhoto} disabled={idBusy || running}>
+                {identity.idDocument ? "✓ Retake ID photo" : "Add ID photo (optional)"}
+              </button>
+              {idBusy && <span style={{ color: "#bdb6ff" }}>Hold still…</span>}
+            </div>
+            {idErr && <p style={{ color: "#ff6b6b" }}>{idErr}</p>}
+          </div>
+        )}
+
+        <div style={{ display: "flex", gap: 14, flexWrap: "wrap", alignItems: "center" }}>
+          <button style={btn} onClick={run} disabled={running || idBusy || token === undefined}>
+            {running ? "Checking…" : saved ? "Run again" : "Start check"}
+          </button>
+          {saved && (
+            <a href={`/interview/${interviewId}`} style={btn}>
+              Continue to interview
+            </a>
+          )}
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -1,22 +1,26 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useParams } from "next/navigation";
-import type { EventType, ProctorEventInput } from "@/lib/types";
+import type { EventType, IdentityState, InterviewSchedule, InterviewStatus, SystemCheck } from "@/lib/types";
 import { useFaceFocus } from "@/lib/detect/useFaceFocus";
 import { useObjectDetect } from "@/lib/detect/useObjectDetect";
+import { useAudioMonitor } from "@/lib/detect/useAudioMonitor";
+import { useEnvironmentGuard } from "@/lib/detect/useEnvironmentGuard";
+import { useIdentityCheck } from "@/lib/detect/useIdentityCheck";
+import { createChunkUploader, resumePendingTakes } from "@/lib/chunkUploader";
+import { createEventOutbox, newEventId } from "@/lib/eventOutbox";
+import { captureFrame, createSnapshotUploader } from "@/lib/snapshotUploader";
+import { uploadIdentityPhoto } from "@/lib/identityUpload";
+import { authHeader, readCandidateToken } from "@/lib/candidateSession";
+import { HEARTBEAT_MS } from "@/lib/live";
+import { pickSupportedMime } from "@/lib/media";
 
 /* ----- record helpers ----- */
-const MIME_CANDIDATES = [
-  "video/webm;codecs=vp9,opus",
-  "video/webm;codecs=vp8,opus",
-  "video/webm",
-];
-function pickSupportedMime(): string | undefined {
-  if (typeof MediaRecorder === "undefined") return undefined;
-  for (const mt of MIME_CANDIDATES) if (MediaRecorder.isTypeSupported(mt)) return mt;
-  return undefined;
-}
+// MediaRecorder timeslice: each slice is uploaded as one chunk
+const CHUNK_MS = 5000;
+// width of a reference selfie enrolled from the interview page
+const SELFIE_WIDTH = 640;
 
 export default function InterviewPage() {
   const { id: interviewId } = useParams<{ id: string }>();
@@ -31,48 +35,141 @@ export default function InterviewPage() {
   const [elapsed, setElapsed] = useState(0);
   const [err, setErr] = useState<string | null>(null);
   const [uploadOk, setUploadOk] = useState(false);
+  const [resuming, setResuming] = useState(false);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [requireFullscreen, setRequireFullscreen] = useState(false);
+  // latest pre-interview check; null once loaded if the candidate skipped it
+  const [systemCheck, setSystemCheck] = useState<SystemCheck | null | undefined>(undefined);
+  // face signature of the reference selfie; null once loaded if there is none yet
+  const [reference, setReference] = useState<number[] | null | undefined>(undefined);
+  // candidate token from the invite link; undefined until read on the client
+  const [token, setToken] = useState<string | null | undefined>(undefined);
+  // lifecycle state from the server; the deadline is fixed when recording starts
+  const [lifecycle, setLifecycle] = useState<{ status?: InterviewStatus; schedule?: InterviewSchedule } | null>(null);
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setToken(readCandidateToken(String(interviewId)));
+  }, [interviewId]);
 
-  // small event buffer
-  const bufferRef = useRef<ProctorEventInput[]>([]);
+  // session settings chosen by the interviewer
+  useEffect(() => {
+    if (!token) return;
+    let alive = true;
+    fetch(`/api/interviews/${interviewId}`, { headers: authHeader(token), cache: "no-store" })
+      .then((r) =>
+        r.ok
+          ? (r.json() as Promise<{
+              requireFullscreen?: boolean;
+              systemCheck: SystemCheck | null;
+              identity: Pick<IdentityState, "signature"> | null;
+              status?: InterviewStatus;
+              schedule: InterviewSchedule | null;
+            }>)
+          : null
+      )
+      .then((doc) => {
+        if (!alive || !doc) return;
+        setRequireFullscreen(doc.requireFullscreen === true);
+        setSystemCheck(doc.systemCheck ?? null);
+        setReference(doc.identity?.signature ?? null);
+        setLifecycle({ status: doc.status, schedule: doc.schedule ?? undefined });
+      })
+      .catch(() => undefined);
+    return () => {
+      alive = false;
+    };
+  }, [interviewId, token]);
+
+  // finish uploads left behind by a crash / reload of this page
+  useEffect(() => {
+    if (token === undefined) return;
+    let alive = true;
+    setResuming(true);
+    resumePendingTakes(String(interviewId), token)
+      .then((url) => {
+        if (alive && url) setUploadOk(true);
+      })
+      .catch((e) => {
+        if (alive) setErr(`Recovering previous recording failed: ${(e as Error).message}`);
+      })
+      .finally(() => {
+        if (alive) setResuming(false);
+      });
+    return () => {
+      alive = false;
+    };
+  }, [interviewId, token]);
+
+  // persistent event outbox (IndexedDB), flushed every 3s and beaconed on page hide
+  const outbox = useMemo(() => createEventOutbox(String(interviewId), token ?? null), [interviewId, token]);
+  // evidence frames, uploaded on their own queue; the event only carries the key and hash
+  const snapshots = useMemo(() => createSnapshotUploader(String(interviewId), token ?? null), [interviewId, token]);
   const pushEvent = useCallback(
     (type: EventType, confidence?: number, meta?: Record<string, unknown>) => {
       const now = Date.now();
       const start = startTsRef.current ?? now;
-      bufferRef.current.push({
+      const event = {
+        eventId: newEventId(),
         interviewId: String(interviewId),
-        t: now - start,
+        t: Math.max(0, now - start),
         type,
         confidence,
         meta,
         createdAt: new Date().toISOString(),
-      });
+      };
+      const video = videoRef.current;
+      if (!video) return outbox.push(event);
+      // the frame is grabbed now; the event waits only for the JPEG encode + hash
+      void snapshots
+        .capture(video, canvasRef.current, event.eventId)
+        .catch(() => null)
+        .then((shot) => outbox.push(shot ? { ...event, meta: { ...meta, ...shot } } : event));
     },
-    [interviewId]
+    [interviewId, outbox, snapshots]
   );
 
-  // flush buffer every 3s
   useEffect(() => {
-    const iv = setInterval(async () => {
-      if (!bufferRef.current.length) return;
-      const events = bufferRef.current.splice(0, bufferRef.current.length);
-      try {
-        await fetch("/api/events", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ interviewId, events }),
-        });
-      } catch {
-        bufferRef.current.unshift(...events);
-      }
+    if (token === undefined) return;
+    void outbox.load().then(() => outbox.flush());
+    void snapshots.load().then(() => snapshots.flush());
+    const iv = setInterval(() => {
+      void outbox.flush();
+      void snapshots.flush();
     }, 3000);
-    return () => clearInterval(iv);
-  }, [interviewId]);
 
-  // Face/focus detector
+    const onHide = () => {
+      if (document.visibilityState === "hidden") outbox.beacon();
+    };
+    const onPageHide = () => outbox.beacon();
+    document.addEventListener("visibilitychange", onHide);
+    window.addEventListener("pagehide", onPageHide);
+    return () => {
+      clearInterval(iv);
+      document.removeEventListener("visibilitychange", onHide);
+      window.removeEventListener("pagehide", onPageHide);
+    };
+  }, [outbox, snapshots, token]);
+
+  // Identity re-match against the reference selfie; each result rides on the next heartbeat
+  const similarityRef = useRef<number | null>(null);
+  const identity = useIdentityCheck({
+    reference: reference ?? null,
+    active: recording,
+    onEvent: (t, meta) => pushEvent(t, 0.8, meta),
+    onCheck: (s) => {
+      similarityRef.current = s;
+    },
+  });
+
+  // Face/focus detector, measured against the calibration from the system check
   const { status, faces } = useFaceFocus({
     video: videoRef.current,
     canvas: canvasRef.current,
     onEvent: (t, meta) => pushEvent(t, 1.0, meta),
+    baseline: systemCheck?.baseline ?? null,
+    onSample: identity.onSample,
   });
 
   // Object detector (draws on same canvas layer)
@@ -82,10 +179,100 @@ export default function InterviewPage() {
     onEvent: (t, meta) => pushEvent(t, 0.9, meta),
   });
 
-  // elapsed timer while recording
+  // Audio VAD on the microphone track (on-device)
+  const { voice } = useAudioMonitor({
+    stream,
+    onEvent: (t, meta) => pushEvent(t, 0.7, meta),
+  });
+
+  // Tab switches, window blur, fullscreen exits, clipboard, devtools
+  const { fullscreen, enterFullscreen } = useEnvironmentGuard({
+    active: recording,
+    onEvent: (t, meta) => pushEvent(t, 1.0, meta),
+    requireFullscreen,
+  });
+
+  // heartbeat for proctors watching /monitor/[id]: on a timer and whenever focus/recording changes
+  const liveRef = useRef({ status, faces, recording });
+  useEffect(() => {
+    liveRef.current = { status, faces, recording };
+  }, [status, faces, recording]);
+
+  const beat = useCallback(() => {
+    if (!token) return;
+    const similarity = similarityRef.current;
+    similarityRef.current = null;
+    void fetch(`/api/interviews/${interviewId}/heartbeat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeader(token) },
+      body: JSON.stringify(similarity == null ? liveRef.current : { ...liveRef.current, similarity }),
+      keepalive: true,
+    })
+      .then((r) => (r.ok ? (r.json() as Promise<{ stop?: boolean }>) : null))
+      .then((j) => {
+        if (j?.stop) stopRef.current("The time allowed for this interview is up. The recording was stopped.");
+      })
+      .catch(() => undefined);
+  }, [interviewId, token]);
+
+  // no reference selfie from the system check: enrol the first clear view of the face once recording starts
+  const { currentSignature } = identity;
+  useEffect(() => {
+    if (!recording || reference !== null || !token) return;
+    let busy = false;
+    const iv = setInterval(async () => {
+      const signature = currentSignature();
+      const video = videoRef.current;
+      if (busy || !signature || !video) return;
+      busy = true;
+      try {
+        const photo = await captureFrame(video, null, SELFIE_WIDTH);
+        if (!photo) return;
+        await uploadIdentityPhoto(String(interviewId), token, "selfie", photo, signature);
+        setReference(signature);
+      } catch {
+        setReference(undefined); // refused or offline: no re-matching this session rather than retrying forever
+      } finally {
+        busy = false;
+      }
+    }, 2000);
+    return () => clearInterval(iv);
+  }, [recording, reference, token, interviewId, currentSignature]);
+
+  useEffect(() => {
+    beat();
+    const iv = setInterval(beat, HEARTBEAT_MS);
+    return () => clearInterval(iv);
+  }, [beat]);
+
+  useEffect(() => {
+    beat();
+  }, [beat, status, recording]);
+
+  // stop at the deadline even when the heartbeat is not getting through
+  useEffect(() => {
+    if (!recording || deadline === null) return;
+    const t = setTimeout(
+      () => stopRef.current("The time allowed for this interview is up. The recording was stopped."),
+      Math.max(0, deadline - Date.now())
+    );
+    return () => clearTimeout(t);
+  }, [recording, deadline]);
+
+  // clock for the start window and the time remaining
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, []);
+
+  // elapsed timer while recording, measured from the server's startedAt (survives reloads)
   useEffect(() => {
     let t: ReturnType<typeof setInterval> | undefined;
-    if (recording) t = setInterval(() => setElapsed((p) => p + 1), 1000);
+    const tick = () => setElapsed(Math.max(0, Math.floor((Date.now() - (startTsRef.current ?? Date.now())) / 1000)));
+    if (recording) {
+      tick();
+      t = setInterval(tick, 1000);
+    }
     return () => {
       if (t) clearInterval(t);
     };
@@ -94,6 +281,15 @@ export default function InterviewPage() {
   async function start() {
     setErr(null);
     setUploadOk(false);
+    if (!token) {
+      setErr("This page needs the interview link you were sent. Open that link to continue.");
+      return;
+    }
+    // fullscreen must be requested while the click still counts as a user gesture
+    if (requireFullscreen && !(await enterFullscreen())) {
+      setErr("This interview must be taken in fullscreen. Allow fullscreen and press Start again.");
+      return;
+    }
     const constraints: MediaStreamConstraints = {
       video: { width: { ideal: 1280 }, height: { ideal: 720 }, facingMode: "user" },
       audio: true,
@@ -108,6 +304,7 @@ export default function InterviewPage() {
 
     if (!videoRef.current) return;
     videoRef.current.srcObject = stream;
+    setStream(stream);
     try {
       await videoRef.current.play();
     } catch {}
@@ -118,50 +315,78 @@ export default function InterviewPage() {
       return;
     }
 
+    // moves the interview to in_progress and fixes the deadline; refused outside the start window
+    const started = await fetch(`/api/interviews/${interviewId}/start`, {
+      method: "POST",
+      headers: authHeader(token),
+    }).catch(() => null);
+    const body = (await started?.json().catch(() => null)) as
+      | { status?: InterviewStatus; startedAt?: string | null; deadline?: string | null; error?: { message?: string } }
+      | null;
+    if (!started?.ok) {
+      setErr(`Could not start the interview: ${body?.error?.message || "network error"}.`);
+      stream.getTracks().forEach((t) => t.stop());
+      setStream(null);
+      return;
+    }
+    // server times, moved onto a client clock that is off by more than the Date header's 1 s resolution
+    const skew = Date.parse(started.headers.get("date") ?? "") - Date.now();
+    const local = (iso?: string | null) => (iso ? Date.parse(iso) - (Math.abs(skew) > 2000 ? skew : 0) : NaN);
+    setLifecycle((l) => ({ ...l, status: body?.status }));
+    const deadlineAt = local(body?.deadline);
+    setDeadline(Number.isNaN(deadlineAt) ? null : deadlineAt);
+
     const rec = new MediaRecorder(stream, { mimeType });
-    const chunks: BlobPart[] = [];
+    const uploader = createChunkUploader(String(interviewId), mimeType, token);
     rec.ondataavailable = (e: BlobEvent) => {
-      if (e.data.size > 0) chunks.push(e.data);
+      if (e.data.size > 0) uploader.enqueue(e.data);
     };
     rec.onstop = async () => {
       try {
-        const blob = new Blob(chunks, { type: mimeType });
-        const fd = new FormData();
-        fd.append("file", new File([blob], "interview.webm"));
-        const r = await fetch("/api/upload", { method: "POST", body: fd });
-        if (!r.ok) {
-          const txt = await r.text().catch(() => "");
-          throw new Error(`Upload failed (${r.status}) ${txt}`);
-        }
-        const { url } = (await r.json()) as { url: string };
-
-        const p = await fetch(`/api/interviews/${interviewId}`, {
-          method: "PATCH",
-          body: JSON.stringify({ videoUrl: url, endedAt: new Date().toISOString() }),
-        });
-        if (!p.ok) {
-          const t = await p.text().catch(() => "");
-          throw new Error(`Attach failed (${p.status}) ${t}`);
-        }
+        // waits for queued slices, then assembles them and sets videoUrl + endedAt
+        await uploader.finish(new Date().toISOString());
         setUploadOk(true);
       } catch (e) {
-        setErr((e as Error).message || "Upload failed");
+        setErr(`${(e as Error).message || "Upload failed"}. It will resume when this page is reopened.`);
       }
     };
-    rec.start(1000);
+    rec.start(CHUNK_MS);
 
     mediaRecorderRef.current = rec;
-    startTsRef.current = Date.now();
-    setElapsed(0);
+    // event times count from the first start, so a reload continues the same timeline
+    const startedAt = local(body?.startedAt);
+    startTsRef.current = Number.isNaN(startedAt) ? Date.now() : startedAt;
     setRecording(true);
     setStartedOnce(true);
   }
 
-  function stop() {
+  function stop(reason?: string) {
+    if (mediaRecorderRef.current?.state === "inactive") return;
     mediaRecorderRef.current?.stop();
     (videoRef.current?.srcObject as MediaStream | null)?.getTracks().forEach((t) => t.stop());
+    setStream(null);
     setRecording(false);
+    if (reason) setErr(reason);
   }
+  // timers and the heartbeat stop through this ref so they always see the current recorder
+  const stopRef = useRef(stop);
+  useEffect(() => {
+    stopRef.current = stop;
+  });
+
+  // why Start is unavailable, if it is
+  const windowStart = lifecycle?.schedule ? Date.parse(lifecycle.schedule.windowStart) : null;
+  const closedNotice =
+    lifecycle?.status === "completed"
+      ? "This interview has already been submitted."
+      : lifecycle?.status === "expired"
+        ? "The window for this interview has closed. Ask your interviewer for a new one."
+        : lifecycle?.status === "abandoned"
+          ? "This interview ran past its time limit and was closed."
+          : lifecycle?.status === "scheduled" && windowStart !== null && now < windowStart
+            ? `This interview opens at ${new Date(windowStart).toLocaleString()}.`
+            : null;
+  const remaining = recording && deadline !== null ? Math.max(0, Math.round((deadline - now) / 1000)) : null;
 
   /** ---------- styles (same family as the home page) ---------- */
   const page: React.CSSProperties = {
@@ -248,6 +473,20 @@ export default function InterviewPage() {
       <section style={card}>
         <h2 style={{ marginTop: 0, marginBottom: 10 }}>Interview</h2>
 
+        {closedNotice && !startedOnce && (
+          <p style={{ marginTop: 0, marginBottom: 12, color: "#f6ad55" }}>{closedNotice}</p>
+        )}
+
+        {systemCheck === null && !startedOnce && (
+          <p style={{ marginTop: 0, marginBottom: 12, color: "#f6ad55" }}>
+            You have not run the system check yet.{" "}
+            <a href={`/interview/${interviewId}/check`} style={{ color: "#61dafb" }}>
+              Check camera, microphone and lighting first
+            </a>
+            .
+          </p>
+        )}
+
         <div style={{ position: "relative" }}>
           <video
             ref={videoRef}
@@ -270,7 +509,7 @@ export default function InterviewPage() {
             }}
           />
           <div style={chip}>
-            {status} • {faces} face(s)
+            {status} • {faces} face(s){recording ? ` • ${voice ? "voice" : "quiet"}` : ""}
           </div>
         </div>
 
@@ -285,27 +524,27 @@ export default function InterviewPage() {
           }}
         >
           {!recording ? (
-            <button style={btn} onClick={start}>
-              Start
+            <button style={btn} onClick={start} disabled={resuming || (closedNotice !== null && !startedOnce)}>
+              {resuming ? "Recovering…" : "Start"}
             </button>
           ) : (
-            <button style={btn} onClick={stop}>
+            <button style={btn} onClick={() => stop()}>
               Stop
             </button>
           )}
           <span style={{ minWidth: 120, opacity: 0.9 }}>Elapsed: {elapsed}s</span>
+          {remaining !== null && (
+            <span style={{ opacity: 0.9, color: remaining < 300 ? "#f6ad55" : undefined }}>
+              Time left: {Math.floor(remaining / 60)}:{String(remaining % 60).padStart(2, "0")}
+            </span>
+          )}
         </div>
 
-        {/* Post-stop actions only */}
+        {/* Post-stop note only; reports are for reviewers */}
         {!recording && startedOnce && (
-          <div style={{ marginTop: 14, display: "flex", gap: 12, flexWrap: "wrap" }}>
-            <a href={`/report/${interviewId}`} style={{ textDecoration: "none" }}>
-              <button style={btn}>Open Report</button>
-            </a>
-            <a href={`/api/reports/${interviewId}/csv`} style={{ textDecoration: "none" }}>
-              <button style={btn}>Download CSV</button>
-            </a>
-          </div>
+          <p style={{ marginTop: 14, opacity: 0.8 }}>
+            Interview submitted. You can close this tab once the upload has completed.
+          </p>
         )}
 
         {/* success / error notices */}
@@ -333,6 +572,30 @@ export default function InterviewPage() {
         )}
       </section>
 
+      {/* fullscreen required: block the page until the candidate returns */}
+      {requireFullscreen && recording && !fullscreen && (
+        <div
+          style={{
+            position: "fixed",
+            inset: 0,
+            zIndex: 100,
+            display: "grid",
+            placeItems: "center",
+            background: "rgba(0,0,0,0.85)",
+          }}
+        >
+          <div style={{ ...card, maxWidth: 440, textAlign: "center" }}>
+            <h3 style={{ marginTop: 0 }}>Fullscreen required</h3>
+            <p style={{ opacity: 0.85 }}>
+              You left fullscreen. Time outside fullscreen is recorded in the interview report.
+            </p>
+            <button style={btn} onClick={() => void enterFullscreen()}>
+              Return to fullscreen
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* helper strip — lowered & tighter */}
       <div style={helpWrap}>
         <span style={helpText}>
@@ -0,0 +1,68 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { candidateLink } from "@/lib/candidateSession";
+
+export default function InvitePage() {
+  const { code } = useParams<{ code: string }>();
+  const router = useRouter();
+  const [err, setErr] = useState<string | null>(null);
+  // redeem once, even when React runs effects twice in development
+  const redeemed = useRef(false);
+
+  useEffect(() => {
+    if (redeemed.current) return;
+    redeemed.current = true;
+    fetch(`/api/invites/${encodeURIComponent(String(code))}`, { method: "POST" })
+      .then(async (r) => {
+        const j = (await r.json().catch(() => null)) as {
+          interviewId?: string;
+          candidateToken?: string;
+          error?: { message?: string };
+        } | null;
+        if (!r.ok || !j?.interviewId || !j.candidateToken) {
+          throw new Error(j?.error?.message || `HTTP ${r.status}`);
+        }
+        router.replace(candidateLink(j.interviewId, j.candidateToken));
+      })
+      .catch((e) => setErr((e as Error).message || "Could not open the invite"));
+  }, [code, router]);
+
+  return (
+    <main
+      style={{
+        minHeight: "100vh",
+        background: "radial-gradient(1200px 600px at 70% -10%, rgba(129,61,255,0.18), transparent), #000",
+        display: "grid",
+        placeItems: "center",
+        padding: 24,
+        color: "#fff",
+      }}
+    >
+      <section
+        style={{
+          width: "100%",
+          maxWidth: 480,
+          borderRadius: 16,
+          border: "1px solid #262626",
+          background: "linear-gradient(180deg, rgba(255,255,255,0.04), rgba(255,255,255,0.02))",
+          padding: 24,
+        }}
+      >
+        <h2 style={{ marginTop: 0 }}>Interview invite</h2>
+        {!err ? (
+          <p style={{ opacity: 0.85 }}>Opening your interview…</p>
+        ) : (
+          <>
+            <p style={{ color: "#ff6b6b" }}>This invite cannot be used: {err}.</p>
+            <p style={{ opacity: 0.8, fontSize: 14 }}>
+              Invite links work once. If you already opened it on this device, go back to the interview tab; otherwise
+              ask your interviewer for a new link.
+            </p>
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+/** Only same-site paths, so ?next= cannot bounce to another origin. */
+function nextPath(): string {
+  const next = new URLSearchParams(window.location.search).get("next") ?? "/dashboard";
+  return next.startsWith("/") && !next.startsWith("//") ? next : "/dashboard";
+}
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setErr(null);
+    setLoading(true);
+    try {
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+      });
+      if (!res.ok) {
+        const j = (await res.json().catch(() => null)) as { error?: { message?: string } } | null;
+        throw new Error(j?.error?.message || `HTTP ${res.status}`);
+      }
+      router.replace(nextPath());
+    } catch (e) {
+      setErr((e as Error).message || "Sign in failed");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const outer: React.CSSProperties = {
+    minHeight: "100vh",
+    background: "radial-gradient(1200px 600px at 70% -10%, rgba(129,61,255,0.18), transparent), #000",
+    display: "grid",
+    placeItems: "center",
+    padding: "24px",
+    color: "#fff",
+  };
+
+  const card: React.CSSProperties = {
+    width: "100%",
+    maxWidth: 420,
+    borderRadius: 16,
+    border: "1px solid #262626",
+    background: "linear-gradient(180deg, rgba(255,255,255,0.04), rgba(255,255,255,0.02))",
+    boxShadow: "0 10px 40px rgba(0,0,0,0.4)",
+    padding: "28px",
+  };
+
+  const label: React.CSSProperties = {
+    fontSize: 14,
+    color: "#cfcfcf",
+    display: "inline-block",
+    margin: "12px 0 8px",
+  };
+
+  const input: React.CSSProperties = {
+    width: "100%",
+    background: "#0f0f10",
+    border: "1px solid #2c2c2c",
+    color: "#fff",
+    padding: "12px 14px",
+    borderRadius: 10,
+    outline: "none",
+    fontSize: 16,
+  };
+
+  const btn: React.CSSProperties = {
+    appearance: "none",
+    border: "1px solid #5a4cff",
+    background: "linear-gradient(180deg, rgba(130,115,255,0.25), rgba(130,115,255,0.15))",
+    color: "#fff",
+    padding: "12px 18px",
+    borderRadius: 12,
+    fontWeight: 600,
+    cursor: "pointer",
+  };
+
+  return (
+    <main style={outer}>
+      <section style={card}>
+        <h1 style={{ margin: "0 0 8px", fontSize: 22, fontWeight: 700 }}>Staff sign in</h1>
+        <p style={{ margin: 0, fontSize: 13, color: "#a7a7a7" }}>
+          Interviewers, reviewers and admins. Candidates join through their interview link.
+        </p>
+
+        <form onSubmit={onSubmit}>
+          <label htmlFor="email" style={label}>
+            Email
+          </label>
+          <input
+            id="email"
+            type="email"
+            autoComplete="username"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            style={input}
+            autoFocus
+          />
+          <label htmlFor="password" style={label}>
+            Password
+          </label>
+          <input
+            id="password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            style={input}
+          />
+
+          <div style={{ display: "flex", justifyContent: "flex-end", marginTop: 16 }}>
+            <button type="submit" style={btn} disabled={loading}>
+              {loading ? "Signing in…" : "Sign in"}
+            </button>
+          </div>
+
+          {err && <p style={{ color: "#ff6b6b", marginTop: 10 }}>{err}</p>}
+        </form>
+      </section>
+    </main>
+  );
+}
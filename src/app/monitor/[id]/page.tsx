@@ -0,0 +1,283 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { FALLBACK_COLOR, TYPE_COLORS } from "@/lib/eventColors";
+import { STALE_AFTER_MS } from "@/lib/live";
+import type { LiveState } from "@/lib/types";
+
+/** Matches the messages of GET /api/interviews/[id]/stream */
+type StreamEvent = {
+  seq?: number;
+  t: number;
+  type: string;
+  confidence?: number;
+  meta?: Record<string, unknown>;
+  receivedAt?: string;
+  createdAt: string;
+};
+type Score = { score: number; breakdown: { type: string; times: number; deduct: number; seconds?: number }[] };
+type Snapshot = {
+  interview: { _id: string; candidateName: string | null; startedAt: string | null; endedAt: string | null };
+  policy: { name: string; version: number; mode: "count" | "time" };
+  live: LiveState | null;
+  events: StreamEvent[];
+  score: Score;
+};
+
+const MAX_LIST = 100;
+
+function fmtT(ms: number) {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+export default function MonitorPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+
+  const [snap, setSnap] = useState<Snapshot | null>(null);
+  const [events, setEvents] = useState<StreamEvent[]>([]);
+  const [score, setScore] = useState<Score | null>(null);
+  const [live, setLive] = useState<LiveState | null>(null);
+  const [endedAt, setEndedAt] = useState<string | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const es = new EventSource(`/api/interviews/${id}/stream`);
+
+    es.onopen = () => {
+      setConnected(true);
+      setErr(null);
+    };
+    es.onerror = async () => {
+      setConnected(false);
+      // EventSource hides the status code; ask once so a lapsed session goes to sign-in
+      const r = await fetch("/api/auth/me", { cache: "no-store" }).catch(() => null);
+      if (r?.status === 401) {
+        es.close();
+        router.replace(`/login?next=/monitor/${id}`);
+      } else if (es.readyState === EventSource.CLOSED) {
+        setErr("Stream closed. Reload to reconnect.");
+      }
+    };
+    es.addEventListener("snapshot", (m) => {
+      const s = JSON.parse((m as MessageEvent).data) as Snapshot;
+      setSnap(s);
+      setEvents(s.events);
+      setScore(s.score);
+      setLive(s.live);
+      setEndedAt(s.interview.endedAt);
+    });
+    es.addEventListener("event", (m) => {
+      const e = JSON.parse((m as MessageEvent).data) as StreamEvent;
+      setEvents((prev) => (prev.some((p) => p.seq !== undefined && p.seq === e.seq) ? prev : [...prev, e]));
+    });
+    es.addEventListener("score", (m) => setScore(JSON.parse((m as MessageEvent).data) as Score));
+    es.addEventListener("status", (m) => setLive(JSON.parse((m as MessageEvent).data) as LiveState));
+    es.addEventListener("ended", (m) => setEndedAt((JSON.parse((m as MessageEvent).data) as { endedAt: string }).endedAt));
+
+    return () => es.close();
+  }, [id, router]);
+
+  // re-render once a second so heartbeat age and the timeline keep moving
+  useEffect(() => {
+    const iv = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(iv);
+  }, []);
+
+  const startedMs = snap?.interview.startedAt ? new Date(snap.interview.startedAt).getTime() : now;
+  const spanMs = Math.max(60_000, (endedAt ? new Date(endedAt).getTime() : now) - startedMs);
+  const heartbeatAge = live ? now - new Date(live.at).getTime() : null;
+  const stale = !endedAt && (heartbeatAge === null || heartbeatAge > STALE_AFTER_MS);
+  const recent = events.slice(-MAX_LIST).reverse();
+
+  /** ---------- styles (dark / glass, same as the report) ---------- */
+  const outer: React.CSSProperties = {
+    minHeight: "100vh",
+    background: "radial-gradient(1200px 600px at 70% -10%, rgba(129,61,255,0.18), transparent), #000",
+    display: "grid",
+    placeItems: "center",
+    padding: 24,
+    color: "#fff",
+  };
+
+  const card: React.CSSProperties = {
+    width: "100%",
+    maxWidth: 1100,
+    borderRadius: 16,
+    border: "1px solid #262626",
+    background: "linear-gradient(180deg, rgba(255,255,255,0.04), rgba(255,255,255,0.02))",
+    boxShadow: "0 10px 40px rgba(0,0,0,0.4)",
+    padding: 24,
+  };
+
+  const chip: React.CSSProperties = { padding: "6px 12px", borderRadius: 999, fontSize: 12 };
+  const good = { background: "#143d2a", color: "#21d07a" };
+  const warn = { background: "#3d2a14", color: "#f6ad55" };
+  const bad = { background: "#3d142a", color: "#ff6b6b" };
+
+  const th: React.CSSProperties = {
+    textAlign: "left",
+    padding: "8px 6px",
+    fontWeight: 700,
+    borderBottom: "1px solid #2f2f33",
+    color: "#d9d9d9",
+  };
+  const td: React.CSSProperties = { padding: "6px", borderBottom: "1px dashed #2a2a2e", color: "#ebebeb" };
+
+  return (
+    <main style={outer}>
+      <section style={card}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12, marginBottom: 16 }}>
+          <div>
+            <h1 style={{ margin: 0, fontSize: 22, fontWeight: 700 }}>Live monitor</h1>
+            <div style={{ marginTop: 4, opacity: 0.85, fontSize: 14 }}>
+              {snap?.interview.candidateName ?? "—"} · <code>{String(id)}</code>
+            </div>
+          </div>
+          <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+            <span style={{ ...chip, ...(connected ? good : bad) }}>{connected ? "● live" : "○ disconnected"}</span>
+            <Link href="/dashboard" style={{ fontSize: 13, color: "#bdb6ff" }}>
+              Dashboard
+            </Link>
+            {endedAt && (
+              <Link href={`/report/${id}`} style={{ fontSize: 13, color: "#bdb6ff" }}>
+                Report →
+              </Link>
+            )}
+          </div>
+        </div>
+
+        {err && <p style={{ color: "#ff6b6b" }}>{err}</p>}
+        {!snap && !err && <p style={{ opacity: 0.85 }}>Connecting…</p>}
+
+        {snap && (
+          <>
+            {/* Current state */}
+            <div style={{ display: "flex", alignItems: "center", gap: 12, flexWrap: "wrap", marginBottom: 16 }}>
+              <div style={{ fontSize: 14, opacity: 0.85 }}>Running score</div>
+              <div style={{ fontSize: 32, fontWeight: 800 }}>{score?.score ?? 100}</div>
+              <div style={{ fontSize: 12, opacity: 0.75 }}>
+                policy {snap.policy.name} v{snap.policy.version}
+              </div>
+              {endedAt ? (
+                <span style={{ ...chip, background: "#222227", color: "#d9d9d9" }}>Ended {endedAt}</span>
+              ) : (
+                <>
+                  <span
+                    style={{
+                      ...chip,
+                      ...(live?.status === "focused" ? good : live?.status === "away" ? warn : bad),
+                    }}
+                  >
+                    {live?.status ?? "no signal"}
+                  </span>
+                  <span style={{ ...chip, ...((live?.faces ?? 0) === 1 ? good : bad) }}>{live?.faces ?? 0} face(s)</span>
+                  <span style={{ ...chip, ...(live?.recording ? good : warn) }}>
+                    {live?.recording ? "recording" : "not recording"}
+                  </span>
+                  <span style={{ ...chip, ...(stale ? bad : good) }}>
+                    heartbeat {heartbeatAge === null ? "never" : `${Math.round(heartbeatAge / 1000)}s ago`}
+                  </span>
+                </>
+              )}
+            </div>
+
+            {/* Live timeline */}
+            <div style={{ fontWeight: 700, margin: "8px 0" }}>Timeline</div>
+            <div
+              style={{
+                position: "relative",
+                height: 28,
+                borderRadius: 8,
+                border: "1px solid #2f2f33",
+                background: "#101012",
+                overflow: "hidden",
+              }}
+            >
+              {events.map((e, i) => (
+                <div
+                  key={e.seq ?? `i${i}`}
+                  title={`${fmtT(e.t)} ${e.type}`}
+                  style={{
+                    position: "absolute",
+                    top: 4,
+                    bottom: 4,
+                    width: 3,
+                    borderRadius: 2,
+                    left: `${Math.min(100, (e.t / spanMs) * 100)}%`,
+                    background: TYPE_COLORS[e.type] ?? FALLBACK_COLOR,
+                  }}
+                />
+              ))}
+            </div>
+            <div style={{ display: "flex", justifyContent: "space-between", fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+              <span>0:00</span>
+              <span>{fmtT(spanMs)}</span>
+            </div>
+
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 2fr", gap: 20, marginTop: 16 }}>
+              {/* Deductions so far */}
+              <div>
+                <div style={{ fontWeight: 700, marginBottom: 8 }}>Deductions</div>
+                {score?.breakdown.length ? (
+                  <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                    <thead>
+                      <tr>
+                        <th style={th}>Type</th>
+                        <th style={th}>Times</th>
+                        <th style={th}>Deduct</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {score.breakdown.map((b) => (
+                        <tr key={b.type}>
+                          <td style={td}>{b.type}</td>
+                          <td style={td}>{b.times}</td>
+                          <td style={td}>-{b.deduct}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <div style={{ opacity: 0.8 }}>None yet.</div>
+                )}
+              </div>
+
+              {/* Event feed, newest first */}
+              <div>
+                <div style={{ fontWeight: 700, marginBottom: 8 }}>Events ({events.length})</div>
+                <div style={{ maxHeight: 360, overflowY: "auto" }}>
+                  <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                    <thead>
+                      <tr>
+                        <th style={th}>At</th>
+                        <th style={th}>Type</th>
+                        <th style={th}>Confidence</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {recent.map((e, i) => (
+                        <tr key={e.seq ?? `i${i}`}>
+                          <td style={td}>{fmtT(e.t)}</td>
+                          <td style={td}>
+                            <span style={{ color: TYPE_COLORS[e.type] ?? FALLBACK_COLOR }}>■</span> {e.type}
+                          </td>
+                          <td style={td}>{e.confidence != null ? e.confidence.toFixed(2) : "—"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
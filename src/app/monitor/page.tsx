@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { FALLBACK_COLOR, TYPE_COLORS } from "@/lib/eventColors";
+import type { ActiveSession } from "@/lib/activeSessions";
+
+const REFRESH_MS = 5000;
+
+function fmtAge(ms: number | null) {
+  if (ms === null) return "never";
+  const s = Math.max(0, Math.round(ms / 1000));
+  return s < 60 ? `${s}s ago` : `${Math.floor(s / 60)}m ago`;
+}
+
+function fmtT(ms: number) {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+export default function MonitorWallPage() {
+  const router = useRouter();
+  const [items, setItems] = useState<ActiveSession[] | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    const load = async () => {
+      try {
+        const r = await fetch("/api/interviews/active", { cache: "no-store" });
+        if (r.status === 401) {
+          router.replace("/login?next=/monitor");
+          return;
+        }
+        if (!r.ok) throw new Error(`HTTP ${r.status}`);
+        const j = (await r.json()) as { items: ActiveSession[]; generatedAt: string };
+        if (!alive) return;
+        setItems(j.items);
+        setUpdatedAt(j.generatedAt);
+        setErr(null);
+      } catch (e) {
+        if (alive) setErr((e as Error).message);
+      }
+    };
+    void load();
+    const iv = setInterval(() => void load(), REFRESH_MS);
+    return () => {
+      alive = false;
+      clearInterval(iv);
+    };
+  }, [router]);
+
+  /** ---------- styles (dark / glass) ---------- */
+  const outer: React.CSSProperties = {
+    minHeight: "100vh",
+    background: "radial-gradient(1200px 600px at 70% -10%, rgba(129,61,255,0.18), transparent), #000",
+    padding: 24,
+    color: "#fff",
+  };
+
+  const tile = (s: ActiveSession): React.CSSProperties => ({
+    display: "block",
+    textDecoration: "none",
+    color: "#fff",
+    borderRadius: 14,
+    border: `1px solid ${s.stale ? "#ff6b6b" : "#262626"}`,
+    background: s.stale
+      ? "linear-gradient(180deg, rgba(255,80,80,0.14), rgba(255,80,80,0.05))"
+      : "linear-gradient(180deg, rgba(255,255,255,0.04), rgba(255,255,255,0.02))",
+    padding: 16,
+  });
+
+  const chip: React.CSSProperties = { padding: "3px 9px", borderRadius: 999, fontSize: 11 };
+  const good = { background: "#143d2a", color: "#21d07a" };
+  const warn = { background: "#3d2a14", color: "#f6ad55" };
+  const bad = { background: "#3d142a", color: "#ff6b6b" };
+
+  return (
+    <main style={outer}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", marginBottom: 16 }}>
+        <div>
+          <h1 style={{ margin: 0, fontSize: 22, fontWeight: 700 }}>Proctor wall</h1>
+          <div style={{ fontSize: 13, opacity: 0.75, marginTop: 4 }}>
+            {items ? `${items.length} active session(s)` : "Loading…"}
+            {updatedAt && ` · updated ${new Date(updatedAt).toLocaleTimeString()}`} · riskiest first
+          </div>
+        </div>
+        <Link href="/dashboard" style={{ fontSize: 13, color: "#bdb6ff" }}>
+          Dashboard
+        </Link>
+      </div>
+
+      {err && <p style={{ color: "#ff6b6b" }}>Error: {err}</p>}
+      {items?.length === 0 && <p style={{ opacity: 0.8 }}>No interviews in progress.</p>}
+
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(260px, 1fr))", gap: 14 }}>
+        {items?.map((s) => (
+          <Link key={s._id} href={`/monitor/${s._id}`} style={tile(s)}>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: 8 }}>
+              <div style={{ fontWeight: 700, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                {s.candidateName || "—"}
+              </div>
+              {s.score === null ? (
+                <span style={{ ...chip, ...bad }}>policy missing</span>
+              ) : (
+                <div style={{ fontSize: 26, fontWeight: 800 }}>{s.score}</div>
+              )}
+            </div>
+            <div style={{ fontSize: 11, opacity: 0.6, marginBottom: 10 }}>risk {s.risk}</div>
+
+            <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginBottom: 10 }}>
+              <span style={{ ...chip, ...(s.stale ? bad : good) }}>heartbeat {fmtAge(s.heartbeatAgeMs)}</span>
+              {s.live && !s.stale && (
+                <>
+                  <span style={{ ...chip, ...(s.live.status === "focused" ? good : warn) }}>{s.live.status}</span>
+                  <span style={{ ...chip, ...(s.live.faces === 1 ? good : bad) }}>{s.live.faces} face(s)</span>
+                  {!s.live.recording && <span style={{ ...chip, ...warn }}>not recording</span>}
+                </>
+              )}
+            </div>
+
+            <div style={{ fontSize: 12, opacity: 0.85, display: "grid", gap: 4 }}>
+              <div>
+                Last event:{" "}
+                {s.lastEvent ? (
+                  <>
+                    <span style={{ color: TYPE_COLORS[s.lastEvent.type] ?? FALLBACK_COLOR }}>{s.lastEvent.type}</span> at{" "}
+                    {fmtT(s.lastEvent.t)}
+                  </>
+                ) : (
+                  "none"
+                )}
+              </div>
+              <div>
+                {s.events} event(s) · {s.eventsPerMin}/min recently
+              </div>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </main>
+  );
+}
@@ -3,17 +3,34 @@
 import { useRouter } from "next/navigation";
 import { useState } from "react";
 import Image from "next/image";
+import Link from "next/link";
+
+/** datetime-local value (local time, no zone) -> ISO; undefined when empty */
+const localToIso = (v: string) => (v ? new Date(v).toISOString() : undefined);
 
 
 export default function HomePage() {
   const router = useRouter();
   const [candidateName, setCandidateName] = useState("");
+  const [candidateEmail, setCandidateEmail] = useState("");
+  const [windowStart, setWindowStart] = useState("");
+  const [windowEnd, setWindowEnd] = useState("");
+  const [maxDurationMin, setMaxDurationMin] = useState(120);
+  const [requireFullscreen, setRequireFullscreen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [err, setErr] = useState<string | null>(null);
+  const [created, setCreated] = useState<{
+    id: string;
+    inviteUrl: string;
+    schedule: { windowStart: string; windowEnd: string; maxDurationMs: number };
+  } | null>(null);
+  const [copied, setCopied] = useState(false);
 
   async function onCreate(e: React.FormEvent) {
     e.preventDefault();
     setErr(null);
+    setCreated(null);
+    setCopied(false);
     setLoading(true);
     try {
       const res = await fetch("/api/interviews", {
@@ -21,14 +38,26 @@ export default function HomePage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           candidateName: candidateName.trim() ? candidateName.trim() : null,
+          ...(candidateEmail.trim() ? { candidateEmail: candidateEmail.trim() } : {}),
+          windowStart: localToIso(windowStart),
+          windowEnd: localToIso(windowEnd),
+          maxDurationMin,
+          requireFullscreen,
         }),
       });
+      if (res.status === 401) {
+        router.push("/login?next=/");
+        return;
+      }
       if (!res.ok) {
-        const txt = await res.text().catch(() => "");
-        throw new Error(txt || `HTTP ${res.status}`);
+        const j = (await res.json().catch(() => null)) as {
+          error?: { message?: string; fields?: { path: string; message: string }[] };
+        } | null;
+        const field = j?.error?.fields?.[0];
+        throw new Error(field ? `${field.path} ${field.message}` : j?.error?.message || `HTTP ${res.status}`);
       }
-      const { id } = (await res.json()) as { id: string };
-      router.push(`/interview/${id}`);
+      const j = (await res.json()) as NonNullable<typeof created>;
+      setCreated({ id: j.id, inviteUrl: `${window.location.origin}${j.inviteUrl}`, schedule: j.schedule });
     } catch (e) {
       setErr((e as Error).message || "Failed to create interview");
     } finally {
@@ -133,8 +162,11 @@ export default function HomePage() {
 
         <div style={titleRow}>
           <h1 style={{ margin: 0, fontSize: 22, fontWeight: 700 }}>
-            Start an Interview
+            Schedule an Interview
           </h1>
+          <Link href="/dashboard" style={{ fontSize: 13, color: "#bdb6ff" }}>
+            Past interviews →
+          </Link>
         </div>
 
         <form onSubmit={onCreate}>
@@ -151,6 +183,68 @@ export default function HomePage() {
             autoFocus
           />
 
+          <label htmlFor="email" style={{ ...label, marginTop: 14 }}>
+            Candidate email
+          </label>
+          <input
+            id="email"
+            type="email"
+            placeholder="jane@example.com"
+            value={candidateEmail}
+            onChange={(e) => setCandidateEmail(e.target.value)}
+            style={input}
+          />
+
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12, marginTop: 14 }}>
+            <div>
+              <label htmlFor="windowStart" style={label}>
+                Can start from
+              </label>
+              <input
+                id="windowStart"
+                type="datetime-local"
+                value={windowStart}
+                onChange={(e) => setWindowStart(e.target.value)}
+                style={input}
+              />
+            </div>
+            <div>
+              <label htmlFor="windowEnd" style={label}>
+                Until
+              </label>
+              <input
+                id="windowEnd"
+                type="datetime-local"
+                value={windowEnd}
+                onChange={(e) => setWindowEnd(e.target.value)}
+                style={input}
+              />
+            </div>
+          </div>
+          <p style={{ ...hint, marginTop: 6 }}>Leave empty to allow a start any time in the next 24 hours.</p>
+
+          <label htmlFor="maxDuration" style={{ ...label, marginTop: 8 }}>
+            Maximum duration (minutes)
+          </label>
+          <input
+            id="maxDuration"
+            type="number"
+            min={1}
+            max={480}
+            value={maxDurationMin}
+            onChange={(e) => setMaxDurationMin(Number(e.target.value) || 1)}
+            style={input}
+          />
+
+          <label style={{ ...label, display: "flex", alignItems: "center", gap: 8, marginTop: 14 }}>
+            <input
+              type="checkbox"
+              checked={requireFullscreen}
+              onChange={(e) => setRequireFullscreen(e.target.checked)}
+            />
+            Require fullscreen during the interview
+          </label>
+
           <div style={{ display: "flex", justifyContent: "flex-end", marginTop: 16 }}>
             <button
               type="submit"
@@ -177,6 +271,33 @@ export default function HomePage() {
             </p>
           )}
         </form>
+
+        {created && (
+          <div style={{ marginTop: 18, paddingTop: 14, borderTop: "1px solid #262626" }}>
+            <div style={{ ...label, marginBottom: 6 }}>One-time invite link for the candidate</div>
+            <div style={{ display: "flex", gap: 8 }}>
+              <input readOnly value={created.inviteUrl} onFocus={(e) => e.currentTarget.select()} style={{ ...input, fontSize: 13 }} />
+              <button
+                type="button"
+                style={{ ...btn, padding: "8px 12px" }}
+                onClick={() => {
+                  void navigator.clipboard.writeText(created.inviteUrl).then(() => setCopied(true));
+                }}
+              >
+                {copied ? "Copied" : "Copy"}
+              </button>
+            </div>
+            <p style={hint}>
+              Opens {new Date(created.schedule.windowStart).toLocaleString()}, closes{" "}
+              {new Date(created.schedule.windowEnd).toLocaleString()}, recording stops after{" "}
+              {Math.round(created.schedule.maxDurationMs / 60000)} min. The link works once: opening it yourself uses it
+              up (a new one can be issued from the dashboard).{" "}
+              <Link href={`/report/${created.id}`} style={{ color: "#bdb6ff" }}>
+                Report
+              </Link>
+            </p>
+          </div>
+        )}
       </section>
     </main>
   );
@@ -1,38 +1,127 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { useParams } from "next/navigation";
+import { useEffect, useRef, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { FALLBACK_COLOR, TYPE_COLORS } from "@/lib/eventColors";
+
+/** Matches /api/reports/[id] and /api/interviews/[id]/events */
+type ReviewStatus = "confirmed" | "dismissed" | "disputed";
 
-/** Matches /api/reports/[id] */
 type EventRow = {
+  eventId?: string;
+  seq?: number;
   t: number;
   type: string;
   confidence?: number;
   meta?: Record<string, unknown>;
+  review?: { status: ReviewStatus; note: string | null; reviewer: { email: string }; reviewedAt: string } | null;
+};
+
+type AuditRow = {
+  eventId: string;
+  action: ReviewStatus | "cleared";
+  previous: ReviewStatus | null;
+  note?: string;
+  reviewer: { email: string };
+  at: string;
 };
 
 type BreakdownRow = {
   type: string;
   times: number;
   deduct: number;
+  seconds?: number;
+};
+
+type IntervalRow = {
+  type: string;
+  start: number;
+  end: number;
+  durationMs: number;
+  events: number;
 };
 
+type EvidenceRow = {
+  eventId: string;
+  seq: number | null;
+  t: number;
+  type: string;
+  url: string | null;
+  status: "ok" | "missing" | "mismatch";
+};
+
+type EventPage = { items: EventRow[]; nextCursor: string | null; total: number };
+
+type MarkerRow = { seq: number | null; t: number; start: number; type: string; review: ReviewStatus | null };
+
 type Summary = {
   interview: {
     _id: string;
     candidateName?: string | null;
+    candidateEmail?: string | null;
+    status?: string;
     startedAt?: string | null;
     endedAt?: string | null;
+    videoUrl?: string | null;
     durationMs: number;
     integrityScore: number;
   };
   counts: Record<string, number>;
   integrity: { score: number; breakdown: BreakdownRow[] };
+  rawIntegrity?: { score: number; breakdown: BreakdownRow[] };
+  review?: Record<ReviewStatus, number> & { audit: AuditRow[] };
+  policy?: { name: string; version: number; mode?: "count" | "time" };
+  intervals?: IntervalRow[];
+  chain?: {
+    status: "verified" | "broken" | "empty";
+    events: number;
+    unchained: number;
+    issueCount: number;
+    issues: { seq: number; kind: string; message: string }[];
+  };
   phoneDetected: boolean;
   multipleFaces: boolean;
-  eventSample?: EventRow[];
+  otherVoices?: boolean;
+  leftPage?: boolean;
+  clipboardUsed?: boolean;
+  identityMismatch?: boolean;
+  identity?: {
+    reference: boolean;
+    capturedAt: string | null;
+    selfieUrl: string | null;
+    idDocumentUrl: string | null;
+    similarity: { mean: number; min: number | null; last: number | null; checks: number } | null;
+    mismatches: number;
+  };
+  evidence?: EvidenceRow[];
+  markers?: MarkerRow[];
+  systemCheck?: {
+    passed: boolean;
+    checks: Record<string, { ok: boolean; detail?: string }>;
+    baseline?: { yaw: number; pitch: number; faceSize: number };
+    at: string;
+  } | null;
 };
 
+/** Player controls jump to the next marker only if it is at least this far ahead. */
+const JUMP_SLACK_MS = 500;
+/** Rows per page of the full event list. */
+const PAGE_SIZE = 50;
+
+const REVIEW_COLORS: Record<ReviewStatus, { background: string; color: string }> = {
+  confirmed: { background: "#3d142a", color: "#ff6b6b" },
+  dismissed: { background: "#222227", color: "#a0a0a8" },
+  disputed: { background: "#3d2a14", color: "#f6ad55" },
+};
+
+function fmtClock(ms: number) {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  const hh = Math.floor(s / 3600);
+  const mm = String(Math.floor((s % 3600) / 60)).padStart(hh ? 2 : 1, "0");
+  const ss = String(s % 60).padStart(2, "0");
+  return hh ? `${hh}:${mm}:${ss}` : `${mm}:${ss}`;
+}
+
 function msToHMS(ms: number) {
   const s = Math.max(0, Math.round(ms / 1000));
   const hh = Math.floor(s / 3600);
@@ -45,16 +134,34 @@ function msToHMS(ms: number) {
 
 export default function ReportPage() {
   const { id } = useParams<{ id: string }>();
+  const router = useRouter();
   const [data, setData] = useState<Summary | null>(null);
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [playMs, setPlayMs] = useState(0);
+  const [videoMs, setVideoMs] = useState(0);
+  const [hidden, setHidden] = useState<Set<string>>(() => new Set());
+  // full event list, paged by cursor; pageCursors[i] opens page i + 1
+  const [pageCursors, setPageCursors] = useState<string[]>([]);
+  const [eventPage, setEventPage] = useState<EventPage | null>(null);
+  const [pageErr, setPageErr] = useState<string | null>(null);
+  // bumped after a review so the scores and the list reload without a spinner
+  const [revision, setRevision] = useState(0);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [reviewErr, setReviewErr] = useState<string | null>(null);
 
   useEffect(() => {
     let alive = true;
     (async () => {
       try {
-        setLoading(true);
+        if (revision === 0) setLoading(true);
         const r = await fetch(`/api/reports/${id}`, { cache: "no-store" });
+        if (r.status === 401) {
+          router.replace(`/login?next=/report/${id}`);
+          return;
+        }
         if (!r.ok) {
           const t = await r.text().catch(() => "");
           throw new Error(`HTTP ${r.status}${t ? ` – ${t}` : ""}`);
@@ -70,10 +177,108 @@ export default function ReportPage() {
     return () => {
       alive = false;
     };
-  }, [id]);
+  }, [id, router, revision]);
 
   const csvUrl = `/api/reports/${id}/csv`;
 
+  /** Event offsets are measured from Start, which is where the recording begins too. */
+  function seekTo(ms: number, opts: { reveal?: boolean; play?: boolean } = {}) {
+    const v = videoRef.current;
+    setPlayMs(Math.max(0, ms));
+    if (!v) return;
+    v.currentTime = Math.max(0, ms / 1000);
+    if (opts.reveal) v.scrollIntoView({ behavior: "smooth", block: "center" });
+    if (opts.play) void v.play().catch(() => undefined);
+  }
+
+  // player timeline: lanes per event type, filtered by the type toggles
+  const markers = data?.markers ?? [];
+  const laneTypes = Array.from(new Set(markers.map((m) => m.type)));
+  const visible = markers.filter((m) => !hidden.has(m.type)).sort((a, b) => a.start - b.start);
+  const totalMs = Math.max(data?.interview.durationMs ?? 0, videoMs, markers.at(-1)?.t ?? 0, 1);
+  const pct = (ms: number) => `${Math.min(100, (Math.max(0, ms) / totalMs) * 100)}%`;
+
+  function scrub(e: React.PointerEvent<HTMLDivElement>) {
+    const r = e.currentTarget.getBoundingClientRect();
+    seekTo(((e.clientX - r.left) / r.width) * totalMs);
+  }
+
+  function jump(dir: 1 | -1) {
+    const m =
+      dir === 1
+        ? visible.find((x) => x.start > playMs + JUMP_SLACK_MS)
+        : visible.filter((x) => x.start < playMs - JUMP_SLACK_MS * 3).at(-1);
+    if (m) seekTo(m.start, { play: true });
+  }
+
+  /** The type filter drives the player lanes and the event list; a new filter starts at page 1. */
+  function filterTypes(next: Set<string>) {
+    setHidden(next);
+    setPageCursors([]);
+  }
+
+  function toggleType(type: string) {
+    const next = new Set(hidden);
+    if (next.has(type)) next.delete(type);
+    else next.add(type);
+    filterTypes(next);
+  }
+
+  const shownTypes = hidden.size ? laneTypes.filter((t) => !hidden.has(t)).join(",") : "";
+  const noneShown = laneTypes.length > 0 && shownTypes === "" && hidden.size > 0;
+  const pageCursor = pageCursors.at(-1);
+
+  useEffect(() => {
+    if (noneShown) return;
+    let alive = true;
+    const qs = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    if (shownTypes) qs.set("types", shownTypes);
+    if (pageCursor) qs.set("cursor", pageCursor);
+    fetch(`/api/interviews/${id}/events?${qs}`, { cache: "no-store" })
+      .then(async (r) => {
+        if (!r.ok) throw new Error(`HTTP ${r.status}`);
+        const page = (await r.json()) as EventPage;
+        if (alive) {
+          setEventPage(page);
+          setPageErr(null);
+        }
+      })
+      .catch((e) => {
+        if (alive) setPageErr((e as Error).message);
+      });
+    return () => {
+      alive = false;
+    };
+  }, [id, shownTypes, pageCursor, noneShown, revision]);
+
+  function openReview(e: EventRow) {
+    setEditing(editing === e.eventId ? null : (e.eventId ?? null));
+    setNote(e.review?.note ?? "");
+    setReviewErr(null);
+  }
+
+  /** PUT a verdict, or DELETE it when status is null. */
+  async function submitReview(eventId: string, status: ReviewStatus | null) {
+    const url = `/api/interviews/${id}/events/${encodeURIComponent(eventId)}/review`;
+    const body = { status, ...(note.trim() && { note: note.trim() }) };
+    const r = await fetch(
+      url,
+      status
+        ? { method: "PUT", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }
+        : { method: "DELETE" }
+    ).catch(() => null);
+    if (!r?.ok) {
+      setReviewErr(r ? `Review failed (HTTP ${r.status})` : "Review failed: network error");
+      return;
+    }
+    setEditing(null);
+    setNote("");
+    setRevision((n) => n + 1);
+  }
+
+  // list rows seek to where the violation began, like the timeline markers
+  const startBySeq = new Map(markers.filter((m) => m.seq !== null).map((m) => [m.seq, m.start]));
+
   /** ---------- styles (dark / glass) ---------- */
   const outer: React.CSSProperties = {
     minHeight: "100vh",
@@ -160,6 +365,9 @@ export default function ReportPage() {
             <a href={csvUrl} style={{ textDecoration: "none" }}>
               <button style={btn}>Download CSV</button>
             </a>
+            <a href={`/api/reports/${id}/pdf`} style={{ textDecoration: "none" }}>
+              <button style={btn}>Download PDF</button>
+            </a>
             <a href={`/interview/${id}`} style={{ textDecoration: "none" }}>
               <button style={btn}>Back to Interview</button>
             </a>
@@ -174,7 +382,13 @@ export default function ReportPage() {
           <>
             {/* Meta */}
             <div style={{ display: "grid", gap: 6, marginBottom: 12, opacity: 0.95 }}>
-              {data.interview?.candidateName && <div>Candidate: {data.interview.candidateName}</div>}
+              {data.interview?.candidateName && (
+                <div>
+                  Candidate: {data.interview.candidateName}
+                  {data.interview.candidateEmail && ` <${data.interview.candidateEmail}>`}
+                </div>
+              )}
+              {data.interview?.status && <div>Status: {data.interview.status.replace("_", " ")}</div>}
               {data.interview?.startedAt && <div>Started: {data.interview.startedAt}</div>}
               {data.interview?.endedAt && <div>Ended: {data.interview.endedAt}</div>}
               <div>Duration: {msToHMS(data.interview?.durationMs ?? 0)}</div>
@@ -184,6 +398,39 @@ export default function ReportPage() {
             <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 12, flexWrap: "wrap" }}>
               <div style={{ fontSize: 14, opacity: 0.85 }}>Final Score</div>
               <div style={{ fontSize: 32, fontWeight: 800 }}>{data.integrity?.score ?? 0}</div>
+              {data.rawIntegrity && data.review && (
+                <div style={{ fontSize: 12, opacity: 0.75 }}>
+                  reviewed · raw {data.rawIntegrity.score}
+                  {data.review.dismissed > 0 && ` · ${data.review.dismissed} dismissed`}
+                  {data.review.disputed > 0 && ` · ${data.review.disputed} disputed`}
+                  {data.review.confirmed > 0 && ` · ${data.review.confirmed} confirmed`}
+                </div>
+              )}
+              {data.policy && (
+                <div style={{ fontSize: 12, opacity: 0.75 }}>
+                  policy {data.policy.name} v{data.policy.version}
+                  {data.policy.mode === "time" ? " (time-weighted)" : ""}
+                </div>
+              )}
+              {data.systemCheck !== undefined && (
+                <div
+                  title={
+                    data.systemCheck
+                      ? Object.entries(data.systemCheck.checks)
+                          .filter(([, c]) => !c.ok)
+                          .map(([name, c]) => `${name}: ${c.detail ?? "failed"}`)
+                          .join("\n") || `all checks passed ${data.systemCheck.at}`
+                      : "the candidate skipped the system check"
+                  }
+                  style={{
+                    ...chip,
+                    background: data.systemCheck?.passed ? "#143d2a" : "#3d2a14",
+                    color: data.systemCheck?.passed ? "#21d07a" : "#f6ad55",
+                  }}
+                >
+                  System check: {!data.systemCheck ? "not run" : data.systemCheck.passed ? "passed" : "failed"}
+                </div>
+              )}
               <div
                 style={{
                   ...chip,
@@ -202,8 +449,293 @@ export default function ReportPage() {
               >
                 Multiple faces: {data.multipleFaces ? "Yes" : "No"}
               </div>
+              <div
+                style={{
+                  ...chip,
+                  background: data.otherVoices ? "#3d142a" : "#143d2a",
+                  color: data.otherVoices ? "#ff6b6b" : "#21d07a",
+                }}
+              >
+                Other voices: {data.otherVoices ? "Yes" : "No"}
+              </div>
+              <div
+                style={{
+                  ...chip,
+                  background: data.leftPage ? "#3d142a" : "#143d2a",
+                  color: data.leftPage ? "#ff6b6b" : "#21d07a",
+                }}
+              >
+                Left the page: {data.leftPage ? "Yes" : "No"}
+              </div>
+              <div
+                style={{
+                  ...chip,
+                  background: data.clipboardUsed ? "#3d142a" : "#143d2a",
+                  color: data.clipboardUsed ? "#ff6b6b" : "#21d07a",
+                }}
+              >
+                Copy/paste: {data.clipboardUsed ? "Yes" : "No"}
+              </div>
+              {data.identity && (
+                <div
+                  title={
+                    data.identity.similarity
+                      ? `mean ${data.identity.similarity.mean}, min ${data.identity.similarity.min} over ${data.identity.similarity.checks} re-matches; ${data.identity.mismatches} mismatch event(s)`
+                      : data.identity.reference
+                        ? "reference photo taken, no re-match reported"
+                        : "no reference photo"
+                  }
+                  style={{
+                    ...chip,
+                    background: data.identityMismatch ? "#3d142a" : data.identity.similarity ? "#143d2a" : "#2a2a2f",
+                    color: data.identityMismatch ? "#ff6b6b" : data.identity.similarity ? "#21d07a" : "#bbb",
+                  }}
+                >
+                  Identity:{" "}
+                  {data.identity.similarity
+                    ? `${Math.round(data.identity.similarity.mean * 100)}% match (min ${Math.round((data.identity.similarity.min ?? 0) * 100)}%)`
+                    : data.identity.reference
+                      ? "not re-checked"
+                      : "no reference"}
+                </div>
+              )}
+              {data.chain && (
+                <div
+                  title={data.chain.issues.map((i) => `#${i.seq} ${i.kind}: ${i.message}`).join("\n") || undefined}
+                  style={{
+                    ...chip,
+                    background: data.chain.status === "broken" ? "#3d142a" : "#143d2a",
+                    color: data.chain.status === "broken" ? "#ff6b6b" : "#21d07a",
+                  }}
+                >
+                  Event log:{" "}
+                  {data.chain.status === "broken"
+                    ? `tampered (${data.chain.issueCount} issue${data.chain.issueCount === 1 ? "" : "s"})`
+                    : data.chain.status === "verified"
+                      ? "verified"
+                      : "no events"}
+                  {data.chain.unchained > 0 ? ` · ${data.chain.unchained} legacy unverified` : ""}
+                </div>
+              )}
             </div>
 
+            {/* Identity reference photos */}
+            {(data.identity?.selfieUrl || data.identity?.idDocumentUrl) && (
+              <>
+                <div style={sectionTitle}>Identity</div>
+                <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "flex-end" }}>
+                  {[
+                    { label: "Reference photo", url: data.identity.selfieUrl },
+                    { label: "ID photo", url: data.identity.idDocumentUrl },
+                  ].map(({ label, url }) =>
+                    url ? (
+                      <figure key={label} style={{ margin: 0 }}>
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img src={url} alt={label} style={{ height: 140, borderRadius: 10, border: "1px solid #2f2f33", display: "block" }} />
+                        <figcaption style={{ fontSize: 12, opacity: 0.75, marginTop: 4 }}>{label}</figcaption>
+                      </figure>
+                    ) : null
+                  )}
+                  {data.identity.capturedAt && (
+                    <div style={{ fontSize: 12, opacity: 0.75 }}>Captured {data.identity.capturedAt}</div>
+                  )}
+                </div>
+              </>
+            )}
+
+            {/* Recording + synchronized timeline */}
+            <div style={sectionTitle}>Recording</div>
+            {data.interview.videoUrl ? (
+              <video
+                ref={videoRef}
+                src={data.interview.videoUrl}
+                controls
+                preload="metadata"
+                onTimeUpdate={(e) => setPlayMs(e.currentTarget.currentTime * 1000)}
+                onLoadedMetadata={(e) => {
+                  // MediaRecorder WebM often reports Infinity until fully scanned
+                  const d = e.currentTarget.duration;
+                  if (Number.isFinite(d)) setVideoMs(d * 1000);
+                }}
+                style={{ width: "100%", maxHeight: 480, background: "#000", borderRadius: 12, display: "block" }}
+              />
+            ) : (
+              <div style={{ opacity: 0.8, fontSize: 14 }}>No recording attached to this interview.</div>
+            )}
+
+            {laneTypes.length > 0 && (
+              <>
+                {/* Type filters */}
+                <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", margin: "12px 0 8px" }}>
+                  {laneTypes.map((type) => {
+                    const on = !hidden.has(type);
+                    return (
+                      <button
+                        key={type}
+                        type="button"
+                        onClick={() => toggleType(type)}
+                        style={{
+                          ...chip,
+                          cursor: "pointer",
+                          border: `1px solid ${on ? TYPE_COLORS[type] ?? FALLBACK_COLOR : "#2f2f33"}`,
+                          background: on ? "#1b1b1e" : "transparent",
+                          color: on ? "#fff" : "#8a8a8f",
+                        }}
+                      >
+                        <span style={{ color: TYPE_COLORS[type] ?? FALLBACK_COLOR }}>■</span> {type} ({data.counts[type] ?? 0})
+                      </button>
+                    );
+                  })}
+                  {hidden.size > 0 && (
+                    <button type="button" style={{ ...chip, ...btn, padding: "6px 12px" }} onClick={() => filterTypes(new Set())}>
+                      Show all
+                    </button>
+                  )}
+                  <span style={{ flex: 1 }} />
+                  <button type="button" style={{ ...btn, padding: "6px 12px" }} onClick={() => jump(-1)} disabled={visible.length === 0}>
+                    ◀ Prev
+                  </button>
+                  <button type="button" style={{ ...btn, padding: "6px 12px" }} onClick={() => jump(1)} disabled={visible.length === 0}>
+                    Next ▶
+                  </button>
+                </div>
+
+                {/* One scrubbable lane per visible type; click a marker to seek to where it began */}
+                <div style={{ display: "grid", gap: 4 }}>
+                  {laneTypes
+                    .filter((type) => !hidden.has(type))
+                    .map((type) => {
+                      const color = TYPE_COLORS[type] ?? FALLBACK_COLOR;
+                      return (
+                        <div key={type} style={{ display: "flex", alignItems: "center", gap: 10 }}>
+                          <div style={{ width: 170, fontSize: 12, opacity: 0.85, flexShrink: 0 }}>{type}</div>
+                          <div
+                            onPointerDown={(e) => {
+                              e.currentTarget.setPointerCapture(e.pointerId);
+                              scrub(e);
+                            }}
+                            onPointerMove={(e) => {
+                              if (e.buttons & 1) scrub(e);
+                            }}
+                            style={{
+                              position: "relative",
+                              flex: 1,
+                              height: 18,
+                              borderRadius: 6,
+                              background: "#101012",
+                              border: "1px solid #2f2f33",
+                              cursor: "pointer",
+                              touchAction: "none",
+                            }}
+                          >
+                            {(data.intervals ?? [])
+                              .filter((iv) => iv.type === type)
+                              .map((iv, i) => (
+                                <div
+                                  key={`iv${i}`}
+                                  style={{
+                                    position: "absolute",
+                                    top: 3,
+                                    bottom: 3,
+                                    left: pct(iv.start),
+                                    width: `max(2px, ${pct(iv.end - iv.start)})`,
+                                    background: color,
+                                    opacity: 0.35,
+                                    borderRadius: 3,
+                                  }}
+                                />
+                              ))}
+                            {markers
+                              .filter((m) => m.type === type)
+                              .map((m, i) => (
+                                <div
+                                  key={m.seq ?? `m${i}`}
+                                  title={`${fmtClock(m.start)}–${fmtClock(m.t)} ${m.type}${m.review ? ` (${m.review})` : ""}`}
+                                  onPointerDown={(e) => {
+                                    e.stopPropagation();
+                                    seekTo(m.start, { play: true });
+                                  }}
+                                  style={{
+                                    position: "absolute",
+                                    top: 0,
+                                    bottom: 0,
+                                    left: pct(m.t),
+                                    width: 4,
+                                    marginLeft: -2,
+                                    background: color,
+                                    borderRadius: 2,
+                                    opacity: m.review === "dismissed" ? 0.3 : 1,
+                                  }}
+                                />
+                              ))}
+                            <div
+                              style={{
+                                position: "absolute",
+                                top: -2,
+                                bottom: -2,
+                                left: pct(playMs),
+                                width: 2,
+                                background: "#fff",
+                                pointerEvents: "none",
+                              }}
+                            />
+                          </div>
+                        </div>
+                      );
+                    })}
+                </div>
+                <div style={{ display: "flex", justifyContent: "space-between", fontSize: 12, opacity: 0.7, marginTop: 4, paddingLeft: 180 }}>
+                  <span>0:00</span>
+                  <span>
+                    {fmtClock(playMs)} · {visible.length} of {markers.length} event(s) shown
+                  </span>
+                  <span>{fmtClock(totalMs)}</span>
+                </div>
+              </>
+            )}
+
+            {/* Evidence gallery */}
+            {(data.evidence ?? []).length > 0 && (
+              <>
+                <div style={sectionTitle}>Evidence ({data.evidence!.length})</div>
+                <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(180px, 1fr))", gap: 12 }}>
+                  {data.evidence!.map((e) => (
+                    <button
+                      key={e.eventId}
+                      type="button"
+                      onClick={() => seekTo(e.t, { reveal: true, play: true })}
+                      disabled={!data.interview.videoUrl}
+                      title={data.interview.videoUrl ? "Play the recording from here" : "No recording attached"}
+                      style={{
+                        padding: 0,
+                        textAlign: "left",
+                        color: "#fff",
+                        background: "#101012",
+                        border: `1px solid ${e.status === "mismatch" ? "#ff6b6b" : "#2f2f33"}`,
+                        borderRadius: 10,
+                        overflow: "hidden",
+                        cursor: data.interview.videoUrl ? "pointer" : "default",
+                      }}
+                    >
+                      {e.url ? (
+                        // signed storage URLs; next/image would need every storage host configured
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={e.url} alt={`${e.type} at ${(e.t / 1000).toFixed(1)}s`} style={{ width: "100%", aspectRatio: "4 / 3", objectFit: "cover", display: "block" }} />
+                      ) : (
+                        <div style={{ aspectRatio: "4 / 3", display: "grid", placeItems: "center", fontSize: 12, opacity: 0.6 }}>
+                          not uploaded
+                        </div>
+                      )}
+                      <div style={{ padding: "6px 8px", fontSize: 12 }}>
+                        <span style={{ opacity: 0.75 }}>{(e.t / 1000).toFixed(1)}s</span> <strong>{e.type}</strong>
+                        {e.status === "mismatch" && <div style={{ color: "#ff6b6b" }}>image does not match its event</div>}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+
             {/* Deductions */}
             {Array.isArray(data.integrity?.breakdown) && data.integrity.breakdown.length > 0 && (
               <>
@@ -213,6 +745,7 @@ export default function ReportPage() {
                     <tr>
                       <th style={th}>Type</th>
                       <th style={th}>Count</th>
+                      {data.policy?.mode === "time" && <th style={th}>Seconds</th>}
                       <th style={th}>Deduction</th>
                     </tr>
                   </thead>
@@ -221,6 +754,7 @@ export default function ReportPage() {
                       <tr key={i}>
                         <td style={td}>{b.type}</td>
                         <td style={td}>{b.times}</td>
+                        {data.policy?.mode === "time" && <td style={td}>{b.seconds ?? 0}s</td>}
                         <td style={td}>-{b.deduct}</td>
                       </tr>
                     ))}
@@ -229,6 +763,35 @@ export default function ReportPage() {
               </>
             )}
 
+            {/* Violation intervals */}
+            {(data.intervals ?? []).length > 0 && (
+              <>
+                <div style={sectionTitle}>Violations</div>
+                <table style={table}>
+                  <thead>
+                    <tr>
+                      <th style={th}>Type</th>
+                      <th style={th}>Start</th>
+                      <th style={th}>End</th>
+                      <th style={th}>Duration</th>
+                      <th style={th}>Events</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(data.intervals ?? []).map((iv, i) => (
+                      <tr key={i}>
+                        <td style={td}>{iv.type}</td>
+                        <td style={td}>{(iv.start / 1000).toFixed(1)}s</td>
+                        <td style={td}>{(iv.end / 1000).toFixed(1)}s</td>
+                        <td style={td}>{msToHMS(iv.durationMs)}</td>
+                        <td style={td}>{iv.events}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+
             {/* Counts */}
             {data.counts && Object.keys(data.counts).length > 0 && (
               <>
@@ -252,35 +815,177 @@ export default function ReportPage() {
               </>
             )}
 
-            {/* Timeline */}
-            <div style={{ ...sectionTitle, marginBottom: 4 }}>Timeline (first 50)</div>
-            <div style={{ fontSize: 12, opacity: 0.75, marginBottom: 8 }}>t = seconds since start</div>
-            {(data.eventSample ?? []).length === 0 ? (
+            {/* Timeline: every event, a page at a time, filtered like the player */}
+            <div style={{ ...sectionTitle, marginBottom: 4 }}>
+              Timeline{eventPage && !noneShown ? ` (${eventPage.total}${hidden.size ? " shown" : ""})` : ""}
+            </div>
+            <div style={{ fontSize: 12, opacity: 0.75, marginBottom: 8 }}>
+              t = seconds since start{data.interview.videoUrl ? " · click a row to play from there" : ""}
+            </div>
+            {pageErr && <div style={{ color: "#ff6b6b" }}>Could not load events: {pageErr}</div>}
+            {noneShown ? (
+              <div style={{ opacity: 0.85 }}>No event types selected.</div>
+            ) : !eventPage ? (
+              !pageErr && <div style={{ opacity: 0.85 }}>Loading…</div>
+            ) : eventPage.items.length === 0 ? (
               <div style={{ opacity: 0.85 }}>No events captured.</div>
             ) : (
               <ul style={{ listStyle: "none", paddingLeft: 0, margin: 0, maxWidth: 800 }}>
-                {(data.eventSample ?? []).slice(0, 50).map((e, i) => (
+                {eventPage.items.map((e, i) => (
                   <li
-                    key={i}
+                    key={e.seq ?? `p${pageCursors.length}-${i}`}
+                    onClick={() => seekTo(startBySeq.get(e.seq ?? -1) ?? e.t, { reveal: true, play: true })}
                     style={{
                       borderTop: "1px dashed #2a2a2e",
                       padding: "8px 0",
                       display: "flex",
+                      flexWrap: "wrap",
                       gap: 14,
                       alignItems: "baseline",
+                      cursor: data.interview.videoUrl ? "pointer" : "default",
                     }}
                   >
                     <span style={{ width: 72, display: "inline-block", opacity: 0.75 }}>
                       {(e.t / 1000).toFixed(1)}s
                     </span>
-                    <span style={{ fontWeight: 700 }}>{e.type}</span>
+                    <span
+                      style={{
+                        fontWeight: 700,
+                        ...(e.review?.status === "dismissed" && { textDecoration: "line-through", opacity: 0.6 }),
+                      }}
+                    >
+                      {e.type}
+                    </span>
                     {typeof e.confidence === "number" && (
                       <span style={{ opacity: 0.75 }}>• conf {e.confidence.toFixed(2)}</span>
                     )}
+                    <span style={{ flex: 1 }} />
+                    {e.review && (
+                      <span
+                        title={`${e.review.reviewer.email}, ${e.review.reviewedAt}${e.review.note ? `\n${e.review.note}` : ""}`}
+                        style={{ ...chip, padding: "3px 9px", ...REVIEW_COLORS[e.review.status] }}
+                      >
+                        {e.review.status}
+                      </span>
+                    )}
+                    {e.eventId && (
+                      <button
+                        type="button"
+                        style={{ ...btn, padding: "4px 10px", fontSize: 12 }}
+                        onClick={(ev) => {
+                          ev.stopPropagation();
+                          openReview(e);
+                        }}
+                      >
+                        Review
+                      </button>
+                    )}
+                    {e.eventId && editing === e.eventId && (
+                      <div
+                        onClick={(ev) => ev.stopPropagation()}
+                        style={{ flexBasis: "100%", display: "grid", gap: 8, padding: "6px 0 4px 86px", cursor: "default" }}
+                      >
+                        <textarea
+                          value={note}
+                          onChange={(ev) => setNote(ev.target.value)}
+                          placeholder="Note (why, what you saw)"
+                          maxLength={1000}
+                          rows={2}
+                          style={{
+                            background: "#151519",
+                            border: "1px solid #2e2e33",
+                            color: "#fff",
+                            borderRadius: 8,
+                            padding: "6px 8px",
+                            fontFamily: "inherit",
+                            fontSize: 13,
+                          }}
+                        />
+                        <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                          {(["confirmed", "dismissed", "disputed"] as const).map((st) => (
+                            <button
+                              key={st}
+                              type="button"
+                              style={{ ...btn, padding: "6px 12px", fontSize: 12, ...REVIEW_COLORS[st] }}
+                              onClick={() => void submitReview(e.eventId!, st)}
+                            >
+                              {st === "confirmed" ? "Confirm" : st === "dismissed" ? "Dismiss" : "Dispute"}
+                            </button>
+                          ))}
+                          {e.review && (
+                            <button
+                              type="button"
+                              style={{ ...btn, padding: "6px 12px", fontSize: 12 }}
+                              onClick={() => void submitReview(e.eventId!, null)}
+                            >
+                              Clear review
+                            </button>
+                          )}
+                          {reviewErr && <span style={{ color: "#ff6b6b", fontSize: 12 }}>{reviewErr}</span>}
+                        </div>
+                      </div>
+                    )}
                   </li>
                 ))}
               </ul>
             )}
+            {eventPage && !noneShown && (pageCursors.length > 0 || eventPage.nextCursor) && (
+              <div style={{ display: "flex", gap: 10, alignItems: "center", marginTop: 10 }}>
+                <button
+                  type="button"
+                  style={{ ...btn, padding: "6px 12px" }}
+                  disabled={pageCursors.length === 0}
+                  onClick={() => setPageCursors((c) => c.slice(0, -1))}
+                >
+                  ◀ Prev
+                </button>
+                <span style={{ fontSize: 12, opacity: 0.75 }}>
+                  Page {pageCursors.length + 1} of {Math.max(1, Math.ceil(eventPage.total / PAGE_SIZE))}
+                </span>
+                <button
+                  type="button"
+                  style={{ ...btn, padding: "6px 12px" }}
+                  disabled={!eventPage.nextCursor}
+                  onClick={() => eventPage.nextCursor && setPageCursors((c) => [...c, eventPage.nextCursor!])}
+                >
+                  Next ▶
+                </button>
+              </div>
+            )}
+
+            {/* Review audit trail */}
+            {(data.review?.audit ?? []).length > 0 && (
+              <>
+                <div style={sectionTitle}>Review log</div>
+                <table style={table}>
+                  <thead>
+                    <tr>
+                      <th style={th}>When</th>
+                      <th style={th}>Reviewer</th>
+                      <th style={th}>Event</th>
+                      <th style={th}>Action</th>
+                      <th style={th}>Note</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.review!.audit.map((a, i) => (
+                      <tr key={i}>
+                        <td style={td}>{new Date(a.at).toLocaleString()}</td>
+                        <td style={td}>{a.reviewer.email}</td>
+                        <td style={td}>
+                          <code style={{ fontSize: 11 }}>{a.eventId.slice(0, 8)}</code>
+                        </td>
+                        <td style={td}>
+                          {a.previous ? `${a.previous} → ` : ""}
+                          {a.action}
+                        </td>
+                        <td style={td}>{a.note ?? ""}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
           </>
         )}
       </section>
@@ -0,0 +1,146 @@
+// src/lib/activeSessions.ts
+// Data for the proctor wall (/monitor): every interview in progress, with its
+// live score, recent activity and heartbeat, ranked by risk.
+import type { Db } from "mongodb";
+import { computeIntegrity, fetchEventsByInterview, type CountMap } from "@/lib/report";
+import { liveScore, STALE_AFTER_MS } from "@/lib/live";
+import { resolvePolicyOrNull } from "@/lib/policies";
+import { settleOverdue } from "@/lib/lifecycle";
+import type { InterviewDoc } from "@/lib/reportData";
+import type { LiveState, ScoringPolicy } from "@/lib/types";
+
+/** Legacy sessions (no status) older than this are treated as abandoned rather than active. */
+const MAX_SESSION_AGE_MS = 24 * 60 * 60 * 1000;
+/** Window for the event rate. */
+const RATE_WINDOW_MS = 5 * 60 * 1000;
+const MAX_SESSIONS = 200;
+
+export type ActiveSession = {
+  _id: string;
+  candidateName: string | null;
+  startedAt: string | null;
+  score: number | null;              // null: the pinned scoring policy is missing
+  events: number;
+  lastEvent: { type: string; t: number; receivedAt: string | null } | null;
+  eventsPerMin: number;              // over the last RATE_WINDOW_MS
+  live: LiveState | null;
+  heartbeatAgeMs: number | null;     // null: never reported
+  stale: boolean;
+  risk: number;
+};
+
+type TypeStats = {
+  _id: { interviewId: string; type: string };
+  n: number;
+  recent: number;
+  lastReceivedAt: string | null;
+  lastT: number;
+};
+
+/**
+ * Higher is riskier: points lost so far, plus a penalty for a silent page
+ * (the proctor cannot see the candidate), for bursts of events and for a
+ * reported state that is not "one focused face".
+ */
+function riskOf(s: Omit<ActiveSession, "risk">): number {
+  let risk = 100 - (s.score ?? 0);
+  if (s.stale) risk += 25;
+  risk += Math.min(30, s.eventsPerMin * 10);
+  if (s.live && !s.stale && (s.live.faces !== 1 || s.live.status !== "focused")) risk += 15;
+  return Math.round(risk);
+}
+
+/** Latest by server receive time; legacy events without one fall back to `t`. */
+function newer(r: TypeStats, than: TypeStats): boolean {
+  const a = r.lastReceivedAt ?? "";
+  const b = than.lastReceivedAt ?? "";
+  return a !== b ? a > b : r.lastT > than.lastT;
+}
+
+export async function listActiveSessions(db: Db, now = Date.now()): Promise<ActiveSession[]> {
+  await settleOverdue(db, now);
+  const interviews = await db
+    .collection<InterviewDoc>("interviews")
+    .find(
+      {
+        $or: [
+          { status: "in_progress" },
+          {
+            status: { $exists: false },
+            startedAt: { $gte: new Date(now - MAX_SESSION_AGE_MS).toISOString() },
+            endedAt: { $not: { $type: "string" } },  // absent or null
+          },
+        ],
+      },
+      { projection: { candidateName: 1, startedAt: 1, policy: 1, live: 1 }, sort: { startedAt: -1 }, limit: MAX_SESSIONS }
+    )
+    .toArray();
+  if (interviews.length === 0) return [];
+
+  const ids = interviews.map((i) => String(i._id));
+  const since = new Date(now - RATE_WINDOW_MS).toISOString();
+  const stats = await db
+    .collection("events")
+    .aggregate<TypeStats>([
+      { $match: { interviewId: { $in: ids } } },
+      {
+        $group: {
+          _id: { interviewId: "$interviewId", type: "$type" },
+          n: { $sum: 1 },
+          recent: { $sum: { $cond: [{ $gte: ["$receivedAt", since] }, 1, 0] } },
+          lastReceivedAt: { $max: "$receivedAt" },
+          lastT: { $max: "$t" },
+        },
+      },
+    ])
+    .toArray();
+
+  const byInterview = new Map<string, TypeStats[]>();
+  for (const s of stats) {
+    const list = byInterview.get(s._id.interviewId) ?? [];
+    list.push(s);
+    byInterview.set(s._id.interviewId, list);
+  }
+
+  // interviews pin a handful of policy versions; resolve each once
+  const policies = new Map<string, Promise<ScoringPolicy | null>>();
+  const policyFor = (i: InterviewDoc) => {
+    const k = i.policy ? `${i.policy.name}@${i.policy.version}` : "";
+    if (!policies.has(k)) policies.set(k, resolvePolicyOrNull(db, i.policy));
+    return policies.get(k)!;
+  };
+
+  const sessions = await Promise.all(
+    interviews.map(async (i): Promise<ActiveSession> => {
+      const id = String(i._id);
+      const rows = byInterview.get(id) ?? [];
+      const counts: CountMap = Object.fromEntries(rows.map((r) => [r._id.type, r.n]));
+      const policy = await policyFor(i);
+
+      // count mode scores straight from the aggregate; time mode needs the event spans
+      const score = !policy
+        ? null
+        : policy.mode === "time"
+          ? liveScore(await fetchEventsByInterview(db, id), i, policy, now).score
+          : computeIntegrity(counts, policy.rules).score;
+
+      const last = rows.reduce<TypeStats | null>((a, r) => (!a || newer(r, a) ? r : a), null);
+      const heartbeatAgeMs = i.live ? now - new Date(i.live.at).getTime() : null;
+      const base = {
+        _id: id,
+        candidateName: i.candidateName ?? null,
+        startedAt: i.startedAt ?? null,
+        score,
+        events: rows.reduce((n, r) => n + r.n, 0),
+        lastEvent: last ? { type: last._id.type, t: last.lastT, receivedAt: last.lastReceivedAt } : null,
+        eventsPerMin: Math.round((rows.reduce((n, r) => n + r.recent, 0) / (RATE_WINDOW_MS / 60_000)) * 10) / 10,
+        live: i.live ?? null,
+        heartbeatAgeMs,
+        stale: heartbeatAgeMs === null || heartbeatAgeMs > STALE_AFTER_MS,
+      };
+      return { ...base, risk: riskOf(base) };
+    })
+  );
+
+  return sessions.sort((a, b) => b.risk - a.risk || (b.startedAt ?? "").localeCompare(a.startedAt ?? ""));
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import { getPrincipal, issueCandidateToken, refuseRevoked } from "@/lib/auth";
+
+const withToken = (token: string) =>
+  new NextRequest("http://localhost/api/events", { headers: { Authorization: `Bearer ${token}` } });
+
+describe("candidate tokens", () => {
+  it("carry the interview and token generation", () => {
+    const p = getPrincipal(withToken(issueCandidateToken("iv1", undefined, 2)));
+    expect(p).toEqual({ kind: "candidate", interviewId: "iv1", gen: 2 });
+  });
+
+  it("are refused once the invite was reissued", () => {
+    const p = getPrincipal(withToken(issueCandidateToken("iv1")))!;
+    expect(refuseRevoked(p, {})).toBeNull();
+    expect(refuseRevoked(p, { tokenGen: 0 })).toBeNull();
+    expect(refuseRevoked(p, { tokenGen: 1 })?.status).toBe(401);
+  });
+
+  it("never revoke staff", () => {
+    const staff = { kind: "staff" as const, userId: "u", email: "a@b.c", roles: [] };
+    expect(refuseRevoked(staff, { tokenGen: 3 })).toBeNull();
+  });
+});
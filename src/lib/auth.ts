@@ -0,0 +1,178 @@
+// src/lib/auth.ts
+// Stateless signed tokens for staff sessions and per-interview candidate sessions,
+// plus the permission checks route handlers call before touching data.
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import type { Db } from "mongodb";
+import type { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/http";
+import type { Role, User } from "@/lib/types";
+
+export const SESSION_COOKIE = "td_session";
+const STAFF_TTL_S = 12 * 60 * 60;
+const CANDIDATE_TTL_S = 24 * 60 * 60;
+
+export type Principal =
+  | { kind: "staff"; userId: string; email: string; roles: Role[] }
+  | { kind: "candidate"; interviewId: string; gen: number };
+
+type TokenPayload =
+  | { sub: string; email: string; roles: Role[]; exp: number }
+  | { sub: "candidate"; iid: string; gen?: number; exp: number };
+
+let devSecretWarned = false;
+
+function secret(): string {
+  const s = process.env.AUTH_SECRET;
+  if (s) return s;
+  if (process.env.NODE_ENV === "production") throw new Error("AUTH_SECRET is not set");
+  if (!devSecretWarned) {
+    console.warn("[auth] AUTH_SECRET is not set; using an insecure development secret");
+    devSecretWarned = true;
+  }
+  return "dev-only-insecure-secret";
+}
+
+const b64 = (buf: Buffer | string) => Buffer.from(buf).toString("base64url");
+const sign = (body: string) => createHmac("sha256", secret()).update(body).digest("base64url");
+const now = () => Math.floor(Date.now() / 1000);
+
+function signToken(payload: TokenPayload): string {
+  const body = `v1.${b64(JSON.stringify(payload))}`;
+  return `${body}.${sign(body)}`;
+}
+
+function verifyToken(token: string): TokenPayload | null {
+  const i = token.lastIndexOf(".");
+  if (i < 0 || !token.startsWith("v1.")) return null;
+  const body = token.slice(0, i);
+  const a = Buffer.from(token.slice(i + 1));
+  const b = Buffer.from(sign(body));
+  if (a.length !== b.length || !timingSafeEqual(a, b)) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(body.slice(3), "base64url").toString()) as TokenPayload;
+    return typeof payload.exp === "number" && payload.exp > now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Session token for a signed-in staff member. */
+export function issueStaffToken(user: Pick<User, "email" | "roles"> & { _id: { toString(): string } }) {
+  return signToken({ sub: user._id.toString(), email: user.email, roles: user.roles, exp: now() + STAFF_TTL_S });
+}
+
+/**
+ * Token that only lets its holder act as the candidate of one interview (until
+ * `expiresAt`, ms, if given). `gen` is the interview's tokenGen when issued.
+ */
+export function issueCandidateToken(interviewId: string, expiresAt?: number, gen = 0) {
+  const exp = expiresAt !== undefined ? Math.floor(expiresAt / 1000) : now() + CANDIDATE_TTL_S;
+  return signToken({ sub: "candidate", iid: interviewId, gen, exp });
+}
+
+/** 401 for a candidate token from before the invite was last reissued, else null (staff always pass). */
+export function refuseRevoked(principal: Principal, interview: { tokenGen?: number }): NextResponse | null {
+  if (principal.kind !== "candidate" || principal.gen === (interview.tokenGen ?? 0)) return null;
+  return apiError(401, "UNAUTHORIZED", "this candidate link has been replaced");
+}
+
+export function setSessionCookie(res: NextResponse, token: string) {
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: STAFF_TTL_S,
+  });
+}
+
+/* ----- passwords ----- */
+
+const scryptAsync = promisify(scrypt) as (pw: string, salt: Buffer, len: number) => Promise<Buffer>;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${b64(salt)}$${b64(hash)}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [alg, salt, hash] = stored.split("$");
+  if (alg !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64url");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64url"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Check credentials against the "users" collection. While it is empty, the
+ * ADMIN_EMAIL / ADMIN_PASSWORD pair from the environment creates the first admin.
+ */
+export async function authenticate(db: Db, email: string, password: string) {
+  const users = db.collection<User>("users");
+  const normalized = email.trim().toLowerCase();
+
+  const user = await users.findOne({ email: normalized });
+  if (user) return (await verifyPassword(password, user.passwordHash)) ? user : null;
+
+  const { ADMIN_EMAIL, ADMIN_PASSWORD } = process.env;
+  if (!ADMIN_EMAIL || !ADMIN_PASSWORD) return null;
+  if (normalized !== ADMIN_EMAIL.trim().toLowerCase() || password !== ADMIN_PASSWORD) return null;
+  if ((await users.countDocuments({}, { limit: 1 })) > 0) return null;
+
+  const admin: User = {
+    email: normalized,
+    passwordHash: await hashPassword(password),
+    roles: ["admin"],
+    createdAt: new Date().toISOString(),
+  };
+  const { insertedId } = await users.insertOne(admin);
+  return { ...admin, _id: insertedId };
+}
+
+/* ----- request checks ----- */
+
+/**
+ * Bearer header first, then the session cookie. `?token=` is accepted for
+ * candidates only, because navigator.sendBeacon cannot set headers.
+ */
+export function getPrincipal(req: NextRequest): Principal | null {
+  const header = req.headers.get("authorization");
+  const bearer = header?.startsWith("Bearer ") ? header.slice(7).trim() : null;
+  const query = req.nextUrl.searchParams.get("token");
+  const cookie = req.cookies.get(SESSION_COOKIE)?.value;
+
+  for (const token of [bearer, cookie, query]) {
+    const p = token ? verifyToken(token) : null;
+    if (!p) continue;
+    if (p.sub === "candidate") {
+      if ("iid" in p) return { kind: "candidate", interviewId: p.iid, gen: p.gen ?? 0 };
+      continue;
+    }
+    if (token === query) continue;
+    if ("roles" in p) return { kind: "staff", userId: p.sub, email: p.email, roles: p.roles };
+  }
+  return null;
+}
+
+type Authorized = { ok: true; principal: Principal } | { ok: false; response: NextResponse };
+
+/**
+ * Allow staff holding any of `roles` (admin always passes) and, when
+ * `candidateFor` is given, the candidate of that interview.
+ */
+export function authorize(req: NextRequest, opts: { roles: Role[]; candidateFor?: string }): Authorized {
+  const principal = getPrincipal(req);
+  if (!principal) return { ok: false, response: apiError(401, "UNAUTHORIZED", "sign in required") };
+
+  if (principal.kind === "candidate") {
+    if (opts.candidateFor !== undefined && principal.interviewId === opts.candidateFor) return { ok: true, principal };
+  } else if (principal.roles.some((r) => r === "admin" || opts.roles.includes(r))) {
+    return { ok: true, principal };
+  }
+  return { ok: false, response: apiError(403, "FORBIDDEN", "not allowed for this session") };
+}
+
+/** Roles that may see interviews on the dashboard. */
+export const STAFF_ROLES: Role[] = ["admin", "interviewer", "reviewer"];
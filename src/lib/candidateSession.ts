@@ -0,0 +1,33 @@
+// src/lib/candidateSession.ts
+// Browser side of the candidate token issued by POST /api/interviews. The invite
+// link carries it in the URL fragment (#t=...), which never reaches server logs;
+// it is kept in localStorage so a reload or crash can still resume uploads.
+
+const storageKey = (interviewId: string) => `td_candidate_${interviewId}`;
+
+/** Take the token from the fragment (and strip it from the address bar), else from storage. */
+export function readCandidateToken(interviewId: string): string | null {
+  const fromHash = new URLSearchParams(window.location.hash.slice(1)).get("t");
+  if (fromHash) {
+    try {
+      localStorage.setItem(storageKey(interviewId), fromHash);
+    } catch {
+      /* storage disabled: the token lives for this page only */
+    }
+    history.replaceState(null, "", window.location.pathname + window.location.search);
+    return fromHash;
+  }
+  try {
+    return localStorage.getItem(storageKey(interviewId));
+  } catch {
+    return null;
+  }
+}
+
+export const authHeader = (token: string | null): Record<string, string> =>
+  token ? { Authorization: `Bearer ${token}` } : {};
+
+/** Link to hand to the candidate for one interview; it opens on the system check. */
+export function candidateLink(interviewId: string, token: string): string {
+  return `/interview/${interviewId}/check#t=${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,140 @@
+// src/lib/chunkUploader.ts
+// Client side of /api/recordings/[id]/*: streams MediaRecorder slices as they are produced.
+// Every slice is kept in IndexedDB until the server has it, so a crash or reload can resume.
+import { idbDelete, idbGetByPrefix, idbPut } from "@/lib/idb";
+import { authHeader } from "@/lib/candidateSession";
+
+type TakeRow = {
+  interviewId: string;
+  take: string;
+  mimeType: string;
+  nextSeq: number;                   // slices persisted so far
+  endedAt?: string;                  // set once the recorder stopped
+};
+
+type ChunkRow = { interviewId: string; take: string; seq: number; data: Blob };
+
+const MAX_ATTEMPTS = 6;
+const MAX_BACKOFF_MS = 30_000;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** IndexedDB is best effort (private windows may refuse it); uploads go on without it. */
+const quiet = <T>(p: Promise<T>) => p.catch(() => undefined);
+
+async function uploadChunk(
+  token: string | null,
+  interviewId: string,
+  take: string,
+  seq: number,
+  data: Blob
+): Promise<boolean> {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    try {
+      const r = await fetch(`/api/recordings/${interviewId}/chunks?take=${take}&seq=${seq}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream", ...authHeader(token) },
+        body: data,
+      });
+      if (r.ok) {
+        await quiet(idbDelete("recordingChunks", [interviewId, take, seq]));
+        return true;
+      }
+      if (r.status >= 400 && r.status < 500 && r.status !== 408 && r.status !== 429) return false;
+    } catch {
+      /* network error: retry */
+    }
+    await sleep(Math.min(MAX_BACKOFF_MS, 1000 * 2 ** attempt));
+  }
+  return false;
+}
+
+/** Re-send whatever IndexedDB still holds for a take, then assemble it on the server. */
+async function finalizeTake(token: string | null, t: TakeRow): Promise<string> {
+  const send = async () => {
+    const r = await fetch(`/api/recordings/${t.interviewId}/finalize`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeader(token) },
+      body: JSON.stringify({
+        take: t.take,
+        totalChunks: t.nextSeq,
+        mimeType: t.mimeType,
+        endedAt: t.endedAt ?? new Date().toISOString(),
+      }),
+    });
+    return r;
+  };
+
+  let r = await send();
+  if (r.status === 409) {
+    const pending = (await quiet(idbGetByPrefix<ChunkRow>("recordingChunks", [t.interviewId, t.take]))) ?? [];
+    for (const c of pending) await uploadChunk(token, c.interviewId, c.take, c.seq, c.data);
+    r = await send();
+  }
+  if (!r.ok) {
+    const txt = await r.text().catch(() => "");
+    throw new Error(`Finalize failed (${r.status}) ${txt}`);
+  }
+
+  await quiet(idbDelete("recordingTakes", [t.interviewId, t.take]));
+  const { url } = (await r.json()) as { url: string };
+  return url;
+}
+
+/**
+ * Uploader for one recording take (Start → Stop).
+ * `enqueue` each `ondataavailable` blob; `finish` after the recorder stopped.
+ * `token` is the candidate token for this interview.
+ */
+export function createChunkUploader(interviewId: string, mimeType: string, token: string | null) {
+  const row: TakeRow = { interviewId, take: Date.now().toString(36), mimeType, nextSeq: 0 };
+  let persisted: Promise<unknown> = quiet(idbPut("recordingTakes", { ...row }));
+  let uploaded: Promise<unknown> = Promise.resolve();
+
+  return {
+    take: row.take,
+
+    enqueue(data: Blob) {
+      const seq = row.nextSeq++;
+      // persist first (ordered), then upload (ordered, may lag behind while offline)
+      persisted = persisted.then(() =>
+        quiet(
+          idbPut("recordingChunks", { interviewId, take: row.take, seq, data } satisfies ChunkRow).then(() =>
+            idbPut("recordingTakes", { ...row, nextSeq: seq + 1 })
+          )
+        )
+      );
+      // slices that give up retrying stay in IndexedDB for the finalize retry
+      uploaded = uploaded.then(() => uploadChunk(token, interviewId, row.take, seq, data));
+    },
+
+    async finish(endedAt = new Date().toISOString()): Promise<string> {
+      row.endedAt = endedAt;
+      await persisted;
+      if (row.nextSeq === 0) {
+        await quiet(idbDelete("recordingTakes", [interviewId, row.take]));
+        throw new Error("Nothing was recorded");
+      }
+      await quiet(idbPut("recordingTakes", { ...row }));
+      await uploaded;
+      return finalizeTake(token, row);
+    },
+  };
+}
+
+/**
+ * Finish takes left over from a previous page load (crash, reload, network loss).
+ * Returns the URL of the last recovered recording, if any.
+ */
+export async function resumePendingTakes(interviewId: string, token: string | null): Promise<string | null> {
+  const takes = (await quiet(idbGetByPrefix<TakeRow>("recordingTakes", [interviewId]))) ?? [];
+  let url: string | null = null;
+  for (const t of takes) {
+    if (t.nextSeq === 0) {
+      await quiet(idbDelete("recordingTakes", [t.interviewId, t.take]));
+      continue;
+    }
+    url = await finalizeTake(token, t);
+  }
+  return url;
+}
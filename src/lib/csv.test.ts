@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { csvCell } from "@/lib/csv";
+
+describe("csvCell", () => {
+  it("writes plain values as is", () => {
+    expect(csvCell("Jane Doe")).toBe("Jane Doe");
+    expect(csvCell(42)).toBe("42");
+    expect(csvCell(true)).toBe("true");
+    expect(csvCell(null)).toBe("");
+    expect(csvCell(undefined)).toBe("");
+  });
+
+  it("quotes commas, quotes and newlines", () => {
+    expect(csvCell("a,b")).toBe('"a,b"');
+    expect(csvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(csvCell("line\nbreak")).toBe('"line\nbreak"');
+  });
+
+  it.each(["=SUM(A1:A9)", "+1", "-2+3", "@cmd", "\tx", "\rx"])("neutralises the formula %j", (s) => {
+    expect(csvCell(s).replace(/^"/, "")).toMatch(/^'/);
+  });
+
+  it("quotes a neutralised cell that also needs quoting", () => {
+    expect(csvCell('=HYPERLINK("http://x","y")')).toBe('"\'=HYPERLINK(""http://x"",""y"")"');
+  });
+
+  it("leaves negative numbers alone", () => {
+    expect(csvCell(-5)).toBe("-5");
+  });
+});
@@ -0,0 +1,13 @@
+// src/lib/csv.ts
+// CSV cells for the report and bulk exports (RFC 4180 quoting, Excel-safe).
+
+/**
+ * One cell. Text starting with = + - @ (or a tab / CR) is prefixed with ' so
+ * spreadsheets show it instead of running it as a formula; numbers are written as is.
+ */
+export function csvCell(v: string | number | boolean | null | undefined): string {
+  let s = v == null ? "" : String(v);
+  if (typeof v === "string" && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  // Quote if we see comma, quote, newline; double the quotes inside.
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
@@ -0,0 +1,66 @@
+// src/lib/detect/faceSignature.ts
+// Face geometry signature for identity re-matching, built from the MediaPipe
+// face mesh useFaceFocus already computes. Each value is a landmark distance
+// divided by the outer eye-corner distance, measured in 3D so modest head turns
+// barely change it. It is a heuristic for "same person as at the start", not a
+// biometric match: tune IdentityCheck thresholds on real sessions.
+
+type Point = { x: number; y: number; z: number };
+
+/** Landmark pairs (face mesh indices); the mouth opening and chin are left out because speech moves them. */
+const PAIRS: [number, number][] = [
+  [133, 362], // inner eye corners
+  [33, 133],  // right eye width
+  [362, 263], // left eye width
+  [168, 1],   // nose bridge to tip
+  [98, 327],  // nostril width
+  [61, 291],  // mouth corners
+  [10, 1],    // forehead to nose tip
+  [234, 454], // cheek to cheek
+  [172, 397], // jaw width
+  [168, 10],  // nose bridge to forehead
+  [33, 234],  // right eye to cheek edge
+  [263, 454], // left eye to cheek edge
+  [1, 61],    // nose tip to right mouth corner
+  [1, 291],   // nose tip to left mouth corner
+];
+const UNIT: [number, number] = [33, 263]; // outer eye corners
+
+export const FACE_SIGNATURE_LENGTH = PAIRS.length;
+
+/** Mean relative difference at which similarity reaches 0. */
+const ZERO_AT = 0.25;
+
+/** Signature of one face; null if the mesh is incomplete. Landmarks are normalised to a w×h frame. */
+export function faceSignature(lmks: Point[], w: number, h: number): number[] | null {
+  if (lmks.length < 468) return null;
+  const d = (a: number, b: number) => {
+    const p = lmks[a], q = lmks[b];
+    // z uses the same scale as x in MediaPipe's normalised coordinates
+    return Math.hypot((p.x - q.x) * w, (p.y - q.y) * h, (p.z - q.z) * w);
+  };
+  const unit = d(...UNIT);
+  if (unit <= 0) return null;
+  return PAIRS.map(([a, b]) => Math.round((d(a, b) / unit) * 1000) / 1000);
+}
+
+/** Element-wise median of several signatures (steadier than any single frame). */
+export function medianSignature(sigs: number[][]): number[] | null {
+  if (sigs.length === 0) return null;
+  return sigs[0].map((_, i) => {
+    const col = sigs.map((s) => s[i]).sort((a, b) => a - b);
+    return col[Math.floor(col.length / 2)];
+  });
+}
+
+/** 1 = identical geometry, 0 = on average 25% apart or more. */
+export function signatureSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    const mean = (a[i] + b[i]) / 2;
+    diff += mean > 0 ? Math.abs(a[i] - b[i]) / mean : 0;
+  }
+  const sim = 1 - diff / a.length / ZERO_AT;
+  return Math.round(Math.max(0, sim) * 100) / 100;
+}
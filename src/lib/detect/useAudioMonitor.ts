@@ -0,0 +1,284 @@
+// src/lib/detect/useAudioMonitor.ts
+import { useEffect, useRef, useState } from "react";
+import type { EventType } from "@/lib/types";
+
+type Props = {
+  /** the interview's getUserMedia stream; only its audio track is used */
+  stream: MediaStream | null;
+  onEvent?: (t: EventType, meta?: Record<string, unknown>) => void;
+  /** ms of quieter, non-primary voice before BACKGROUND_VOICE fires */
+  backgroundVoiceMs?: number;
+  /** a voice this many dB below the candidate's own counts as "background" */
+  backgroundDropDb?: number;
+  /** ms of loud non-speech sound before SUSTAINED_NOISE fires */
+  noiseMs?: number;
+  /** sliding window (ms) of pitch samples used by the MULTIPLE_SPEAKERS heuristic */
+  speakerWindowMs?: number;
+};
+
+const FRAME_MS = 100;
+// Min gap between two events of the same type (same as the video detectors)
+const COOLDOWN_MS = 1500;
+// a voiced stretch survives pauses shorter than this
+const VOICE_HANGOVER_MS = 400;
+// voiced frames needed before the candidate's own level is trusted
+const MIN_PRIMARY_FRAMES = 30;
+// frames this far above the noise floor are "active"
+const VOICE_MARGIN_DB = 10;
+const NOISE_MARGIN_DB = 12;
+// ignore anything quieter than this outright (mic hiss)
+const MIN_LEVEL_DB = -55;
+
+type Frame = { levelDb: number; pitchHz: number | null; speechRatio: number; flatness: number };
+
+const dbOf = (x: number) => 20 * Math.log10(Math.max(x, 1e-8));
+const median = (xs: number[]) => {
+  const s = [...xs].sort((a, b) => a - b);
+  return s.length ? s[Math.floor(s.length / 2)] : 0;
+};
+const round1 = (x: number) => Math.round(x * 10) / 10;
+
+/** Autocorrelation pitch in the 70–400 Hz voice range; null when the frame is not periodic. */
+function estimatePitch(buf: Float32Array, sampleRate: number): number | null {
+  const minLag = Math.floor(sampleRate / 400);
+  const maxLag = Math.min(Math.floor(sampleRate / 70), buf.length - 1);
+  let energy = 0;
+  for (let i = 0; i < buf.length; i++) energy += buf[i] * buf[i];
+  if (energy === 0) return null;
+
+  let best = 0;
+  let bestLag = -1;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let c = 0;
+    for (let i = 0; i + lag < buf.length; i++) c += buf[i] * buf[i + lag];
+    c /= energy;
+    if (c > best) {
+      best = c;
+      bestLag = lag;
+    }
+  }
+  return best > 0.5 && bestLag > 0 ? sampleRate / bestLag : null;
+}
+
+/** Level, speech-band share and spectral flatness (1 = white noise, ~0 = tonal/voiced). */
+function analyse(analyser: AnalyserNode, time: Float32Array<ArrayBuffer>, freq: Float32Array<ArrayBuffer>, sampleRate: number): Frame {
+  analyser.getFloatTimeDomainData(time);
+  analyser.getFloatFrequencyData(freq);
+
+  let sq = 0;
+  for (let i = 0; i < time.length; i++) sq += time[i] * time[i];
+  const levelDb = dbOf(Math.sqrt(sq / time.length));
+
+  const binHz = sampleRate / 2 / freq.length;
+  let total = 0;
+  let speech = 0;
+  let logSum = 0;
+  let n = 0;
+  for (let i = 0; i < freq.length; i++) {
+    const hz = i * binHz;
+    if (hz < 100 || hz > 8000) continue;
+    const p = 10 ** (freq[i] / 10);
+    total += p;
+    if (hz >= 300 && hz <= 3400) speech += p;
+    logSum += Math.log(p + 1e-20);
+    n++;
+  }
+  const flatness = n && total > 0 ? Math.exp(logSum / n) / (total / n) : 1;
+
+  return {
+    levelDb,
+    pitchHz: estimatePitch(time, sampleRate),
+    speechRatio: total > 0 ? speech / total : 0,
+    flatness,
+  };
+}
+
+/**
+ * Two clusters of pitch samples far enough apart to be two people. Octave jumps
+ * (one voice tracked at f and 2f) are ignored, so this stays a heuristic.
+ */
+function twoSpeakers(pitches: number[]): [number, number] | null {
+  if (pitches.length < 20) return null;
+  const s = [...pitches].sort((a, b) => a - b);
+  const minSide = Math.ceil(s.length * 0.3);
+
+  let bestGap = 0;
+  let split = -1;
+  for (let i = minSide; i <= s.length - minSide; i++) {
+    const gap = s[i] / s[i - 1];
+    if (gap > bestGap) {
+      bestGap = gap;
+      split = i;
+    }
+  }
+  if (split < 0) return null;
+
+  const lo = median(s.slice(0, split));
+  const hi = median(s.slice(split));
+  const ratio = hi / lo;
+  if (ratio < 1.35 || Math.abs(ratio - 2) < 0.25) return null;
+  return [Math.round(lo), Math.round(hi)];
+}
+
+/**
+ * On-device voice activity detection on the microphone track (Web Audio).
+ * Returns the current level and whether a voice is heard; nothing leaves the browser.
+ *
+ * Emits (each debounced by persistence + cooldown, like useFaceFocus):
+ *  - BACKGROUND_VOICE   a voice clearly quieter than the candidate's own for `backgroundVoiceMs`
+ *  - MULTIPLE_SPEAKERS  two distinct pitch clusters within `speakerWindowMs` (heuristic)
+ *  - SUSTAINED_NOISE    loud non-speech sound for `noiseMs`
+ * `meta` carries levelDb (dBFS) and durationMs.
+ */
+export function useAudioMonitor({
+  stream,
+  onEvent,
+  backgroundVoiceMs = 2000,
+  backgroundDropDb = 10,
+  noiseMs = 5000,
+  speakerWindowMs = 6000,
+}: Props) {
+  const [levelDb, setLevelDb] = useState(-100);
+  const [voice, setVoice] = useState(false);
+
+  // keep the latest callback without restarting the analyser on every render
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    const track = stream?.getAudioTracks()[0];
+    if (!stream || !track) return;
+
+    const ctx = new AudioContext();
+    void ctx.resume().catch(() => undefined);
+    const source = ctx.createMediaStreamSource(new MediaStream([track]));
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 2048;
+    analyser.smoothingTimeConstant = 0.2;
+    source.connect(analyser);
+
+    const time = new Float32Array(analyser.fftSize);
+    const freq = new Float32Array(analyser.frequencyBinCount);
+
+    let floorDb: number | null = null;
+    // the candidate is the loudest regular voice; tracked with a slow, peak-leaning average
+    let primaryDb: number | null = null;
+    let primaryFrames = 0;
+
+    // current stretches (null = not in one)
+    let bg: { start: number; last: number; levels: number[]; pitches: number[] } | null = null;
+    let noise: { start: number; levels: number[] } | null = null;
+    const pitchWindow: { at: number; hz: number }[] = [];
+    const lastFired: Partial<Record<EventType, number>> = {};
+    let uiAt = 0;
+
+    const fire = (type: EventType, now: number, meta: Record<string, unknown>) => {
+      if (now - (lastFired[type] ?? 0) < COOLDOWN_MS) return false;
+      lastFired[type] = now;
+      onEventRef.current?.(type, { source: "web-audio-vad", ...meta });
+      return true;
+    };
+
+    const tick = () => {
+      const now = performance.now();
+      const f = analyse(analyser, time, freq, ctx.sampleRate);
+
+      // noise floor: follows drops at once, creeps up slowly (~0.5 dB/s)
+      floorDb = floorDb === null ? f.levelDb : Math.min(f.levelDb, floorDb + 0.05);
+
+      const loud = f.levelDb > MIN_LEVEL_DB;
+      const isVoice =
+        loud && f.levelDb > floorDb + VOICE_MARGIN_DB && f.pitchHz !== null && f.speechRatio > 0.6 && f.flatness < 0.35;
+      const isNoise = loud && !isVoice && f.levelDb > floorDb + NOISE_MARGIN_DB;
+
+      // --- the candidate's own level ---
+      if (isVoice) {
+        primaryFrames++;
+        primaryDb =
+          primaryDb === null
+            ? f.levelDb
+            : f.levelDb > primaryDb
+              ? primaryDb * 0.9 + f.levelDb * 0.1
+              : primaryDb * 0.995 + f.levelDb * 0.005;
+      }
+
+      // --- background voice: voiced but well below the candidate ---
+      const quieter =
+        isVoice && primaryDb !== null && primaryFrames >= MIN_PRIMARY_FRAMES && f.levelDb < primaryDb - backgroundDropDb;
+      if (quieter) {
+        bg ??= { start: now, last: now, levels: [], pitches: [] };
+        bg.last = now;
+        bg.levels.push(f.levelDb);
+        if (f.pitchHz) bg.pitches.push(f.pitchHz);
+      }
+      if (bg && now - bg.last > VOICE_HANGOVER_MS) bg = null;
+      if (bg) {
+        const dur = bg.last - bg.start;
+        if (
+          dur >= backgroundVoiceMs &&
+          fire("BACKGROUND_VOICE", now, {
+            durationMs: Math.round(dur),
+            levelDb: round1(median(bg.levels)),
+            primaryDb: round1(primaryDb ?? 0),
+            pitchHz: Math.round(median(bg.pitches)),
+          })
+        ) {
+          bg = null; // re-arm: next event after another full stretch
+        }
+      }
+
+      // --- multiple speakers: two pitch clusters in the recent window ---
+      if (isVoice && f.pitchHz) pitchWindow.push({ at: now, hz: f.pitchHz });
+      while (pitchWindow.length && now - pitchWindow[0].at > speakerWindowMs) pitchWindow.shift();
+      const clusters = twoSpeakers(pitchWindow.map((p) => p.hz));
+      if (
+        clusters &&
+        fire("MULTIPLE_SPEAKERS", now, {
+          durationMs: Math.round(now - pitchWindow[0].at),
+          levelDb: round1(f.levelDb),
+          pitchesHz: clusters,
+        })
+      ) {
+        pitchWindow.length = 0; // one event per window of evidence
+      }
+
+      // --- sustained noise ---
+      if (isNoise) {
+        noise ??= { start: now, levels: [] };
+        noise.levels.push(f.levelDb);
+        const dur = now - noise.start;
+        if (
+          dur >= noiseMs &&
+          fire("SUSTAINED_NOISE", now, {
+            durationMs: Math.round(dur),
+            levelDb: round1(median(noise.levels)),
+            floorDb: round1(floorDb),
+          })
+        ) {
+          noise = { start: now, levels: [] };
+        }
+      } else if (!isVoice) {
+        noise = null; // speech over the noise keeps the stretch open
+      }
+
+      if (now - uiAt > 250) {
+        uiAt = now;
+        setLevelDb(round1(f.levelDb));
+        setVoice(isVoice);
+      }
+    };
+
+    // a timer rather than requestAnimationFrame so analysis continues in a background tab
+    const iv = setInterval(tick, FRAME_MS);
+
+    return () => {
+      clearInterval(iv);
+      source.disconnect();
+      void ctx.close().catch(() => undefined);
+    };
+  }, [stream, backgroundVoiceMs, backgroundDropDb, noiseMs, speakerWindowMs]);
+
+  return { levelDb, voice };
+}
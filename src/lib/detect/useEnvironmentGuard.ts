@@ -0,0 +1,173 @@
+// src/lib/detect/useEnvironmentGuard.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { EventType } from "@/lib/types";
+
+type Props = {
+  /** only watch while the interview is running */
+  active: boolean;
+  onEvent?: (t: EventType, meta?: Record<string, unknown>) => void;
+  /** leaving fullscreen counts as FULLSCREEN_EXIT (and the page should prompt to return) */
+  requireFullscreen?: boolean;
+  /** blur / fullscreen / devtools episodes shorter than this are ignored (permission prompts, IME popups) */
+  minEpisodeMs?: number;
+};
+
+type Episode = "TAB_HIDDEN" | "WINDOW_BLUR" | "FULLSCREEN_EXIT" | "DEVTOOLS_SUSPECTED";
+
+// docked devtools widen the gap between outer and inner window size by at least this much
+// beyond what it was at the start (side panels, tall toolbars)
+const DEVTOOLS_GAP_PX = 160;
+const DEVTOOLS_POLL_MS = 1000;
+
+function devtoolsShortcut(e: KeyboardEvent): boolean {
+  if (e.key === "F12") return true;
+  const k = e.key.toUpperCase();
+  const mod = (e.ctrlKey && e.shiftKey) || (e.metaKey && e.altKey);
+  return mod && (k === "I" || k === "J" || k === "C");
+}
+
+/**
+ * Watches the browser around the interview: tab switches, window focus,
+ * fullscreen, clipboard use and signs of open developer tools.
+ *
+ * Episodes (TAB_HIDDEN, WINDOW_BLUR, FULLSCREEN_EXIT, DEVTOOLS_SUSPECTED) are
+ * emitted when they end, with meta.durationMs; COPY_PASTE is emitted at once.
+ * Open episodes are flushed when the guard stops (Stop, unmount).
+ */
+export function useEnvironmentGuard({ active, onEvent, requireFullscreen = false, minEpisodeMs = 1000 }: Props) {
+  const [fullscreen, setFullscreen] = useState(false);
+
+  // keep the latest callback without re-binding listeners on every render
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    const sync = () => setFullscreen(document.fullscreenElement != null);
+    sync();
+    document.addEventListener("fullscreenchange", sync);
+    return () => document.removeEventListener("fullscreenchange", sync);
+  }, []);
+
+  useEffect(() => {
+    if (!active) return;
+
+    const open: Partial<Record<Episode, { start: number; meta: Record<string, unknown> }>> = {};
+    const emit = (type: EventType, meta: Record<string, unknown>) =>
+      onEventRef.current?.(type, { source: "browser", ...meta });
+
+    const begin = (type: Episode, meta: Record<string, unknown> = {}) => {
+      open[type] ??= { start: performance.now(), meta };
+    };
+    const end = (type: Episode, minMs = 0) => {
+      const ep = open[type];
+      if (!ep) return;
+      delete open[type];
+      const dur = performance.now() - ep.start;
+      if (dur >= minMs) emit(type, { ...ep.meta, durationMs: Math.round(dur) });
+    };
+
+    // --- tab switch / minimise ---
+    const onVisibility = () => {
+      if (document.visibilityState === "hidden") {
+        end("WINDOW_BLUR", minEpisodeMs); // the tab episode covers it from here
+        begin("TAB_HIDDEN");
+      } else {
+        end("TAB_HIDDEN");
+      }
+    };
+
+    // --- focus moved to another window (tab still visible) ---
+    const onBlur = () => {
+      if (document.visibilityState === "visible") begin("WINDOW_BLUR");
+    };
+    const onFocus = () => end("WINDOW_BLUR", minEpisodeMs);
+
+    // --- fullscreen ---
+    const onFullscreen = () => {
+      if (!requireFullscreen) return;
+      if (document.fullscreenElement) end("FULLSCREEN_EXIT", minEpisodeMs);
+      else begin("FULLSCREEN_EXIT");
+    };
+
+    // --- clipboard (never the content, only its size) ---
+    const onClipboard = (e: ClipboardEvent) => {
+      const text = e.type === "paste" ? e.clipboardData?.getData("text") ?? "" : String(window.getSelection() ?? "");
+      emit("COPY_PASTE", { action: e.type, chars: text.length, durationMs: 0 });
+    };
+
+    // --- developer tools: shortcuts, and a docked panel shrinking the viewport ---
+    // The viewport gap alone is not evidence: zoom, side panels and toolbars open it too.
+    // It is compared with the gap at the start (re-taken whenever devicePixelRatio shows a
+    // zoom change), and only counts once a devtools shortcut was pressed.
+    let shortcutSeen = false;
+    const gap = () => ({
+      zoom: window.devicePixelRatio || 1,
+      w: window.outerWidth - window.innerWidth,
+      h: window.outerHeight - window.innerHeight,
+    });
+    let baseline = gap();
+    const onKey = (e: KeyboardEvent) => {
+      if (!devtoolsShortcut(e)) return;
+      shortcutSeen = true;
+      emit("DEVTOOLS_SUSPECTED", { trigger: "shortcut", key: e.key, durationMs: 0 });
+    };
+    const checkDocked = () => {
+      const now = gap();
+      if (now.zoom !== baseline.zoom) {
+        baseline = now; // zooming resizes the viewport; it is not a panel
+        return end("DEVTOOLS_SUSPECTED", minEpisodeMs);
+      }
+      const grew = Math.max(now.w - baseline.w, now.h - baseline.h);
+      if (shortcutSeen && grew > DEVTOOLS_GAP_PX) {
+        begin("DEVTOOLS_SUSPECTED", { trigger: "viewport", gapPx: Math.round(grew) });
+      } else {
+        end("DEVTOOLS_SUSPECTED", minEpisodeMs);
+      }
+    };
+
+    // an exit that happened before Start still counts once the interview is running
+    if (requireFullscreen && !document.fullscreenElement) begin("FULLSCREEN_EXIT");
+    checkDocked();
+
+    document.addEventListener("visibilitychange", onVisibility);
+    window.addEventListener("blur", onBlur);
+    window.addEventListener("focus", onFocus);
+    document.addEventListener("fullscreenchange", onFullscreen);
+    document.addEventListener("copy", onClipboard);
+    document.addEventListener("cut", onClipboard);
+    document.addEventListener("paste", onClipboard);
+    window.addEventListener("keydown", onKey);
+    const iv = setInterval(checkDocked, DEVTOOLS_POLL_MS);
+
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibility);
+      window.removeEventListener("blur", onBlur);
+      window.removeEventListener("focus", onFocus);
+      document.removeEventListener("fullscreenchange", onFullscreen);
+      document.removeEventListener("copy", onClipboard);
+      document.removeEventListener("cut", onClipboard);
+      document.removeEventListener("paste", onClipboard);
+      window.removeEventListener("keydown", onKey);
+      clearInterval(iv);
+      end("TAB_HIDDEN");
+      end("WINDOW_BLUR", minEpisodeMs);
+      end("FULLSCREEN_EXIT", minEpisodeMs);
+      end("DEVTOOLS_SUSPECTED", minEpisodeMs);
+    };
+  }, [active, requireFullscreen, minEpisodeMs]);
+
+  /** Must run inside a user gesture (click). */
+  const enterFullscreen = useCallback(async () => {
+    if (document.fullscreenElement) return true;
+    try {
+      await document.documentElement.requestFullscreen();
+      return true;
+    } catch {
+      return false;
+    }
+  }, []);
+
+  return { fullscreen, enterFullscreen };
+}
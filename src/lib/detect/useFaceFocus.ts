@@ -1,31 +1,147 @@
 import { useEffect, useRef, useState } from "react";
-import type { EventType } from "@/lib/types";
+import type { EventType, FocusBaseline, FocusStatus } from "@/lib/types";
 import {
   FaceLandmarker,
   FilesetResolver,
   type FaceLandmarkerResult,
+  type NormalizedLandmark,
 } from "@mediapipe/tasks-vision";
+import { faceSignature } from "@/lib/detect/faceSignature";
 
 type Props = {
   video: HTMLVideoElement | null;
   canvas: HTMLCanvasElement | null;
   onEvent?: (t: EventType, meta?: Record<string, unknown>) => void;
+  /** ms of looking away before FOCUS_LOST_5S fires */
+  focusLostMs?: number;
+  /** ms without any face before NO_FACE_10S fires */
+  noFaceMs?: number;
+  /** ms that 2+ faces must persist before MULTIPLE_FACES fires */
+  multipleFacesMs?: number;
+  /** head turned further than this (degrees) counts as "away" */
+  maxYawDeg?: number;
+  maxPitchDeg?: number;
+  /** calibration from the system check: angles are measured from this pose, size against this face */
+  baseline?: FocusBaseline | null;
+  /** a face smaller than this share of the baseline size counts as "away" (leaned back, left the desk) */
+  minFaceScale?: number;
+  /** every analysed frame (system check calibration, identity re-matching) */
+  onSample?: (s: FaceSample) => void;
 };
 
-type Status = "idle" | "focused" | "away";
+type Status = FocusStatus;
+
+type Pose = { yaw: number; pitch: number };
+
+/** Primary face of one frame; size and centre are fractions of the frame. */
+export type FaceSample = {
+  faces: number;
+  pose: Pose | null;
+  faceSize: number | null;
+  center: { x: number; y: number } | null;
+  /** face geometry for identity re-matching */
+  signature: number[] | null;
+};
+
+// Face mesh indices: outer eye corners, forehead, chin
+const LEFT_EYE = 33;
+const RIGHT_EYE = 263;
+const FOREHEAD = 10;
+const CHIN = 152;
+
+// Min gap between two events of the same type (same as object detection)
+const COOLDOWN_MS = 1500;
+
+/**
+ * Rough head pose from the 3D face mesh.
+ * Yaw: rotation of the eye-to-eye vector in the x/z plane.
+ * Pitch: rotation of the forehead-to-chin vector in the y/z plane.
+ * MediaPipe z is on the same scale as x, so everything is projected to pixels first.
+ */
+function estimatePose(lmks: NormalizedLandmark[], w: number, h: number): Pose | null {
+  const le = lmks[LEFT_EYE];
+  const re = lmks[RIGHT_EYE];
+  const top = lmks[FOREHEAD];
+  const bottom = lmks[CHIN];
+  if (!le || !re || !top || !bottom) return null;
+
+  const deg = (r: number) => (r * 180) / Math.PI;
+  const yaw = deg(Math.atan2((re.z - le.z) * w, (re.x - le.x) * w));
+  const pitch = deg(Math.atan2((bottom.z - top.z) * w, (bottom.y - top.y) * h));
+  return { yaw, pitch };
+}
+
+/** Width and centre of the landmark bounding box, normalised to the frame. */
+function faceBox(lmks: NormalizedLandmark[]) {
+  let minX = 1, maxX = 0, minY = 1, maxY = 0;
+  for (const p of lmks) {
+    if (p.x < minX) minX = p.x;
+    if (p.x > maxX) maxX = p.x;
+    if (p.y < minY) minY = p.y;
+    if (p.y > maxY) maxY = p.y;
+  }
+  return { size: Math.max(0, maxX - minX), center: { x: (minX + maxX) / 2, y: (minY + maxY) / 2 } };
+}
 
 /**
  * Lightweight face/focus detector using MediaPipe Tasks Vision (WebAssembly).
- * Returns a status + number of faces and draws overlays on the provided canvas.
+ * Returns a status + number of faces (plus model readiness) and draws overlays on the provided canvas.
+ * With a `baseline`, head angles are relative to the candidate's calibrated neutral pose.
+ *
+ * Emits (each debounced by persistence + cooldown, like useObjectDetect):
+ *  - FOCUS_LOST_5S   once per `focusLostMs` of continuously looking away
+ *  - NO_FACE_10S     once per `noFaceMs` with no face in frame
+ *  - MULTIPLE_FACES  once 2+ faces persist for `multipleFacesMs`
  */
-export function useFaceFocus({ video, canvas, onEvent }: Props) {
+export function useFaceFocus({
+  video,
+  canvas,
+  onEvent,
+  focusLostMs = 5000,
+  noFaceMs = 10000,
+  multipleFacesMs = 1000,
+  maxYawDeg = 30,
+  maxPitchDeg = 25,
+  baseline = null,
+  minFaceScale = 0.5,
+  onSample,
+}: Props) {
   const landmarkerRef = useRef<FaceLandmarker | null>(null);
   const [status, setStatus] = useState<Status>("idle");
   const [faces, setFaces] = useState(0);
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // keep the latest callbacks without restarting the detector on every render
+  const onEventRef = useRef(onEvent);
+  const onSampleRef = useRef(onSample);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+    onSampleRef.current = onSample;
+  }, [onEvent, onSample]);
+
+  const baseYaw = baseline?.yaw ?? 0;
+  const basePitch = baseline?.pitch ?? 0;
+  const baseSize = baseline?.faceSize ?? 0;
 
   useEffect(() => {
     let cancelled = false;
 
+    // start time of each condition (null = not currently true)
+    const since: Record<"away" | "noFace" | "multi", number | null> = {
+      away: null,
+      noFace: null,
+      multi: null,
+    };
+    const lastFired: Partial<Record<EventType, number>> = {};
+
+    const fire = (type: EventType, now: number, meta: Record<string, unknown>) => {
+      if (now - (lastFired[type] ?? 0) < COOLDOWN_MS) return false;
+      lastFired[type] = now;
+      onEventRef.current?.(type, { source: "mediapipe-face-landmarker", ...meta });
+      return true;
+    };
+
     async function createWithFallback(): Promise<FaceLandmarker> {
       // Try local .task first, then CDN
       const fileset = await FilesetResolver.forVisionTasks(
@@ -55,7 +171,13 @@ export function useFaceFocus({ video, canvas, onEvent }: Props) {
     (async () => {
       if (!video || !canvas) return;
 
-      const lm = await createWithFallback();
+      let lm: FaceLandmarker;
+      try {
+        lm = await createWithFallback();
+      } catch (e) {
+        if (!cancelled) setError((e as Error).message || "face model failed to load");
+        return;
+      }
       if (cancelled) {
         // ensure cleanup if effect already unmounted
         try {
@@ -66,6 +188,8 @@ export function useFaceFocus({ video, canvas, onEvent }: Props) {
         return;
       }
       landmarkerRef.current = lm;
+      setReady(true);
+      setError(null);
 
       const ctx = canvas.getContext("2d");
       if (!ctx) return;
@@ -87,13 +211,70 @@ export function useFaceFocus({ video, canvas, onEvent }: Props) {
         const n = res?.faceLandmarks?.length ?? 0;
         setFaces(n);
 
-        // simple status: face present => focused; if not, idle/away
-        setStatus(n > 0 ? "focused" : "idle");
+        // head pose of the primary face decides focused vs away
+        const w = video.videoWidth || canvas.width;
+        const h = video.videoHeight || canvas.height;
+        const raw = n > 0 ? estimatePose(res.faceLandmarks[0], w, h) : null;
+        const box = n > 0 ? faceBox(res.faceLandmarks[0]) : null;
+        onSampleRef.current?.({
+          faces: n,
+          pose: raw,
+          faceSize: box?.size ?? null,
+          center: box?.center ?? null,
+          signature: n > 0 ? faceSignature(res.faceLandmarks[0], w, h) : null,
+        });
+
+        const pose = raw && { yaw: raw.yaw - baseYaw, pitch: raw.pitch - basePitch };
+        const tooSmall = box != null && baseSize > 0 && box.size < baseSize * minFaceScale;
+        const away =
+          tooSmall || (pose != null && (Math.abs(pose.yaw) > maxYawDeg || Math.abs(pose.pitch) > maxPitchDeg));
+        setStatus(n === 0 ? "idle" : away ? "away" : "focused");
+
+        const yawPitch = pose
+          ? {
+              yaw: Math.round(pose.yaw * 10) / 10,
+              pitch: Math.round(pose.pitch * 10) / 10,
+              ...(tooSmall && { faceScale: Math.round((box.size / baseSize) * 100) / 100 }),
+            }
+          : {};
+
+        // --- looking away ---
+        if (away) {
+          since.away ??= now;
+          const dur = now - since.away;
+          if (dur >= focusLostMs && fire("FOCUS_LOST_5S", now, { durationMs: Math.round(dur), ...yawPitch, faces: n })) {
+            since.away = now; // re-arm: next event after another full window
+          }
+        } else {
+          since.away = null;
+        }
+
+        // --- no face ---
+        if (n === 0) {
+          since.noFace ??= now;
+          const dur = now - since.noFace;
+          if (dur >= noFaceMs && fire("NO_FACE_10S", now, { durationMs: Math.round(dur), faces: 0 })) {
+            since.noFace = now;
+          }
+        } else {
+          since.noFace = null;
+        }
+
+        // --- multiple faces (one event per episode) ---
+        if (n > 1) {
+          since.multi ??= now;
+          const dur = now - since.multi;
+          if (dur >= multipleFacesMs && fire("MULTIPLE_FACES", now, { durationMs: Math.round(dur), ...yawPitch, faces: n })) {
+            since.multi = Infinity; // dur goes negative: no re-fire until faces drop back to one
+          }
+        } else {
+          since.multi = null;
+        }
 
         // clear & draw basic overlay (optional)
         ctx.clearRect(0, 0, canvas.width, canvas.height);
         if (n > 0 && res?.faceLandmarks) {
-          ctx.strokeStyle = "rgba(97,218,251,0.9)";
+          ctx.strokeStyle = away ? "rgba(246,173,85,0.9)" : "rgba(97,218,251,0.9)";
           ctx.lineWidth = 2;
           for (const lmks of res.faceLandmarks) {
             // draw a tiny box around nose tip-ish if available
@@ -122,7 +303,7 @@ export function useFaceFocus({ video, canvas, onEvent }: Props) {
         /* ignore */
       }
     };
-  }, [video, canvas, onEvent]);
+  }, [video, canvas, focusLostMs, noFaceMs, multipleFacesMs, maxYawDeg, maxPitchDeg, baseYaw, basePitch, baseSize, minFaceScale]);
 
-  return { status, faces };
+  return { status, faces, ready, error };
 }
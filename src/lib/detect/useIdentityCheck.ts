@@ -0,0 +1,115 @@
+// src/lib/detect/useIdentityCheck.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { EventType } from "@/lib/types";
+import type { FaceSample } from "@/lib/detect/useFaceFocus";
+import { medianSignature, signatureSimilarity } from "@/lib/detect/faceSignature";
+
+type Props = {
+  /** signature of the reference selfie; null until one is enrolled */
+  reference: number[] | null;
+  /** only re-match (and emit) while true, e.g. while recording */
+  active: boolean;
+  onEvent?: (t: EventType, meta?: Record<string, unknown>) => void;
+  /** every completed re-match, e.g. to report it in the heartbeat */
+  onCheck?: (similarity: number) => void;
+  /** ms between re-matches */
+  intervalMs?: number;
+  /** similarity below this counts as a different face */
+  threshold?: number;
+  /** re-matches in a row below the threshold before IDENTITY_MISMATCH fires */
+  consecutive?: number;
+};
+
+// frames of one window needed for a re-match
+const MIN_SAMPLES = 5;
+// newest frames kept while waiting for a reference (enrolment)
+const MAX_WINDOW = 300;
+// only near-frontal frames are compared; steep turns distort the geometry
+const MAX_ANGLE_DEG = 20;
+// repeat the event this often while the mismatch lasts
+const REPEAT_MS = 60000;
+
+/** A frame clear enough to compare: one face, roughly frontal. */
+export const isMatchable = (s: FaceSample) =>
+  s.faces === 1 &&
+  s.signature != null &&
+  s.pose != null &&
+  Math.abs(s.pose.yaw) <= MAX_ANGLE_DEG &&
+  Math.abs(s.pose.pitch) <= MAX_ANGLE_DEG;
+
+/**
+ * Re-matches the live face against the reference selfie every `intervalMs`,
+ * using the median signature of the frontal single-face frames seen since the
+ * last check. Feed it frames through the returned `onSample` (useFaceFocus).
+ */
+export function useIdentityCheck({
+  reference,
+  active,
+  onEvent,
+  onCheck,
+  intervalMs = 10000,
+  threshold = 0.6,
+  consecutive = 2,
+}: Props) {
+  const [similarity, setSimilarity] = useState<number | null>(null);
+  const windowRef = useRef<number[][]>([]);
+
+  const onEventRef = useRef(onEvent);
+  const onCheckRef = useRef(onCheck);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+    onCheckRef.current = onCheck;
+  }, [onEvent, onCheck]);
+
+  const onSample = useCallback((s: FaceSample) => {
+    if (!isMatchable(s)) return;
+    const w = windowRef.current;
+    w.push(s.signature!);
+    if (w.length > MAX_WINDOW) w.shift();
+  }, []);
+
+  /** Median signature of the frames collected so far in this window (for enrolment); null if too few. */
+  const currentSignature = useCallback(
+    () => (windowRef.current.length >= MIN_SAMPLES ? medianSignature(windowRef.current) : null),
+    []
+  );
+
+  useEffect(() => {
+    windowRef.current = [];
+    if (!active || !reference) return;
+    let lowRuns = 0;
+    let lowSince = 0;
+    let lastFired = 0;
+
+    const iv = setInterval(() => {
+      const frames = windowRef.current;
+      windowRef.current = [];
+      const sig = frames.length >= MIN_SAMPLES ? medianSignature(frames) : null;
+      if (!sig) return; // no clear view of one face: the focus detector covers that
+
+      const sim = signatureSimilarity(sig, reference);
+      setSimilarity(sim);
+      onCheckRef.current?.(sim);
+
+      if (sim >= threshold) {
+        lowRuns = 0;
+        return;
+      }
+      const now = Date.now();
+      if (lowRuns++ === 0) lowSince = now;
+      if (lowRuns >= consecutive && now - lastFired >= REPEAT_MS) {
+        lastFired = now;
+        onEventRef.current?.("IDENTITY_MISMATCH", {
+          similarity: sim,
+          threshold,
+          samples: frames.length,
+          durationMs: now - lowSince + intervalMs,
+        });
+      }
+    }, intervalMs);
+
+    return () => clearInterval(iv);
+  }, [active, reference, intervalMs, threshold, consecutive]);
+
+  return { onSample, similarity, currentSignature };
+}
@@ -1,31 +1,65 @@
 // src/lib/detect/useObjectDetect.ts
-import { useEffect, useMemo, useRef } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import type { EventType } from "@/lib/types";
 
 type Props = {
   video: HTMLVideoElement | null;
   canvas: HTMLCanvasElement | null;
   onEvent?: (type: EventType, meta?: Record<string, unknown>) => void;
+  /** COCO-SSD label -> event overrides; map a label to null to ignore it */
+  classMap?: Record<string, EventType | null>;
+  /** keyed by event type, merged over the defaults below */
   perClassMinConfidence?: Record<string, number>;
   perClassPersistMs?: Record<string, number>;
   draw?: boolean;
 };
 
-const CLASS_TO_EVENT: Record<string, EventType> = {
+/** Default COCO-SSD label -> event mapping (labels not listed are ignored). */
+export const DEFAULT_CLASS_TO_EVENT: Record<string, EventType> = {
   "cell phone": "PHONE_DETECTED",
+  book: "BOOK_DETECTED",
+  laptop: "EXTRA_DEVICE",
+  remote: "EXTRA_DEVICE",
 };
 
-const DEFAULT_MIN_CONF: Record<string, number> = { PHONE_DETECTED: 0.7 };
-const DEFAULT_PERSIST_MS: Record<string, number> = { PHONE_DETECTED: 800 };
+/**
+ * Peripherals an ordinary desktop setup shows (a monitor is COCO "tv"); opt in
+ * with `classMap={DESK_PERIPHERALS}` where the candidate should have none.
+ */
+export const DESK_PERIPHERALS: Record<string, EventType> = {
+  keyboard: "EXTRA_DEVICE",
+  mouse: "EXTRA_DEVICE",
+  tv: "EXTRA_DEVICE",
+};
+
+const DEFAULT_MIN_CONF: Record<string, number> = {
+  PHONE_DETECTED: 0.7,
+  BOOK_DETECTED: 0.6,
+  EXTRA_DEVICE: 0.65,
+};
+const DEFAULT_PERSIST_MS: Record<string, number> = {
+  PHONE_DETECTED: 800,
+  BOOK_DETECTED: 1500,
+  EXTRA_DEVICE: 2000,
+};
 
 export function useObjectDetect({
   video,
   canvas,
   onEvent,
+  classMap,
   perClassMinConfidence,
   perClassPersistMs,
   draw = true,
 }: Props) {
+  const classToEvent = useMemo(() => {
+    const m: Record<string, EventType> = { ...DEFAULT_CLASS_TO_EVENT };
+    for (const [label, evt] of Object.entries(classMap ?? {})) {
+      if (evt) m[label] = evt;
+      else delete m[label];
+    }
+    return m;
+  }, [classMap]);
   const minConf = useMemo(
     () => ({ ...DEFAULT_MIN_CONF, ...(perClassMinConfidence ?? {}) }),
     [perClassMinConfidence]
@@ -40,6 +74,15 @@ export function useObjectDetect({
     predict: ((video: HTMLVideoElement) => Promise<DetectedObject[]>) | null;
   }>({ model: null, predict: null });
 
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // keep the latest callback without restarting the detection loop on every render
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
   const firstAboveRef = useRef<Record<EventType, number>>({} as Record<EventType, number>);
   const lastFiredRef = useRef<Record<EventType, number>>({} as Record<EventType, number>);
 
@@ -86,9 +129,15 @@ export function useObjectDetect({
           score: r.score,
         }));
       };
+      setReady(true);
+      setError(null);
     }
 
-    if (video && canvas && !modelRef.current.model) loadModel();
+    if (video && canvas && !modelRef.current.model) {
+      loadModel().catch((e) => {
+        if (!cancelled) setError((e as Error).message || "object model failed to load");
+      });
+    }
 
     return () => {
       cancelled = true;
@@ -138,7 +187,7 @@ export function useObjectDetect({
       const presentThisFrame = new Set<EventType>();
 
       for (const d of dets) {
-        const evt = CLASS_TO_EVENT[d.class];
+        const evt = classToEvent[d.class];
         if (!evt) continue;
 
         const conf = d.score ?? 0;
@@ -164,7 +213,7 @@ export function useObjectDetect({
 
         if (persisted >= needMs && now - last >= 1500) {
           lastFiredRef.current[evt] = now;
-          onEvent?.(evt, {
+          onEventRef.current?.(evt, {
             source: "coco-ssd (lite_mobilenet_v2)",
             label: d.class,
             score: d.score ?? 0,
@@ -176,7 +225,7 @@ export function useObjectDetect({
       }
 
       // reset persistence for classes not present
-      for (const key of Object.values(CLASS_TO_EVENT)) {
+      for (const key of Object.values(classToEvent)) {
         if (!presentThisFrame.has(key)) delete firstAboveRef.current[key];
       }
 
@@ -188,7 +237,9 @@ export function useObjectDetect({
       running = false;
       cancelAnimationFrame(raf);
     };
-  }, [video, canvas, onEvent, minConf, persistMs, draw]);
+  }, [video, canvas, classToEvent, minConf, persistMs, draw]);
+
+  return { ready, error };
 }
 
 type DetectedObject = {
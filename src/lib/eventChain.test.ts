@@ -0,0 +1,105 @@
+import type { Db } from "mongodb";
+import { describe, expect, it } from "vitest";
+import { GENESIS_HASH, hashEvent, verifyChain } from "@/lib/eventChain";
+import type { ProctorEventDB } from "@/lib/types";
+
+const INTERVIEW = "64b000000000000000000001";
+
+/** A valid chain of `n` events. */
+function chain(n: number): ProctorEventDB[] {
+  const out: ProctorEventDB[] = [];
+  let prevHash = GENESIS_HASH;
+  for (let seq = 0; seq < n; seq++) {
+    const e: ProctorEventDB = {
+      interviewId: INTERVIEW,
+      eventId: `e${seq}`,
+      seq,
+      t: seq * 1000,
+      type: "TAB_HIDDEN",
+      createdAt: new Date(seq * 1000).toISOString(),
+      receivedAt: new Date(10_000 + seq * 1000).toISOString(),
+      prevHash,
+    };
+    e.hash = hashEvent(e, prevHash);
+    prevHash = e.hash;
+    out.push(e);
+  }
+  return out;
+}
+
+/** Just enough of Db for verifyChain: seq-sorted chained events and a count of legacy ones. */
+function fakeDb(events: ProctorEventDB[]): Db {
+  const chained = () => events.filter((e) => e.seq !== undefined).sort((a, b) => a.seq! - b.seq!);
+  return {
+    collection: () => ({
+      find: () => chained()[Symbol.iterator](),
+      countDocuments: async () => events.filter((e) => e.seq === undefined).length,
+    }),
+  } as unknown as Db;
+}
+
+const verify = (events: ProctorEventDB[], head = events.at(-1)) =>
+  verifyChain(fakeDb(events), { _id: INTERVIEW, chainHead: head && { seq: head.seq!, hash: head.hash! } });
+
+describe("hashEvent", () => {
+  it("ignores key order and null members", () => {
+    const [e] = chain(1);
+    const reordered = { hash: e.hash, confidence: undefined, ...e } as ProctorEventDB;
+    expect(hashEvent(reordered, GENESIS_HASH)).toBe(e.hash);
+  });
+
+  it("depends on the previous hash", () => {
+    const [e] = chain(1);
+    expect(hashEvent(e, "f".repeat(64))).not.toBe(e.hash);
+  });
+});
+
+describe("verifyChain", () => {
+  it("verifies an intact chain and counts unchained legacy events", async () => {
+    const legacy: ProctorEventDB = { interviewId: INTERVIEW, t: 0, type: "TAB_HIDDEN", createdAt: "2024-01-01T00:00:00.000Z" };
+    const report = await verify([...chain(3), legacy], chain(3)[2]);
+    expect(report).toMatchObject({ status: "verified", events: 3, unchained: 1, issues: [] });
+    expect(report.head?.seq).toBe(2);
+  });
+
+  it("reports an empty log", async () => {
+    expect((await verify([])).status).toBe("empty");
+  });
+
+  it("catches an edited event", async () => {
+    const events = chain(3);
+    events[1] = { ...events[1], type: "PHONE_DETECTED" };
+    const report = await verify(events);
+    expect(report.status).toBe("broken");
+    expect(report.issues).toEqual([expect.objectContaining({ seq: 1, kind: "edited" })]);
+  });
+
+  it("catches a deleted event as a gap and a broken link", async () => {
+    const events = chain(4);
+    const report = await verify([events[0], events[2], events[3]]);
+    expect(report.issues.map((i) => [i.seq, i.kind])).toEqual([[2, "gap"]]);
+    expect(report.issues[0].message).toBe("seq 1 missing");
+  });
+
+  it("catches a re-linked chain whose prevHash no longer matches", async () => {
+    const events = chain(3);
+    events[2] = { ...events[2], prevHash: events[0].hash };
+    events[2].hash = hashEvent(events[2], events[2].prevHash!);
+    const report = await verify(events);
+    expect(report.issues.map((i) => i.kind)).toEqual(["broken_link"]);
+  });
+
+  it("catches a truncated tail against the recorded head", async () => {
+    const events = chain(3);
+    const report = await verify(events.slice(0, 2), events[2]);
+    expect(report.issues).toEqual([expect.objectContaining({ seq: 2, kind: "gap" })]);
+  });
+
+  it("catches events received out of order", async () => {
+    const events = chain(2);
+    events[1] = { ...events[1], receivedAt: "1970-01-01T00:00:05.000Z" };
+    events[1].hash = hashEvent(events[1], events[1].prevHash!);
+    const report = await verify(events);
+    expect(report.issues.map((i) => i.kind)).toEqual(["reordered"]);
+  });
+});
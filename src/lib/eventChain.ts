@@ -0,0 +1,200 @@
+// src/lib/eventChain.ts
+// Append-only, hash-chained event log per interview. Every stored event gets a
+// server receive time, a 0-based `seq` and hash = sha256(prevHash + event), so
+// deleting, reordering or editing stored events is caught by verifyChain().
+import { createHash } from "node:crypto";
+import { MongoBulkWriteError, type Db } from "mongodb";
+import { indexesOnce } from "@/lib/mongo";
+import type { InterviewDoc } from "@/lib/reportData";
+import type { ProctorEventDB } from "@/lib/types";
+
+export const GENESIS_HASH = "0".repeat(64);
+const MAX_APPEND_ATTEMPTS = 5;
+
+/** An event as validated by the API, before the server stamps it. */
+export type UnchainedEvent = Omit<ProctorEventDB, "_id" | "interviewId" | "seq" | "receivedAt" | "prevHash" | "hash"> & {
+  eventId: string;
+};
+
+export type ChainHead = { seq: number; hash: string };
+
+export type ChainIssue = {
+  seq: number;
+  kind: "gap" | "reordered" | "edited" | "broken_link";
+  message: string;
+};
+
+export type ChainReport = {
+  status: "verified" | "broken" | "empty";
+  events: number;                    // chained events checked
+  unchained: number;                 // stored before chaining existed; not covered
+  head: ChainHead | null;
+  issues: ChainIssue[];
+};
+
+/** Thrown when concurrent writers kept taking the next seq. */
+export class ChainBusyError extends Error {}
+
+/** JSON with sorted keys; null/undefined members are dropped (Mongo stores undefined as null). */
+function canonical(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(canonical).join(",")}]`;
+  if (v && typeof v === "object") {
+    const o = v as Record<string, unknown>;
+    const keys = Object.keys(o).filter((k) => o[k] != null).sort();
+    return `{${keys.map((k) => `${JSON.stringify(k)}:${canonical(o[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(v) ?? "null";
+}
+
+export function hashEvent(e: ProctorEventDB, prevHash: string): string {
+  const body = canonical({
+    interviewId: e.interviewId,
+    seq: e.seq,
+    eventId: e.eventId,
+    t: e.t,
+    type: e.type,
+    confidence: e.confidence,
+    meta: e.meta,
+    createdAt: e.createdAt,
+    receivedAt: e.receivedAt,
+  });
+  return createHash("sha256").update(`${prevHash}\n${body}`).digest("hex");
+}
+
+function events(db: Db) {
+  return db.collection<ProctorEventDB>("events");
+}
+
+export const ensureEventIndexes = indexesOnce(async (db: Db) => {
+  const col = events(db);
+  await col.createIndex(
+    { interviewId: 1, eventId: 1 },
+    { unique: true, partialFilterExpression: { eventId: { $exists: true } } }
+  );
+  // one writer wins each seq; the loser re-reads the head and tries again
+  await col.createIndex({ interviewId: 1, seq: 1 }, { unique: true, partialFilterExpression: { seq: { $exists: true } } });
+  // timeline reads (events API, CSV) page by (t, _id)
+  await col.createIndex({ interviewId: 1, t: 1, _id: 1 });
+});
+
+/**
+ * Append a batch to the interview's chain. Events whose eventId is already
+ * stored are skipped, so retried or beaconed batches never insert twice.
+ */
+export async function appendEvents(
+  db: Db,
+  interview: Pick<InterviewDoc, "_id">,
+  batch: UnchainedEvent[]
+): Promise<{ inserted: number; duplicates: number }> {
+  const interviewId = String(interview._id);
+  const col = events(db);
+  await ensureEventIndexes(db);
+
+  const unique = Array.from(new Map(batch.map((e) => [e.eventId, e])).values());
+  let inserted = 0;
+
+  for (let attempt = 0; attempt < MAX_APPEND_ATTEMPTS; attempt++) {
+    const stored = await col
+      .find({ interviewId, eventId: { $in: unique.map((e) => e.eventId) } }, { projection: { eventId: 1 } })
+      .toArray();
+    const seen = new Set(stored.map((d) => d.eventId));
+    const fresh = unique.filter((e) => !seen.has(e.eventId));
+    if (fresh.length === 0) return { inserted, duplicates: batch.length - inserted };
+
+    const head = await col.findOne(
+      { interviewId, seq: { $exists: true } },
+      { sort: { seq: -1 }, projection: { seq: 1, hash: 1 } }
+    );
+    let seq = head ? head.seq! + 1 : 0;
+    let prevHash = head?.hash ?? GENESIS_HASH;
+    const receivedAt = new Date().toISOString();
+
+    const docs: ProctorEventDB[] = fresh.map((e) => {
+      const doc: ProctorEventDB = { ...e, interviewId, seq: seq++, receivedAt, prevHash };
+      doc.hash = hashEvent(doc, prevHash);
+      prevHash = doc.hash;
+      return doc;
+    });
+
+    try {
+      await col.insertMany(docs, { ordered: true });
+      inserted += docs.length;
+      await recordHead(db, interview, { seq: seq - 1, hash: prevHash });
+      return { inserted, duplicates: batch.length - inserted };
+    } catch (e) {
+      // lost a race on seq (or eventId): keep what landed and rebuild the rest on the new head
+      if (!(e instanceof MongoBulkWriteError)) throw e;
+      const errs = Array.isArray(e.writeErrors) ? e.writeErrors : [e.writeErrors];
+      if (errs.some((w) => w.code !== 11000)) throw e;
+      const landed = e.result.insertedCount;
+      inserted += landed;
+      if (landed > 0) await recordHead(db, interview, { seq: docs[landed - 1].seq!, hash: docs[landed - 1].hash! });
+    }
+  }
+  throw new ChainBusyError("event log is busy; retry the batch");
+}
+
+/** Anchor the latest seq on the interview so a truncated tail is detectable. */
+async function recordHead(db: Db, interview: Pick<InterviewDoc, "_id">, head: ChainHead) {
+  await db
+    .collection<InterviewDoc>("interviews")
+    .updateOne(
+      { _id: interview._id, $or: [{ chainHead: { $exists: false } }, { "chainHead.seq": { $lt: head.seq } }] },
+      { $set: { chainHead: head } }
+    );
+}
+
+/** Walk the chain in seq order and report gaps, reordering and edits. */
+export async function verifyChain(db: Db, interview: Pick<InterviewDoc, "_id" | "chainHead">): Promise<ChainReport> {
+  const interviewId = String(interview._id);
+  const col = events(db);
+
+  const unchained = await col.countDocuments({ interviewId, seq: { $exists: false } });
+  const anchored = interview.chainHead;
+
+  const issues: ChainIssue[] = [];
+  let expected = 0;
+  let prevHash = GENESIS_HASH;
+  let prevReceived = "";
+  let checked = 0;
+  let last: ChainHead | null = null;
+  let anchoredHash: string | undefined;
+
+  // streamed: long logs are checked without holding them in memory
+  for await (const d of col.find({ interviewId, seq: { $exists: true } }, { sort: { seq: 1 } })) {
+    const seq = d.seq!;
+    if (seq > expected) {
+      issues.push({ seq, kind: "gap", message: `seq ${expected}${seq - 1 > expected ? `–${seq - 1}` : ""} missing` });
+    } else if (seq < expected) {
+      issues.push({ seq, kind: "reordered", message: `seq ${seq} appears again after ${expected - 1}` });
+    } else if (d.prevHash !== prevHash) {
+      issues.push({ seq, kind: "broken_link", message: "prevHash does not match the previous event" });
+    }
+    if (d.receivedAt && d.receivedAt < prevReceived) {
+      issues.push({ seq, kind: "reordered", message: "received before the previous event" });
+    }
+    if (hashEvent(d, d.prevHash ?? "") !== d.hash) {
+      issues.push({ seq, kind: "edited", message: "content does not match its hash" });
+    }
+    expected = Math.max(expected, seq + 1);
+    prevHash = d.hash ?? "";
+    prevReceived = d.receivedAt ?? prevReceived;
+    if (anchored && seq === anchored.seq && anchoredHash === undefined) anchoredHash = d.hash;
+    last = { seq, hash: d.hash! };
+    checked += 1;
+  }
+
+  if (anchored && anchored.seq >= expected) {
+    issues.push({ seq: expected, kind: "gap", message: `log ends at seq ${expected - 1} but seq ${anchored.seq} was recorded` });
+  } else if (anchored && anchoredHash !== anchored.hash) {
+    issues.push({ seq: anchored.seq, kind: "edited", message: "recorded head hash does not match" });
+  }
+
+  return {
+    status: issues.length ? "broken" : checked ? "verified" : "empty",
+    events: checked,
+    unchained,
+    head: last,
+    issues,
+  };
+}
@@ -0,0 +1,23 @@
+// src/lib/eventColors.ts
+// Shared by the PDF timeline and the live monitor.
+
+/** One colour per event type; unknown types fall back to grey. */
+export const TYPE_COLORS: Record<string, string> = {
+  FOCUS_LOST_5S: "#f6ad55",
+  NO_FACE_10S: "#a0aec0",
+  MULTIPLE_FACES: "#e53e3e",
+  PHONE_DETECTED: "#d53f8c",
+  BOOK_DETECTED: "#3182ce",
+  EXTRA_DEVICE: "#38a169",
+  BACKGROUND_VOICE: "#805ad5",
+  MULTIPLE_SPEAKERS: "#c53030",
+  SUSTAINED_NOISE: "#b7791f",
+  TAB_HIDDEN: "#dd6b20",
+  WINDOW_BLUR: "#ecc94b",
+  FULLSCREEN_EXIT: "#4fd1c5",
+  COPY_PASTE: "#ed64a6",
+  DEVTOOLS_SUSPECTED: "#2d3748",
+  IDENTITY_MISMATCH: "#9b2c2c",
+};
+
+export const FALLBACK_COLOR = "#718096";
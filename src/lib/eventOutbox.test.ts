@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createEventOutbox } from "@/lib/eventOutbox";
+
+const stores = vi.hoisted(() => new Map<string, Map<string, { eventId: string }>>());
+
+vi.mock("@/lib/idb", () => {
+  const store = (name: string) => {
+    if (!stores.has(name)) stores.set(name, new Map());
+    return stores.get(name)!;
+  };
+  return {
+    idbPut: async (name: string, row: { eventId: string }) => void store(name).set(row.eventId, row),
+    idbDelete: async (name: string, key: string[]) => void store(name).delete(key[1]),
+    idbGetByPrefix: async (name: string) => Array.from(store(name).values()),
+  };
+});
+
+vi.mock("@/lib/candidateSession", () => ({
+  authHeader: (t: string | null) => (t ? { Authorization: `Bearer ${t}` } : {}),
+  readCandidateToken: () => "fresh-token",
+}));
+
+type Call = { url: string; auth?: string; body: { events: { eventId: string }[] } };
+let calls: Call[];
+let respond: (call: Call) => Response;
+
+beforeEach(() => {
+  stores.clear();
+  calls = [];
+  vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+    const call = {
+      url,
+      auth: (init.headers as Record<string, string>).Authorization,
+      body: JSON.parse(String(init.body)),
+    };
+    calls.push(call);
+    return respond(call);
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const json = (status: number, body: unknown = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+function outboxWith(n: number) {
+  const outbox = createEventOutbox("iv1", "old-token");
+  for (let i = 0; i < n; i++) outbox.push({ interviewId: "iv1", eventId: `e${i}`, t: i, type: "FOCUS_LOST_5S" });
+  return outbox;
+}
+
+const ids = (name: string) => Array.from(stores.get(name)?.keys() ?? []);
+const settle = () => new Promise((r) => setTimeout(r, 0));
+
+describe("event outbox", () => {
+  it("quarantines only the events a 400 names and re-sends the rest", async () => {
+    respond = (c) =>
+      c.url === "/api/events" && c.body.events.length === 3
+        ? json(400, {
+            error: { code: "VALIDATION_FAILED", message: "x", fields: [{ path: "events[1].meta", message: "too big" }] },
+          })
+        : json(200);
+    const outbox = outboxWith(3);
+    await outbox.flush();
+    await settle();
+    expect(outbox.size).toBe(2);
+    expect(ids("eventOutbox")).toEqual(["e0", "e2"]);
+
+    const report = calls.find((c) => c.url === "/api/interviews/iv1/rejected-events")!;
+    expect(report.body.events).toMatchObject([
+      { eventId: "e1", status: 400, issues: [{ path: "events[1].meta", message: "too big" }] },
+    ]);
+    expect(ids("eventQuarantine")).toEqual([]); // reported, so no longer kept locally
+
+    await outbox.flush();
+    expect(calls.at(-1)!.body.events.map((e) => e.eventId)).toEqual(["e0", "e2"]);
+    expect(outbox.size).toBe(0);
+  });
+
+  it("keeps everything and picks up a stored token on 401", async () => {
+    respond = (c) => (c.auth === "Bearer fresh-token" ? json(200) : json(401));
+    const outbox = outboxWith(2);
+    await outbox.flush();
+    expect(outbox.size).toBe(2);
+    expect(ids("eventQuarantine")).toEqual([]);
+    await outbox.flush();
+    expect(outbox.size).toBe(0);
+  });
+
+  it("halves the batch on 413 instead of discarding it", async () => {
+    respond = (c) => (c.body.events.length > 2 ? json(413) : json(200));
+    const outbox = outboxWith(4);
+    await outbox.flush();
+    expect(outbox.size).toBe(4);
+    await outbox.flush();
+    await outbox.flush();
+    expect(outbox.size).toBe(0);
+    expect(ids("eventQuarantine")).toEqual([]);
+  });
+
+  it("leaves retriable failures queued", async () => {
+    respond = () => json(503);
+    const outbox = outboxWith(2);
+    await outbox.flush();
+    expect(outbox.size).toBe(2);
+    expect(calls).toHaveLength(1);
+  });
+});
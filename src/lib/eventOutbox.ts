@@ -0,0 +1,189 @@
+// src/lib/eventOutbox.ts
+// Client-side outbox for proctoring events. Every event is written to IndexedDB
+// and only removed once POST /api/events acknowledged it; the server upserts by
+// eventId, so re-sending (retry, beacon, reload) never duplicates an event.
+// Batches are validated all-or-nothing, so on a 400 only the events the issues
+// name are set aside (the quarantine store) and the rest are sent again; a 413
+// halves the batch and a 401/403 re-reads the token instead of dropping anything.
+// Quarantined events are reported to POST /api/interviews/[id]/rejected-events.
+import { idbDelete, idbGetByPrefix, idbPut } from "@/lib/idb";
+import { authHeader, readCandidateToken } from "@/lib/candidateSession";
+import type { ProctorEventInput } from "@/lib/types";
+
+type OutboxRow = ProctorEventInput & { eventId: string };
+
+type Rejection = { status: number; at: string; issues?: { path: string; message: string }[] };
+type QuarantineRow = OutboxRow & { rejected: Rejection };
+
+const MAX_BATCH = 200;
+/** Rejected events per report request, and the part of each event that is kept. */
+const REPORT_BATCH = 50;
+const MAX_REPORT_PAYLOAD = 8192;
+/** sendBeacon payloads are capped (~64 KB in most browsers). */
+const MAX_BEACON_BYTES = 60_000;
+
+const quiet = <T>(p: Promise<T>) => p.catch(() => undefined);
+
+/** 408/429/5xx and a busy event chain (409 with Retry-After) are worth retrying; other 4xx are final. */
+function retriable(r: Response): boolean {
+  if (r.status === 408 || r.status === 429 || r.status >= 500) return true;
+  return r.status === 409 && r.headers.has("Retry-After");
+}
+
+/** Indexes of the batch events a validation error names (paths like "events[3].meta"). */
+function rejectedIndexes(issues: { path: string }[]): Set<number> {
+  const out = new Set<number>();
+  for (const { path } of issues) {
+    const m = /^events\[(\d+)\]/.exec(path);
+    if (m) out.add(Number(m[1]));
+  }
+  return out;
+}
+
+export function newEventId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/** Outbox for one interview. `load` once on mount, `flush` on a timer, `beacon` on page hide. */
+export function createEventOutbox(interviewId: string, initialToken: string | null) {
+  const pending = new Map<string, OutboxRow>();
+  let token = initialToken;
+  let batchSize = MAX_BATCH;
+  let flushing = false;
+  let reporting = false;
+
+  /** Move events out of the outbox for good and tell the server about them. */
+  async function quarantine(rows: QuarantineRow[]) {
+    await Promise.all(
+      rows.map(async (row) => {
+        pending.delete(row.eventId);
+        await quiet(idbPut("eventQuarantine", row));
+        await quiet(idbDelete("eventOutbox", [interviewId, row.eventId]));
+      })
+    );
+    void report();
+  }
+
+  /** Upload quarantined events; each is deleted locally once the server has it. */
+  async function report() {
+    if (reporting) return;
+    reporting = true;
+    try {
+      const rows = (await quiet(idbGetByPrefix<QuarantineRow>("eventQuarantine", [interviewId]))) ?? [];
+      for (let i = 0; i < rows.length; i += REPORT_BATCH) {
+        const chunk = rows.slice(i, i + REPORT_BATCH);
+        const events = chunk.map(({ rejected, ...e }) => ({
+          eventId: e.eventId,
+          status: rejected.status,
+          ...(rejected.issues?.length ? { issues: rejected.issues.slice(0, 20) } : {}),
+          payload: JSON.stringify(e).slice(0, MAX_REPORT_PAYLOAD),
+          rejectedAt: rejected.at,
+        }));
+        const r = await fetch(`/api/interviews/${encodeURIComponent(interviewId)}/rejected-events`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...authHeader(token) },
+          body: JSON.stringify({ events }),
+        });
+        if (!r.ok) return; // kept locally; reported again on the next load
+        for (const e of chunk) await quiet(idbDelete("eventQuarantine", [interviewId, e.eventId]));
+      }
+    } catch {
+      /* offline: try again on the next load */
+    } finally {
+      reporting = false;
+    }
+  }
+
+  return {
+    /** Pick up events a previous page load left unsent, and report ones it gave up on. */
+    async load() {
+      const rows = (await quiet(idbGetByPrefix<OutboxRow>("eventOutbox", [interviewId]))) ?? [];
+      for (const r of rows) if (!pending.has(r.eventId)) pending.set(r.eventId, r);
+      void report();
+    },
+
+    push(e: ProctorEventInput) {
+      const row: OutboxRow = { ...e, interviewId, eventId: e.eventId ?? newEventId() };
+      pending.set(row.eventId, row);
+      void quiet(idbPut("eventOutbox", row));
+    },
+
+    get size() {
+      return pending.size;
+    },
+
+    /** Send up to batchSize events; they stay queued unless the server confirms them or names them as invalid. */
+    async flush() {
+      if (flushing || pending.size === 0) return;
+      flushing = true;
+      const events = Array.from(pending.values()).slice(0, batchSize);
+      try {
+        const r = await fetch("/api/events", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...authHeader(token) },
+          body: JSON.stringify({ interviewId, events }),
+        });
+        if (r.ok) {
+          for (const e of events) {
+            pending.delete(e.eventId);
+            void quiet(idbDelete("eventOutbox", [interviewId, e.eventId]));
+          }
+          return;
+        }
+        if (retriable(r)) return;
+        if (r.status === 401 || r.status === 403) {
+          // expired or replaced session: a newer token may have been stored by another tab
+          token = readCandidateToken(interviewId) ?? token;
+          return;
+        }
+        const rejected = { status: r.status, at: new Date().toISOString() };
+        if (r.status === 413 && events.length > 1) {
+          batchSize = Math.max(1, Math.floor(events.length / 2));
+          return;
+        }
+        if (r.status === 400) {
+          const body = (await r.json().catch(() => null)) as { error?: { fields?: Rejection["issues"] } } | null;
+          const issues = body?.error?.fields ?? [];
+          const bad = rejectedIndexes(issues);
+          // an issue that names no event (the batch itself) condemns them all
+          if (bad.size) {
+            await quarantine(
+              events
+                .map((e, i) => ({ e, i }))
+                .filter(({ i }) => bad.has(i))
+                .map(({ e, i }) => ({
+                  ...e,
+                  rejected: { ...rejected, issues: issues.filter((x) => x.path.startsWith(`events[${i}]`)) },
+                }))
+            );
+            return;
+          }
+        }
+        await quarantine(events.map((e) => ({ ...e, rejected })));
+      } catch {
+        /* offline: keep them for the next flush */
+      } finally {
+        flushing = false;
+      }
+    },
+
+    /**
+     * Best-effort delivery while the page is going away. Nothing is removed:
+     * whatever did not arrive is re-sent (and deduplicated) on the next load.
+     */
+    beacon() {
+      if (pending.size === 0 || typeof navigator.sendBeacon !== "function") return;
+      const events: OutboxRow[] = [];
+      let bytes = 0;
+      for (const e of pending.values()) {
+        bytes += new TextEncoder().encode(JSON.stringify(e)).length;
+        if (bytes > MAX_BEACON_BYTES) break;
+        events.push(e);
+      }
+      const blob = new Blob([JSON.stringify({ interviewId, events })], { type: "application/json" });
+      // beacons cannot carry headers, so the token rides in the query string
+      navigator.sendBeacon(token ? `/api/events?token=${encodeURIComponent(token)}` : "/api/events", blob);
+    },
+  };
+}
@@ -0,0 +1,23 @@
+import { ObjectId } from "mongodb";
+import { describe, expect, it } from "vitest";
+import { decodeCursor, encodeCursor } from "@/lib/eventQuery";
+
+describe("event page cursors", () => {
+  const id = new ObjectId("64b0000000000000000000aa");
+
+  it("round-trips t and _id", () => {
+    expect(decodeCursor(encodeCursor({ t: 12_345, _id: id }))).toEqual({ t: 12_345, id });
+    expect(decodeCursor(encodeCursor({ t: 1.5, _id: id }))?.t).toBe(1.5);
+  });
+
+  it("is opaque base64url", () => {
+    expect(encodeCursor({ t: 0, _id: id })).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it("rejects strings it did not issue", () => {
+    expect(decodeCursor("")).toBeNull();
+    expect(decodeCursor("not-a-cursor")).toBeNull();
+    expect(decodeCursor(Buffer.from("-1:64b0000000000000000000aa").toString("base64url"))).toBeNull();
+    expect(decodeCursor(Buffer.from("5:xyz").toString("base64url"))).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+// src/lib/eventQuery.ts
+// Filtered reads of one interview's events in timeline order, for the paginated
+// events API and the CSV export. Pages are keyed by (t, _id), so a cursor stays
+// valid while new events are appended.
+import { ObjectId, type Db, type Filter } from "mongodb";
+import type { EventRow } from "@/lib/report";
+
+export type EventQuery = {
+  types?: string[];
+  from?: number;                     // ms since start, inclusive
+  to?: number;                       // ms since start, inclusive
+  minConfidence?: number;
+  includeMeta?: boolean;
+};
+
+export type EventPage = { items: EventRow[]; nextCursor: string | null; total: number };
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+type StoredEvent = EventRow & { _id: ObjectId };
+type Cursor = { t: number; id: ObjectId };
+
+/** Opaque to clients: base64url of "t:_id" of the last row served. */
+export function encodeCursor(e: Pick<StoredEvent, "t" | "_id">): string {
+  return Buffer.from(`${e.t}:${e._id.toHexString()}`).toString("base64url");
+}
+
+/** null when the string is not a cursor this API issued. */
+export function decodeCursor(s: string): Cursor | null {
+  const m = /^(\d+(?:\.\d+)?):([0-9a-f]{24})$/.exec(Buffer.from(s, "base64url").toString());
+  return m ? { t: Number(m[1]), id: new ObjectId(m[2]) } : null;
+}
+
+function filterFor(interviewId: string, q: EventQuery): Filter<StoredEvent> {
+  const f: Filter<StoredEvent> = { interviewId };
+  if (q.types?.length) f.type = { $in: q.types };
+  if (q.from !== undefined || q.to !== undefined) {
+    f.t = { ...(q.from !== undefined && { $gte: q.from }), ...(q.to !== undefined && { $lte: q.to }) };
+  }
+  if (q.minConfidence !== undefined) f.confidence = { $gte: q.minConfidence };
+  return f;
+}
+
+function projection(q: EventQuery) {
+  return q.includeMeta ? { prevHash: 0, hash: 0 } : { prevHash: 0, hash: 0, meta: 0 };
+}
+
+function strip(e: StoredEvent): EventRow {
+  const row: EventRow & { _id?: ObjectId } = { ...e };
+  delete row._id;
+  return row;
+}
+
+/** Every matching event, oldest first; the caller iterates and closes it. */
+export function eventCursor(db: Db, interviewId: string, q: EventQuery = {}) {
+  return db
+    .collection<StoredEvent>("events")
+    .find(filterFor(interviewId, q), { projection: projection(q), sort: { t: 1, _id: 1 } })
+    .map(strip);
+}
+
+/** One page after `after` (or from the start). */
+export async function listEventsPage(
+  db: Db,
+  interviewId: string,
+  q: EventQuery & { after?: Cursor; limit?: number }
+): Promise<EventPage> {
+  const col = db.collection<StoredEvent>("events");
+  const limit = q.limit ?? DEFAULT_PAGE_SIZE;
+  const base = filterFor(interviewId, q);
+  const filter: Filter<StoredEvent> = q.after
+    ? { $and: [base, { $or: [{ t: { $gt: q.after.t } }, { t: q.after.t, _id: { $gt: q.after.id } }] }] }
+    : base;
+
+  // one extra row tells whether another page follows
+  const [rows, total] = await Promise.all([
+    col.find(filter, { projection: projection(q), sort: { t: 1, _id: 1 }, limit: limit + 1 }).toArray(),
+    col.countDocuments(base),
+  ]);
+  const more = rows.length > limit;
+  const page = more ? rows.slice(0, limit) : rows;
+
+  return {
+    items: page.map(strip),
+    nextCursor: more ? encodeCursor(page[page.length - 1]) : null,
+    total,
+  };
+}
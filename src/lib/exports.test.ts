@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { canReadJob } from "@/lib/exports";
+import type { ExportJob, Role } from "@/lib/types";
+
+const job: ExportJob = {
+  query: {},
+  dataset: "interviews",
+  format: "csv",
+  status: "done",
+  requestedBy: "ann@example.com",
+  requestedById: "u1",
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+const staff = (userId: string, email: string, roles: Role[] = ["reviewer"]) => ({
+  kind: "staff" as const,
+  userId,
+  email,
+  roles,
+});
+
+describe("export job access", () => {
+  it("is open to the requester and to admins", () => {
+    expect(canReadJob(job, staff("u1", "ann@example.com"))).toBe(true);
+    expect(canReadJob(job, staff("u9", "root@example.com", ["admin"]))).toBe(true);
+  });
+
+  it("is closed to other reviewers", () => {
+    expect(canReadJob(job, staff("u2", "bob@example.com"))).toBe(false);
+    // the id decides, not a reused email
+    expect(canReadJob(job, staff("u2", "ann@example.com"))).toBe(false);
+  });
+
+  it("falls back to the email for jobs queued without an id", () => {
+    const legacy = { ...job, requestedById: undefined };
+    expect(canReadJob(legacy, staff("u1", "ann@example.com"))).toBe(true);
+    expect(canReadJob(legacy, staff("u2", "bob@example.com"))).toBe(false);
+  });
+});
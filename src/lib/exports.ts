@@ -0,0 +1,371 @@
+// src/lib/exports.ts
+// Bulk exports for analysis: one row per interview (score, flags, a count column
+// per event type) or one row per event (meta flattened into meta.* columns).
+// Every row of an export has the same columns in both formats, so the CSV is tidy
+// and the JSON Lines load into dataframes or Parquet with a stable schema.
+// Small exports stream straight from GET /api/exports; larger ones run as jobs
+// that write the file to storage.
+import { ObjectId, type Db, type Document } from "mongodb";
+import { getStorage } from "@/lib/storage";
+import { csvCell } from "@/lib/csv";
+import { interviewFilterStages } from "@/lib/interviewQuery";
+import { eventCursor } from "@/lib/eventQuery";
+import { estimateDurationMs, fetchEventsByInterview, reportFlags, scoreWithPolicy, summarizeCounts } from "@/lib/report";
+import { resolvePolicyOrNull } from "@/lib/policies";
+import { reviewsByEvent, withoutDismissed } from "@/lib/reviews";
+import { statusOf } from "@/lib/lifecycle";
+import type { Principal } from "@/lib/auth";
+import type { InterviewDoc } from "@/lib/reportData";
+import type { ExportQuerySchema } from "@/lib/schemas";
+import type { Infer } from "@/lib/validate";
+import { EVENT_TYPES, type ExportFormat, type ExportJob, type ScoringPolicy } from "@/lib/types";
+
+export type ExportQuery = Omit<Infer<typeof ExportQuerySchema>, "background">;
+
+/** Beyond either size an export runs as a background job. */
+export const MAX_STREAMED_INTERVIEWS = 200;
+export const MAX_STREAMED_EVENTS = 50_000;
+/** Rows encoded per pull of the output stream. */
+const STREAM_BATCH = 500;
+/** Distinct meta.* columns kept; keys beyond these (rare, free-form meta) are left out. */
+const MAX_META_COLUMNS = 200;
+/** A job still "running" this long after it started is assumed dead and may be run again. */
+const STALE_JOB_MS = 60 * 60 * 1000;
+
+type StaffPrincipal = Extract<Principal, { kind: "staff" }>;
+
+type Cell = string | number | boolean | null;
+type Row = Record<string, Cell>;
+
+/** Counts and flags leave out events a reviewer dismissed, like the report. */
+const INTERVIEW_COLUMNS = [
+  "interviewId",
+  "candidateName",
+  "candidateEmail",
+  "status",
+  "createdAt",
+  "startedAt",
+  "endedAt",
+  "durationMs",
+  "policyName",
+  "policyVersion",
+  "scoringMode",
+  "policyMissing",
+  "integrityScore",
+  "rawIntegrityScore",
+  "eventCount",
+  "dismissedCount",
+  "phoneDetected",
+  "multipleFaces",
+  "otherVoices",
+  "leftPage",
+  "clipboardUsed",
+  "identityMismatch",
+  "identitySimilarityMean",
+  "identitySimilarityMin",
+  "systemCheckPassed",
+  ...EVENT_TYPES.map((t) => `count_${t}`),
+];
+
+const EVENT_COLUMNS = [
+  "interviewId",
+  "candidateName",
+  "seq",
+  "eventId",
+  "t",
+  "type",
+  "confidence",
+  "createdAt",
+  "receivedAt",
+  "review",
+  "reviewNote",
+];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  jsonl: "application/x-ndjson; charset=utf-8",
+};
+
+export function exportFilename(query: ExportQuery, at = new Date()) {
+  return `${query.dataset ?? "interviews"}-${at.toISOString().slice(0, 10)}.${query.format ?? "csv"}`;
+}
+
+/** Matching interviews, oldest start first. */
+function matchingInterviews(db: Db, query: ExportQuery) {
+  return db
+    .collection<InterviewDoc>("interviews")
+    .aggregate<InterviewDoc>([
+      ...interviewFilterStages(query),
+      { $sort: { startedAt: 1, _id: 1 } },
+      { $project: { flagTypes: 0, invite: 0, live: 0 } },
+    ]);
+}
+
+/** Rows an export would produce, to decide between streaming and a job; one aggregation counts both. */
+export async function exportSize(db: Db, query: ExportQuery): Promise<{ interviews: number; events: number }> {
+  const countEvents: Document[] =
+    query.dataset === "events"
+      ? [
+          { $project: { _id: 0, id: { $toString: "$_id" } } },
+          {
+            $lookup: {
+              from: "events",
+              localField: "id",
+              foreignField: "interviewId",
+              pipeline: [...(query.types?.length ? [{ $match: { type: { $in: query.types } } }] : []), { $count: "n" }],
+              as: "events",
+            },
+          },
+        ]
+      : [{ $project: { _id: 1 } }];
+  const [size] = await db
+    .collection<InterviewDoc>("interviews")
+    .aggregate<{ interviews: number; events: number }>([
+      ...interviewFilterStages(query),
+      ...countEvents,
+      { $group: { _id: null, interviews: { $sum: 1 }, events: { $sum: { $sum: "$events.n" } } } },
+    ])
+    .toArray();
+  return { interviews: size?.interviews ?? 0, events: size?.events ?? 0 };
+}
+
+async function* interviewRows(db: Db, query: ExportQuery): AsyncGenerator<Row> {
+  // null: the pinned version is missing, so the row carries no scores
+  const policies = new Map<string, ScoringPolicy | null>();
+  for await (const doc of matchingInterviews(db, query)) {
+    const id = String(doc._id);
+    const events = await fetchEventsByInterview(db, id);
+    const durationMs = estimateDurationMs(doc.startedAt, doc.endedAt, events);
+    const ref = doc.policy ? `${doc.policy.name}@${doc.policy.version}` : "";
+    if (!policies.has(ref)) policies.set(ref, await resolvePolicyOrNull(db, doc.policy));
+    const policy = policies.get(ref)!;
+    const byEvent = await reviewsByEvent(db, id);
+    const kept = withoutDismissed(events, byEvent);
+    const raw = policy && scoreWithPolicy(events, durationMs, policy);
+    const scored = policy && scoreWithPolicy(kept, durationMs, policy);
+    const counts = scored?.counts ?? summarizeCounts(kept);
+    const checks = doc.identity?.checks ?? 0;
+
+    yield {
+      interviewId: id,
+      candidateName: doc.candidateName ?? null,
+      candidateEmail: doc.candidateEmail ?? null,
+      status: statusOf(doc),
+      createdAt: doc.createdAt ?? null,
+      startedAt: doc.startedAt ?? null,
+      endedAt: doc.endedAt ?? null,
+      durationMs,
+      policyName: policy?.name ?? doc.policy?.name ?? null,
+      policyVersion: policy?.version ?? doc.policy?.version ?? null,
+      scoringMode: policy ? (policy.mode ?? "count") : null,
+      policyMissing: !policy,
+      integrityScore: scored?.integrity.score ?? null,
+      rawIntegrityScore: raw?.integrity.score ?? null,
+      eventCount: events.length,
+      dismissedCount: events.length - kept.length,
+      ...reportFlags(counts),
+      identitySimilarityMean:
+        checks > 0 ? Math.round(((doc.identity?.similaritySum ?? 0) / checks) * 100) / 100 : null,
+      identitySimilarityMin: doc.identity?.minSimilarity ?? null,
+      systemCheckPassed: doc.systemCheck ? doc.systemCheck.passed : null,
+      ...Object.fromEntries(EVENT_TYPES.map((t) => [`count_${t}`, counts[t] ?? 0])),
+    };
+  }
+}
+
+/** meta as flat `meta.a.b` cells; arrays are kept as JSON text. */
+function flattenMeta(meta: unknown, prefix = "meta", out: Row = {}): Row {
+  if (meta === null || typeof meta !== "object" || Array.isArray(meta)) {
+    out[prefix] = Array.isArray(meta) ? JSON.stringify(meta) : (meta as Cell);
+    return out;
+  }
+  for (const [k, v] of Object.entries(meta)) flattenMeta(v, `${prefix}.${k}`, out);
+  return out;
+}
+
+/** Every meta.* column the matching events use, sorted (a first pass over their meta only). */
+async function metaColumns(db: Db, query: ExportQuery): Promise<string[]> {
+  const keys = new Set<string>();
+  for await (const doc of matchingInterviews(db, query)) {
+    const rows = db
+      .collection("events")
+      .find(
+        { interviewId: String(doc._id), meta: { $type: "object" }, ...(query.types?.length && { type: { $in: query.types } }) },
+        { projection: { _id: 0, meta: 1 } }
+      );
+    for await (const e of rows) {
+      for (const k of Object.keys(flattenMeta(e.meta))) keys.add(k);
+    }
+  }
+  return [...keys].sort().slice(0, MAX_META_COLUMNS);
+}
+
+async function* eventRows(db: Db, query: ExportQuery): AsyncGenerator<Row> {
+  for await (const doc of matchingInterviews(db, query)) {
+    const id = String(doc._id);
+    const byEvent = await reviewsByEvent(db, id);
+    for await (const e of eventCursor(db, id, { types: query.types, includeMeta: true })) {
+      const review = e.eventId ? byEvent.get(e.eventId) : undefined;
+      yield {
+        interviewId: id,
+        candidateName: doc.candidateName ?? null,
+        seq: e.seq ?? null,
+        eventId: e.eventId ?? null,
+        t: e.t,
+        type: e.type,
+        confidence: e.confidence ?? null,
+        createdAt: e.createdAt,
+        receivedAt: e.receivedAt ?? null,
+        review: review?.status ?? null,
+        reviewNote: review?.note ?? null,
+        ...(e.meta ? flattenMeta(e.meta) : {}),
+      };
+    }
+  }
+}
+
+/** Header and row encoders; a column a row lacks is written as empty / null. */
+function encoder(format: ExportFormat, columns: string[]) {
+  if (format === "csv") {
+    return {
+      header: columns.map(csvCell).join(",") + "\r\n",
+      line: (r: Row) => columns.map((c) => csvCell(r[c] ?? null)).join(",") + "\r\n",
+    };
+  }
+  return {
+    header: "",
+    line: (r: Row) => JSON.stringify(Object.fromEntries(columns.map((c) => [c, r[c] ?? null]))) + "\n",
+  };
+}
+
+/** The export file as a stream; `stats.rows` counts the rows written so far. */
+export async function exportStream(
+  db: Db,
+  query: ExportQuery,
+  stats: { rows: number } = { rows: 0 }
+): Promise<ReadableStream<Uint8Array>> {
+  const events = query.dataset === "events";
+  const columns = events ? [...EVENT_COLUMNS, ...(await metaColumns(db, query))] : INTERVIEW_COLUMNS;
+  const rows = events ? eventRows(db, query) : interviewRows(db, query);
+  const enc = encoder(query.format ?? "csv", columns);
+  const text = new TextEncoder();
+  let chunk = enc.header;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      for (let n = 0; n < STREAM_BATCH; n++) {
+        const r = await rows.next();
+        if (r.done) {
+          if (chunk) controller.enqueue(text.encode(chunk));
+          return controller.close();
+        }
+        chunk += enc.line(r.value);
+        stats.rows++;
+      }
+      controller.enqueue(text.encode(chunk));
+      chunk = "";
+    },
+    async cancel() {
+      await rows.return(undefined);
+    },
+  });
+}
+
+/* ----- background jobs ----- */
+
+function jobs(db: Db) {
+  return db.collection<ExportJob>("export_jobs");
+}
+
+/** Admins see every job; anyone else only the jobs they queued. */
+export function canReadJob(job: ExportJob, principal: StaffPrincipal) {
+  if (principal.roles.includes("admin")) return true;
+  // jobs queued before the requester's id was kept only carry the email
+  return job.requestedById ? job.requestedById === principal.userId : job.requestedBy === principal.email;
+}
+
+/** The job, or null when it doesn't exist or isn't the principal's to read. */
+export async function findExportJob(db: Db, id: string, principal: StaffPrincipal) {
+  const job = ObjectId.isValid(id) ? await jobs(db).findOne({ _id: new ObjectId(id) }) : null;
+  return job && canReadJob(job, principal) ? job : null;
+}
+
+/** Queue an export, or return the same requester's identical export that is still queued or running. */
+export async function queueExportJob(db: Db, query: ExportQuery, principal: StaffPrincipal) {
+  const pending = await jobs(db).findOne({
+    requestedById: principal.userId,
+    query,
+    status: { $in: ["queued", "running"] },
+  });
+  if (pending) return pending;
+  const job: ExportJob = {
+    query,
+    dataset: query.dataset ?? "interviews",
+    format: query.format ?? "csv",
+    status: "queued",
+    requestedBy: principal.email,
+    requestedById: principal.userId,
+    createdAt: new Date().toISOString(),
+  };
+  const { insertedId } = await jobs(db).insertOne(job);
+  return { ...job, _id: insertedId };
+}
+
+/** Does this job still need a runner (never picked up, or its runner died)? */
+export function needsRun(job: ExportJob, now = Date.now()) {
+  if (job.status === "queued") return true;
+  return job.status === "running" && job.startedAt !== undefined && now - Date.parse(job.startedAt) > STALE_JOB_MS;
+}
+
+/** Produce the file of a queued (or stale) job and store it; a no-op if another runner has it. */
+export async function runExportJob(db: Db, id: ObjectId) {
+  const now = Date.now();
+  const job = await jobs(db).findOneAndUpdate(
+    {
+      _id: id,
+      $or: [
+        { status: "queued" },
+        { status: "running", startedAt: { $lt: new Date(now - STALE_JOB_MS).toISOString() } },
+      ],
+    },
+    { $set: { status: "running", startedAt: new Date(now).toISOString() } },
+    { returnDocument: "after" }
+  );
+  if (!job) return;
+
+  try {
+    const stats = { rows: 0 };
+    const body = await exportStream(db, job.query as ExportQuery, stats);
+    const { key } = await getStorage().put(`exports/${String(id)}.${job.format}`, body, {
+      contentType: EXPORT_CONTENT_TYPES[job.format],
+    });
+    await jobs(db).updateOne(
+      { _id: id },
+      { $set: { status: "done", key, rows: stats.rows, finishedAt: new Date().toISOString() } }
+    );
+  } catch (e) {
+    console.error("export job failed:", (e as Error).message);
+    await jobs(db).updateOne(
+      { _id: id },
+      { $set: { status: "failed", error: (e as Error).message, finishedAt: new Date().toISOString() } }
+    );
+  }
+}
+
+export function publicJob(job: ExportJob & { _id: ObjectId }) {
+  const id = String(job._id);
+  return {
+    id,
+    dataset: job.dataset,
+    format: job.format,
+    query: job.query,
+    status: job.status,
+    requestedBy: job.requestedBy,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt ?? null,
+    finishedAt: job.finishedAt ?? null,
+    rows: job.rows ?? null,
+    error: job.error ?? null,
+    downloadUrl: job.status === "done" ? `/api/exports/${id}/download` : null,
+  };
+}
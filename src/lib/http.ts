@@ -0,0 +1,65 @@
+// src/lib/http.ts
+import { NextResponse, type NextRequest } from "next/server";
+import { validate, type Issue, type Schema } from "@/lib/validate";
+
+export type ErrorCode =
+  | "INVALID_JSON"
+  | "VALIDATION_FAILED"
+  | "PAYLOAD_TOO_LARGE"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "FORBIDDEN"
+  | "UNAUTHORIZED"
+  | "INTERNAL";
+
+/** Every API error looks like { error: { code, message, fields? } }. */
+export type ErrorEnvelope = {
+  error: { code: ErrorCode; message: string; fields?: Issue[] };
+};
+
+export function apiError(status: number, code: ErrorCode, message: string, fields?: Issue[]) {
+  const body: ErrorEnvelope = { error: fields?.length ? { code, message, fields } : { code, message } };
+  return NextResponse.json(body, { status });
+}
+
+export const notFound = (what = "not found") => apiError(404, "NOT_FOUND", what);
+
+export function validationError(fields: Issue[], message = "request failed validation") {
+  return apiError(400, "VALIDATION_FAILED", message, fields);
+}
+
+/** Default cap on JSON request bodies. */
+export const MAX_JSON_BYTES = 1024 * 1024;
+
+type Parsed<T> = { ok: true; value: T } | { ok: false; response: NextResponse };
+
+/** Read + size-check + parse + validate a JSON body. */
+export async function parseJson<T>(req: NextRequest, schema: Schema<T>, maxBytes = MAX_JSON_BYTES): Promise<Parsed<T>> {
+  const declared = Number(req.headers.get("content-length") ?? 0);
+  if (declared > maxBytes) {
+    return { ok: false, response: apiError(413, "PAYLOAD_TOO_LARGE", `body exceeds ${maxBytes} bytes`) };
+  }
+
+  const bytes = await req.arrayBuffer();
+  if (bytes.byteLength > maxBytes) {
+    return { ok: false, response: apiError(413, "PAYLOAD_TOO_LARGE", `body exceeds ${maxBytes} bytes`) };
+  }
+  const text = new TextDecoder().decode(bytes);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, response: apiError(400, "INVALID_JSON", "body is not valid JSON") };
+  }
+
+  const res = validate(schema, raw);
+  return res.ok ? res : { ok: false, response: validationError(res.issues) };
+}
+
+/** Validate query-string params (all strings) against a schema. */
+export function parseQuery<T>(req: NextRequest, schema: Schema<T>): Parsed<T> {
+  const raw = Object.fromEntries(req.nextUrl.searchParams.entries());
+  const res = validate(schema, raw);
+  return res.ok ? res : { ok: false, response: validationError(res.issues, "invalid query parameters") };
+}
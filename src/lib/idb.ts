@@ -0,0 +1,64 @@
+// src/lib/idb.ts
+// Tiny promise wrapper over IndexedDB for the client-side queues (browser only).
+
+const DB_NAME = "tutedude";
+const DB_VERSION = 4;
+
+/** Object stores and their compound key paths (first part is always interviewId). */
+const STORES = {
+  recordingChunks: ["interviewId", "take", "seq"],
+  recordingTakes: ["interviewId", "take"],
+  eventOutbox: ["interviewId", "eventId"],
+  eventQuarantine: ["interviewId", "eventId"],
+  snapshotOutbox: ["interviewId", "eventId"],
+} as const;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      for (const [name, keyPath] of Object.entries(STORES)) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: [...keyPath] });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+function run<T>(store: StoreName, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>) {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(store, mode);
+        const req = fn(tx.objectStore(store));
+        tx.oncomplete = () => resolve(req.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+export function idbPut<T>(store: StoreName, value: T): Promise<IDBValidKey> {
+  return run(store, "readwrite", (s) => s.put(value));
+}
+
+export function idbDelete(store: StoreName, key: IDBValidKey): Promise<undefined> {
+  return run(store, "readwrite", (s) => s.delete(key));
+}
+
+/** All rows whose key starts with `prefix` (e.g. [interviewId] or [interviewId, take]), in key order. */
+export function idbGetByPrefix<T>(store: StoreName, prefix: IDBValidKey[]): Promise<T[]> {
+  // [] sorts after every other key type, so it closes the prefix range
+  const range = IDBKeyRange.bound(prefix, [...prefix, []]);
+  return run(store, "readonly", (s) => s.getAll(range) as IDBRequest<T[]>);
+}
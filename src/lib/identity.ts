@@ -0,0 +1,80 @@
+// src/lib/identity.ts
+// Identity verification: the reference selfie (plus an optional ID photo) the
+// candidate provides before the session, and the similarity the candidate page
+// reports each time it re-matches the live face against it.
+import type { Db } from "mongodb";
+import { getStorage } from "@/lib/storage";
+import type { CountMap } from "@/lib/report";
+import type { InterviewDoc } from "@/lib/reportData";
+import type { IdentityPhotoKind, IdentityState, LiveState } from "@/lib/types";
+
+/** Same cap as evidence snapshots. */
+export const MAX_IDENTITY_PHOTO_BYTES = 512 * 1024;
+
+export function identityPhotoKey(interviewId: string, kind: IdentityPhotoKind) {
+  return `identity/${interviewId}/${kind}.jpg`;
+}
+
+/**
+ * Once the session is under way (recording or events logged), the reference may
+ * no longer be replaced, otherwise a substitute could simply re-enrol.
+ */
+export function identityLocked(interview: InterviewDoc, kind: IdentityPhotoKind) {
+  const has = kind === "selfie" ? interview.identity?.selfieKey : interview.identity?.idDocumentKey;
+  return Boolean(has) && (interview.chainHead != null || interview.live?.recording === true);
+}
+
+/** Store one photo and record it on the interview; the selfie also sets the reference signature. */
+export async function storeIdentityPhoto(
+  db: Db,
+  interview: InterviewDoc,
+  kind: IdentityPhotoKind,
+  bytes: Buffer,
+  signature?: number[]
+): Promise<string> {
+  const key = identityPhotoKey(String(interview._id), kind);
+  const storage = getStorage();
+  await storage.delete(key).catch(() => undefined); // some backends refuse to overwrite
+  await storage.put(key, bytes, { contentType: "image/jpeg" });
+
+  const $set: Record<string, unknown> =
+    kind === "selfie"
+      ? { "identity.selfieKey": key, "identity.signature": signature, "identity.capturedAt": new Date().toISOString() }
+      : { "identity.idDocumentKey": key };
+  await db.collection<InterviewDoc>("interviews").updateOne({ _id: interview._id }, { $set });
+  return key;
+}
+
+/** Heartbeat update: the live state, plus the latest re-match folded into the running stats. */
+export function heartbeatUpdate(live: LiveState) {
+  const s = live.similarity;
+  if (s === undefined) return { $set: { live } };
+  return {
+    $set: { live, "identity.lastSimilarity": s },
+    $inc: { "identity.checks": 1, "identity.similaritySum": s },
+    $min: { "identity.minSimilarity": s },
+  };
+}
+
+/** Identity section of reports. */
+export async function identityReport(identity: IdentityState | undefined, counts: CountMap) {
+  const storage = getStorage();
+  const url = (key?: string) => (key ? storage.signedUrl(key).catch(() => null) : Promise.resolve(null));
+  const checks = identity?.checks ?? 0;
+  return {
+    reference: Boolean(identity?.selfieKey),
+    capturedAt: identity?.capturedAt ?? null,
+    selfieUrl: await url(identity?.selfieKey),
+    idDocumentUrl: await url(identity?.idDocumentKey),
+    similarity:
+      checks > 0
+        ? {
+            mean: Math.round(((identity?.similaritySum ?? 0) / checks) * 100) / 100,
+            min: identity?.minSimilarity ?? null,
+            last: identity?.lastSimilarity ?? null,
+            checks,
+          }
+        : null,
+    mismatches: counts["IDENTITY_MISMATCH"] ?? 0,
+  };
+}
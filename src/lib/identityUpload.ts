@@ -0,0 +1,26 @@
+// src/lib/identityUpload.ts
+// Client side of POST /api/interviews/[id]/identity: the reference selfie (with
+// its face signature) and the optional ID photo.
+import { authHeader } from "@/lib/candidateSession";
+import type { IdentityPhotoKind } from "@/lib/types";
+
+/** Upload one photo; throws with the server's message when it is refused. */
+export async function uploadIdentityPhoto(
+  interviewId: string,
+  token: string | null,
+  kind: IdentityPhotoKind,
+  photo: Blob,
+  signature?: number[]
+): Promise<void> {
+  const qs = new URLSearchParams({ kind });
+  if (signature) qs.set("signature", signature.join(","));
+  const r = await fetch(`/api/interviews/${interviewId}/identity?${qs}`, {
+    method: "POST",
+    headers: { "Content-Type": "image/jpeg", ...authHeader(token) },
+    body: photo,
+  });
+  if (!r.ok) {
+    const body = (await r.json().catch(() => null)) as { error?: { message?: string } } | null;
+    throw new Error(body?.error?.message ?? `upload failed (${r.status})`);
+  }
+}
@@ -0,0 +1,55 @@
+// src/lib/interviewQuery.ts
+// Interview filters shared by the dashboard list and bulk exports: name, start
+// date, lifecycle status, and the reviewed score and phone / multiple-faces flags
+// stored on the interview (kept current by src/lib/scoring.ts), so the filters
+// agree with the rows.
+import type { Document } from "mongodb";
+import type { InterviewStatus } from "@/lib/types";
+
+export type InterviewFilter = {
+  q?: string;                        // candidate name contains (case-insensitive)
+  from?: string;                     // startedAt >= (ISO)
+  to?: string;                       // startedAt <= (ISO)
+  minScore?: number;
+  maxScore?: number;
+  phone?: "0" | "1";
+  multipleFaces?: "0" | "1";
+  status?: InterviewStatus;
+};
+
+function escapeRegex(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Aggregation stages selecting the matching interviews; each result also carries phoneDetected / multipleFaces. */
+export function interviewFilterStages(f: InterviewFilter): Document[] {
+  // base filters on the interview doc itself (startedAt is an ISO string, so string compare works)
+  const match: Record<string, unknown> = {};
+  const q = f.q?.trim();
+  if (q) match.candidateName = { $regex: escapeRegex(q), $options: "i" };
+  if (f.status) match.status = f.status;
+
+  const started: Record<string, string> = {};
+  if (f.from) started.$gte = f.from;
+  if (f.to) started.$lte = f.to;
+  if (Object.keys(started).length) match.startedAt = started;
+
+  const score: Record<string, number> = {};
+  if (f.minScore !== undefined) score.$gte = f.minScore;
+  if (f.maxScore !== undefined) score.$lte = f.maxScore;
+  if (Object.keys(score).length) match.integrityScore = score;
+
+  // flags leave out events a reviewer dismissed, like the report does
+  if (f.phone === "1") match["flags.phoneDetected"] = true;
+  if (f.multipleFaces === "1") match["flags.multipleFaces"] = true;
+
+  return [
+    { $match: match },
+    {
+      $addFields: {
+        phoneDetected: { $ifNull: ["$flags.phoneDetected", false] },
+        multipleFaces: { $ifNull: ["$flags.multipleFaces", false] },
+      },
+    },
+  ];
+}
@@ -0,0 +1,60 @@
+// src/lib/invites.ts
+// One-time invite links. The link carries a random code; the interview stores
+// only its hash, and redeeming it (once) hands out the candidate token.
+import { createHash, randomBytes } from "node:crypto";
+import type { Db } from "mongodb";
+import { issueCandidateToken } from "@/lib/auth";
+import { candidateTokenExpiry, settleStatus } from "@/lib/lifecycle";
+import type { InterviewDoc } from "@/lib/reportData";
+import type { InviteState } from "@/lib/types";
+
+const hashCode = (code: string) => createHash("sha256").update(code).digest("hex");
+
+/** Path of the candidate page that redeems a code. */
+export const inviteUrl = (code: string) => `/invite/${code}`;
+
+/** A fresh code and what to store for it. */
+export function newInvite(): { code: string; invite: InviteState } {
+  const code = randomBytes(24).toString("base64url");
+  return { code, invite: { codeHash: hashCode(code), createdAt: new Date().toISOString() } };
+}
+
+/**
+ * Replace the invite of a scheduled interview. The previous link stops working,
+ * and so does any candidate token already redeemed from it (tokenGen moves on).
+ */
+export async function reissueInvite(db: Db, interview: InterviewDoc): Promise<string> {
+  const { code, invite } = newInvite();
+  await db
+    .collection<InterviewDoc>("interviews")
+    .updateOne({ _id: interview._id }, { $set: { invite }, $inc: { tokenGen: 1 } });
+  return code;
+}
+
+export type RedeemResult =
+  | { ok: true; interviewId: string; candidateToken: string }
+  | { ok: false; status: 404 | 409; message: string };
+
+/** Use up an invite: only once, and only while the interview is still scheduled. */
+export async function redeemInvite(db: Db, code: string): Promise<RedeemResult> {
+  const col = db.collection<InterviewDoc>("interviews");
+  const codeHash = hashCode(code);
+  const interview = await col.findOne(
+    { "invite.codeHash": codeHash },
+    { projection: { status: 1, schedule: 1, deadline: 1, endedAt: 1, invite: 1, tokenGen: 1 } }
+  );
+  if (!interview || !interview.schedule) return { ok: false, status: 404, message: "invite not found" };
+
+  const status = await settleStatus(db, interview);
+  if (status !== "scheduled") return { ok: false, status: 409, message: `interview is ${status}` };
+
+  const res = await col.updateOne(
+    { _id: interview._id, "invite.codeHash": codeHash, "invite.redeemedAt": { $exists: false } },
+    { $set: { "invite.redeemedAt": new Date().toISOString() } }
+  );
+  if (res.modifiedCount === 0) return { ok: false, status: 409, message: "invite has already been used" };
+
+  const interviewId = String(interview._id);
+  const candidateToken = issueCandidateToken(interviewId, candidateTokenExpiry(interview.schedule), interview.tokenGen ?? 0);
+  return { ok: true, interviewId, candidateToken };
+}
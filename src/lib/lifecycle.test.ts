@@ -0,0 +1,81 @@
+import type { Db } from "mongodb";
+import { describe, expect, it, vi } from "vitest";
+import {
+  ABANDON_GRACE_MS,
+  LATE_UPLOAD_GRACE_MS,
+  sessionEnd,
+  settleStatus,
+  statusOf,
+  uploadsClosed,
+} from "@/lib/lifecycle";
+import type { InterviewDoc } from "@/lib/reportData";
+
+const NOW = Date.parse("2024-06-01T12:00:00.000Z");
+const iso = (offsetMs: number) => new Date(NOW + offsetMs).toISOString();
+const schedule = { windowStart: iso(-3_600_000), windowEnd: iso(3_600_000), maxDurationMs: 3_600_000 };
+
+describe("statusOf", () => {
+  it("infers legacy interviews from endedAt", () => {
+    expect(statusOf({ _id: "a" }, NOW)).toBe("in_progress");
+    expect(statusOf({ _id: "a", endedAt: iso(0) }, NOW)).toBe("completed");
+  });
+
+  it("expires scheduled interviews once the window closes", () => {
+    expect(statusOf({ _id: "a", status: "scheduled", schedule }, NOW)).toBe("scheduled");
+    expect(statusOf({ _id: "a", status: "scheduled", schedule }, NOW + 3_600_001)).toBe("expired");
+  });
+
+  it("completes on endedAt and abandons after the grace period", () => {
+    const running: InterviewDoc = { _id: "a", status: "in_progress", deadline: iso(0) };
+    expect(statusOf(running, NOW + ABANDON_GRACE_MS)).toBe("in_progress");
+    expect(statusOf(running, NOW + ABANDON_GRACE_MS + 1)).toBe("abandoned");
+    expect(statusOf({ ...running, endedAt: iso(1) }, NOW + ABANDON_GRACE_MS + 1)).toBe("completed");
+  });
+
+  it("keeps final states", () => {
+    expect(statusOf({ _id: "a", status: "completed" }, NOW)).toBe("completed");
+    expect(statusOf({ _id: "a", status: "expired", schedule }, NOW)).toBe("expired");
+  });
+});
+
+describe("settleStatus", () => {
+  const fakeDb = () => {
+    const updateOne = vi.fn(async () => ({ modifiedCount: 1 }));
+    return { db: { collection: () => ({ updateOne }) } as unknown as Db, updateOne };
+  };
+
+  it("writes a status that moved on, guarded by the old one", async () => {
+    const { db, updateOne } = fakeDb();
+    const status = await settleStatus(db, { _id: "a", status: "scheduled", schedule }, NOW + 3_600_001);
+    expect(status).toBe("expired");
+    expect(updateOne).toHaveBeenCalledWith({ _id: "a", status: "scheduled" }, { $set: { status: "expired" } });
+  });
+
+  it("leaves current and legacy interviews alone", async () => {
+    const { db, updateOne } = fakeDb();
+    expect(await settleStatus(db, { _id: "a", status: "in_progress", deadline: iso(0) }, NOW)).toBe("in_progress");
+    expect(await settleStatus(db, { _id: "b", endedAt: iso(0) }, NOW)).toBe("completed");
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+});
+
+describe("sessionEnd", () => {
+  it("stamps the receive time, capped at the deadline", () => {
+    expect(sessionEnd({ _id: "a", deadline: iso(60_000) }, NOW)).toBe(iso(0));
+    expect(sessionEnd({ _id: "a", deadline: iso(-60_000) }, NOW)).toBe(iso(-60_000));
+    expect(sessionEnd({ _id: "a" }, NOW)).toBe(iso(0));
+  });
+});
+
+describe("uploadsClosed", () => {
+  it("closes LATE_UPLOAD_GRACE_MS after the deadline or the end, whichever is first", () => {
+    const running: InterviewDoc = { _id: "a", status: "in_progress", deadline: iso(0) };
+    expect(uploadsClosed(running, NOW + LATE_UPLOAD_GRACE_MS)).toBe(false);
+    expect(uploadsClosed(running, NOW + LATE_UPLOAD_GRACE_MS + 1)).toBe(true);
+    expect(uploadsClosed({ ...running, endedAt: iso(-60_000) }, NOW + LATE_UPLOAD_GRACE_MS)).toBe(true);
+  });
+
+  it("stays open for legacy interviews without a deadline or end", () => {
+    expect(uploadsClosed({ _id: "a" }, NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,177 @@
+// src/lib/lifecycle.ts
+// Interview states and the transitions the routes enforce:
+//   scheduled   -> in_progress  candidate starts recording inside the window
+//   scheduled   -> expired      the window closed without a start
+//   in_progress -> completed    the recording was finalized (endedAt set)
+//   in_progress -> abandoned    still open ABANDON_GRACE_MS after the deadline
+// Time-based transitions are applied lazily: per interview when a route loads
+// it (settleStatus) and in bulk before lists (settleOverdue).
+import type { Db, Document } from "mongodb";
+import type { NextResponse } from "next/server";
+import { refuseRevoked, type Principal } from "@/lib/auth";
+import { apiError, notFound } from "@/lib/http";
+import { interviewKey, type InterviewDoc } from "@/lib/reportData";
+import type { InterviewSchedule, InterviewStatus } from "@/lib/types";
+
+export const DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_MAX_DURATION_MS = 2 * 60 * 60 * 1000;
+/** Past its deadline by this much, an unfinished session counts as abandoned. */
+export const ABANDON_GRACE_MS = 30 * 60 * 1000;
+/** Recording chunks and takes are refused once the session is over (or overdue) by this much. */
+export const LATE_UPLOAD_GRACE_MS = 2 * 60 * 60 * 1000;
+/** Candidate tokens outlive the latest possible end by this much, so queued uploads can finish. */
+const UPLOAD_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/** States each kind of candidate request (and the staff end action) is allowed in. */
+const ALLOWED = {
+  prepare: ["scheduled", "in_progress"],               // system check, identity photos, heartbeats
+  start: ["scheduled", "in_progress"],                 // in_progress: the page was reloaded mid-session
+  upload: ["in_progress", "completed", "abandoned"],   // events and recordings may arrive after the end
+  end: ["in_progress"],                                // an interviewer sets endedAt (PATCH)
+} satisfies Record<string, InterviewStatus[]>;
+
+export type CandidateAction = keyof typeof ALLOWED;
+
+/** Fields statusOf and the token check read; merged into every projection used with them. */
+const LIFECYCLE_FIELDS = { status: 1, schedule: 1, deadline: 1, endedAt: 1, tokenGen: 1 } as const;
+
+/** Status with the time-based transitions applied. */
+export function statusOf(doc: InterviewDoc, now = Date.now()): InterviewStatus {
+  const ended = typeof doc.endedAt === "string";
+  switch (doc.status) {
+    case undefined:
+      return ended ? "completed" : "in_progress"; // created before scheduling existed
+    case "scheduled":
+      return doc.schedule && now > Date.parse(doc.schedule.windowEnd) ? "expired" : "scheduled";
+    case "in_progress":
+      if (ended) return "completed";
+      return doc.deadline && now > Date.parse(doc.deadline) + ABANDON_GRACE_MS ? "abandoned" : "in_progress";
+    default:
+      return doc.status;
+  }
+}
+
+/** statusOf, written back when it moved on (unless someone changed the status meanwhile). */
+export async function settleStatus(db: Db, doc: InterviewDoc, now = Date.now()): Promise<InterviewStatus> {
+  const status = statusOf(doc, now);
+  if (doc.status !== undefined && status !== doc.status) {
+    await db
+      .collection<InterviewDoc>("interviews")
+      .updateOne({ _id: doc._id, status: doc.status }, { $set: { status } });
+  }
+  return status;
+}
+
+/** Bulk settleStatus for lists. */
+export async function settleOverdue(db: Db, now = Date.now()) {
+  const col = db.collection<InterviewDoc>("interviews");
+  const iso = new Date(now).toISOString();
+  await Promise.all([
+    col.updateMany({ status: "scheduled", "schedule.windowEnd": { $lt: iso } }, { $set: { status: "expired" } }),
+    col.updateMany({ status: "in_progress", endedAt: { $type: "string" } }, { $set: { status: "completed" } }),
+    col.updateMany(
+      {
+        status: "in_progress",
+        endedAt: { $not: { $type: "string" } },
+        deadline: { $lt: new Date(now - ABANDON_GRACE_MS).toISOString() },
+      },
+      { $set: { status: "abandoned" } }
+    ),
+  ]);
+}
+
+/** Schedule from the create request; a list of problems if it does not make sense. */
+export function buildSchedule(
+  input: { windowStart?: string; windowEnd?: string; maxDurationMin?: number },
+  now = Date.now()
+): { ok: true; schedule: InterviewSchedule } | { ok: false; issues: { path: string; message: string }[] } {
+  const start = input.windowStart ? Date.parse(input.windowStart) : now;
+  const end = input.windowEnd ? Date.parse(input.windowEnd) : start + DEFAULT_WINDOW_MS;
+  const issues: { path: string; message: string }[] = [];
+  if (end <= start) issues.push({ path: "windowEnd", message: "must be after windowStart" });
+  if (end <= now) issues.push({ path: "windowEnd", message: "must be in the future" });
+  if (issues.length) return { ok: false, issues };
+  return {
+    ok: true,
+    schedule: {
+      windowStart: new Date(start).toISOString(),
+      windowEnd: new Date(end).toISOString(),
+      maxDurationMs: input.maxDurationMin ? input.maxDurationMin * 60_000 : DEFAULT_MAX_DURATION_MS,
+    },
+  };
+}
+
+/** Candidate tokens for a scheduled interview stay valid until the latest possible end plus upload time. */
+export function candidateTokenExpiry(schedule: InterviewSchedule) {
+  return Date.parse(schedule.windowEnd) + schedule.maxDurationMs + UPLOAD_GRACE_MS;
+}
+
+/** The end the server records for a session finished now: the receive time, never past the deadline. */
+export function sessionEnd(doc: InterviewDoc, now = Date.now()): string {
+  return new Date(doc.deadline ? Math.min(now, Date.parse(doc.deadline)) : now).toISOString();
+}
+
+/** true once recording uploads are late: past the end or the deadline (the earlier) plus LATE_UPLOAD_GRACE_MS. */
+export function uploadsClosed(doc: InterviewDoc, now = Date.now()): boolean {
+  const ends = [doc.endedAt, doc.deadline].filter((s): s is string => typeof s === "string").map(Date.parse);
+  return ends.length > 0 && now > Math.min(...ends) + LATE_UPLOAD_GRACE_MS;
+}
+
+/** 409 naming the current state. */
+export function stateConflict(status: InterviewStatus, message = `interview is ${status}`) {
+  return apiError(409, "CONFLICT", message);
+}
+
+/**
+ * Load an interview for a candidate route, refuse a revoked candidate token and
+ * check that `action` is allowed in its current state. Lifecycle fields are
+ * always loaded on top of `projection`.
+ */
+export async function loadForCandidate(
+  db: Db,
+  id: string,
+  action: CandidateAction,
+  principal: Principal,
+  projection: Document = { _id: 1 }
+): Promise<{ ok: true; interview: InterviewDoc; status: InterviewStatus } | { ok: false; response: NextResponse }> {
+  const interview = await db
+    .collection<InterviewDoc>("interviews")
+    .findOne({ _id: interviewKey(id) }, { projection: { ...projection, ...LIFECYCLE_FIELDS } });
+  if (!interview) return { ok: false, response: notFound() };
+  const revoked = refuseRevoked(principal, interview);
+  if (revoked) return { ok: false, response: revoked };
+  const status = await settleStatus(db, interview);
+  if (!(ALLOWED[action] as InterviewStatus[]).includes(status)) return { ok: false, response: stateConflict(status) };
+  return { ok: true, interview, status };
+}
+
+/**
+ * scheduled -> in_progress, inside the window; fixes the recording deadline.
+ * A session that is already running returns its deadline again (page reload).
+ */
+export async function startInterview(
+  db: Db,
+  doc: InterviewDoc,
+  now = Date.now()
+): Promise<{ ok: true; startedAt: string | null; deadline: string | null } | { ok: false; message: string }> {
+  if (doc.status !== "scheduled") {
+    return { ok: true, startedAt: doc.startedAt ?? null, deadline: doc.deadline ?? null };
+  }
+  const schedule = doc.schedule!;
+  if (now < Date.parse(schedule.windowStart)) {
+    return { ok: false, message: `the interview opens at ${schedule.windowStart}` };
+  }
+  const startedAt = new Date(now).toISOString();
+  const deadline = new Date(now + schedule.maxDurationMs).toISOString();
+  const col = db.collection<InterviewDoc>("interviews");
+  const res = await col.updateOne(
+    { _id: doc._id, status: "scheduled" },
+    { $set: { status: "in_progress", startedAt, deadline } }
+  );
+  if (res.modifiedCount === 0) {
+    // a second tab got there first
+    const cur = await col.findOne({ _id: doc._id }, { projection: { startedAt: 1, deadline: 1 } });
+    return { ok: true, startedAt: cur?.startedAt ?? null, deadline: cur?.deadline ?? null };
+  }
+  return { ok: true, startedAt, deadline };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { liveScore, liveScorer } from "@/lib/live";
+import type { ScoringPolicy } from "@/lib/types";
+
+const policy: Pick<ScoringPolicy, "rules" | "mode"> = {
+  rules: { PHONE_DETECTED: { per: 10, cap: 30 }, FOCUS_LOST_5S: { per: 2, cap: 20 } },
+};
+const interview = { startedAt: "2024-06-01T12:00:00.000Z", endedAt: "2024-06-01T12:10:00.000Z" };
+const ev = (t: number, type: string) => ({ t, type });
+
+describe("liveScorer", () => {
+  it("gives the same score fed incrementally as liveScore over all events", () => {
+    const events = [ev(1000, "PHONE_DETECTED"), ev(5000, "FOCUS_LOST_5S"), ev(9000, "PHONE_DETECTED")];
+    const scorer = liveScorer(policy);
+    scorer.add(events[0]);
+    expect(scorer.score(interview).score).toBe(90);
+    scorer.add(events[1]);
+    scorer.add(events[2]);
+    expect(scorer.score(interview)).toEqual(liveScore(events, interview, policy));
+    expect(scorer.score(interview)).toMatchObject({ score: 78, counts: { PHONE_DETECTED: 2, FOCUS_LOST_5S: 1 } });
+  });
+
+  it("scores against the time elapsed so far while the interview is open", () => {
+    const timePolicy = { ...policy, mode: "time" as const };
+    const open = { startedAt: interview.startedAt };
+    const now = Date.parse(interview.startedAt) + 60_000;
+    const lost = { t: 30_000, type: "FOCUS_LOST_5S", meta: { durationMs: 6000 } };
+    const scorer = liveScorer(timePolicy);
+    scorer.add(lost);
+    expect(scorer.score(open, now)).toEqual(liveScore([lost], open, timePolicy, now));
+    expect(scorer.score(open, now).score).toBeLessThan(scorer.score(open, now + 540_000).score);
+  });
+});
@@ -0,0 +1,90 @@
+// src/lib/live.ts
+// Server side of live monitoring: change notifications for one interview and the running score.
+import type { ChangeStream, Db } from "mongodb";
+import type { EventRow } from "@/lib/report";
+import type { InterviewDoc } from "@/lib/reportData";
+import { scoreTally } from "@/lib/scoring";
+import type { ScoringPolicy } from "@/lib/types";
+
+/** How often the candidate page reports its status. */
+export const HEARTBEAT_MS = 5000;
+/** A session whose last heartbeat is older than this is considered stalled. */
+export const STALE_AFTER_MS = 20_000;
+/** Polling interval when change streams are unavailable (standalone mongod). */
+const POLL_MS = 2000;
+
+/**
+ * Calls `wake` whenever the interview document or its events may have changed:
+ * through change streams on a replica set / Atlas, otherwise on a polling timer.
+ * Returns a function that stops watching.
+ */
+export function watchInterview(db: Db, interview: Pick<InterviewDoc, "_id">, wake: () => void): () => void {
+  let streams: ChangeStream[] = [];
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  const closeStreams = () => {
+    for (const s of streams) void s.close().catch(() => undefined);
+    streams = [];
+  };
+  const fallBackToPolling = () => {
+    closeStreams();
+    if (!closed && !timer) timer = setInterval(wake, POLL_MS);
+  };
+
+  try {
+    streams = [
+      db
+        .collection("events")
+        .watch([{ $match: { operationType: "insert", "fullDocument.interviewId": String(interview._id) } }]),
+      db.collection("interviews").watch([{ $match: { "documentKey._id": interview._id } }]),
+    ];
+    for (const s of streams) {
+      s.on("change", wake);
+      s.on("error", fallBackToPolling);
+    }
+  } catch {
+    fallBackToPolling();
+  }
+
+  return () => {
+    closed = true;
+    closeStreams();
+    if (timer) clearInterval(timer);
+  };
+}
+
+type LiveEvent = Pick<EventRow, "t" | "type" | "meta">;
+
+/**
+ * Running score for a live view: events are added as they arrive and not kept,
+ * so the cost of a connection does not grow with the session. They arrive in
+ * seq order, which is `t` order except for a late batch after a reconnect.
+ */
+export function liveScorer(policy: Pick<ScoringPolicy, "rules" | "mode">) {
+  const tally = scoreTally();
+  return {
+    add(e: LiveEvent) {
+      tally.add(e);
+    },
+    /** Score so far: an open interview is scored against the time elapsed until now. */
+    score(interview: Pick<InterviewDoc, "startedAt" | "endedAt">, now = Date.now()) {
+      const start = interview.startedAt ? new Date(interview.startedAt).getTime() : now;
+      const end = interview.endedAt ? new Date(interview.endedAt).getTime() : now;
+      const { counts, integrity } = tally.score(Math.max(0, end - start), policy);
+      return { score: integrity.score, breakdown: integrity.breakdown, counts: { ...counts } };
+    },
+  };
+}
+
+/** liveScore for events already loaded. */
+export function liveScore(
+  events: LiveEvent[],
+  interview: Pick<InterviewDoc, "startedAt" | "endedAt">,
+  policy: Pick<ScoringPolicy, "rules" | "mode">,
+  now = Date.now()
+) {
+  const scorer = liveScorer(policy);
+  for (const e of [...events].sort((a, b) => a.t - b.t)) scorer.add(e);
+  return scorer.score(interview, now);
+}
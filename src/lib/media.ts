@@ -0,0 +1,15 @@
+// src/lib/media.ts
+// Recording format shared by the interview page and the pre-interview system check.
+
+const MIME_CANDIDATES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+];
+
+/** First WebM flavour this browser can record; undefined when MediaRecorder is missing. */
+export function pickSupportedMime(): string | undefined {
+  if (typeof MediaRecorder === "undefined") return undefined;
+  for (const mt of MIME_CANDIDATES) if (MediaRecorder.isTypeSupported(mt)) return mt;
+  return undefined;
+}
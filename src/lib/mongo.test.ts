@@ -0,0 +1,26 @@
+import type { Db } from "mongodb";
+import { describe, expect, it, vi } from "vitest";
+import { indexesOnce } from "@/lib/mongo";
+
+describe("indexesOnce", () => {
+  it("creates the indexes once per database", async () => {
+    const create = vi.fn(async () => "ok");
+    const ensure = indexesOnce(create);
+    const a = {} as Db;
+    const b = {} as Db;
+    await Promise.all([ensure(a), ensure(a)]);
+    await ensure(a);
+    await ensure(b);
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+
+  it("tries again after a failure", async () => {
+    const create = vi.fn().mockRejectedValueOnce(new Error("not primary")).mockResolvedValue("ok");
+    const ensure = indexesOnce(create);
+    const db = {} as Db;
+    await expect(ensure(db)).rejects.toThrow("not primary");
+    await ensure(db);
+    await ensure(db);
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+});
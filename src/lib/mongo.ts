@@ -6,6 +6,23 @@ const dbName = process.env.MONGODB_DB || "tutedude";
 let client: MongoClient | null = null;
 let db: Db | null = null;
 
+/**
+ * Wrap a module's createIndex calls so they run once per process (per Db)
+ * instead of on every write; a failed attempt is forgotten and tried again.
+ */
+export function indexesOnce(create: (db: Db) => Promise<unknown>): (db: Db) => Promise<void> {
+  const created = new WeakMap<Db, Promise<void>>();
+  return (db) => {
+    let p = created.get(db);
+    if (!p) {
+      p = create(db).then(() => undefined);
+      p.catch(() => created.delete(db));
+      created.set(db, p);
+    }
+    return p;
+  };
+}
+
 export async function getDb() {
   if (db) return db;
   if (!client) client = new MongoClient(uri);
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isBlockedAddress, resolvedTargetIssue, targetIssue } from "@/lib/netGuard";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("isBlockedAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.31.255.255",
+    "192.168.0.10",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "::",
+    "fe80::1",
+    "fd00::1",
+    "::ffff:7f00:1",
+  ])("blocks %s", (ip) => {
+    expect(isBlockedAddress(ip)).toBe(true);
+  });
+
+  it.each(["8.8.8.8", "172.32.0.1", "2606:4700::1111"])("allows %s", (ip) => {
+    expect(isBlockedAddress(ip)).toBe(false);
+  });
+});
+
+describe("targetIssue", () => {
+  it("accepts public http(s) URLs", () => {
+    expect(targetIssue("https://hooks.example.com/in?x=1")).toBeNull();
+    expect(targetIssue("http://8.8.8.8:8080/")).toBeNull();
+  });
+
+  it.each([
+    "http://localhost:3000/hook",
+    "http://api.localhost/hook",
+    "http://127.0.0.1/",
+    "http://2130706433/",
+    "http://[::1]/",
+    "http://[::ffff:127.0.0.1]/",
+    "http://169.254.169.254/latest/meta-data",
+  ])("rejects %s", (url) => {
+    expect(targetIssue(url)).toMatch(/loopback, private or link-local/);
+  });
+
+  it("rejects other schemes", () => {
+    expect(targetIssue("ftp://example.com/")).toBe("must use http or https");
+  });
+
+  it("allows private targets when WEBHOOK_ALLOW_PRIVATE=1", () => {
+    vi.stubEnv("WEBHOOK_ALLOW_PRIVATE", "1");
+    expect(targetIssue("http://localhost:3000/hook")).toBeNull();
+  });
+});
+
+describe("resolvedTargetIssue", () => {
+  it("refuses names that resolve to loopback", async () => {
+    expect(await resolvedTargetIssue("http://localhost/hook")).toMatch(/loopback/);
+  });
+
+  it("passes public IP literals without a lookup", async () => {
+    expect(await resolvedTargetIssue("https://1.1.1.1/hook")).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+// src/lib/netGuard.ts
+// Keeps server-side requests to user-supplied URLs (webhooks) off loopback,
+// private and link-local networks, so they cannot reach internal services.
+// WEBHOOK_ALLOW_PRIVATE=1 lifts the check for local development.
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+const blocked = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8],          // "this" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],      // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],     // link-local, cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],      // benchmarking
+  ["224.0.0.0", 3],        // multicast and reserved
+] as const) {
+  blocked.addSubnet(net, prefix, "ipv4");
+}
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are matched against the IPv4 rules
+for (const [net, prefix] of [
+  ["::", 127],             // unspecified and loopback
+  ["64:ff9b::", 96],       // NAT64
+  ["fc00::", 7],           // unique local
+  ["fe80::", 10],          // link-local
+  ["ff00::", 8],           // multicast
+] as const) {
+  blocked.addSubnet(net, prefix, "ipv6");
+}
+
+const allowPrivate = () => process.env.WEBHOOK_ALLOW_PRIVATE === "1";
+
+/** true for loopback, private, link-local and other non-public addresses. */
+export function isBlockedAddress(ip: string): boolean {
+  const family = isIP(ip);
+  if (family === 0) return false;
+  return blocked.check(ip, family === 4 ? "ipv4" : "ipv6");
+}
+
+/** Why `url` may not be a target (scheme, localhost, a non-public IP literal), or null. */
+export function targetIssue(url: string): string | null {
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch {
+    return "must be an absolute URL";
+  }
+  if (u.protocol !== "http:" && u.protocol !== "https:") return "must use http or https";
+  if (allowPrivate()) return null;
+  const host = u.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost") || isBlockedAddress(host)) {
+    return "must not point at a loopback, private or link-local address";
+  }
+  return null;
+}
+
+/** targetIssue, plus every address the host resolves to right now. */
+export async function resolvedTargetIssue(url: string): Promise<string | null> {
+  const issue = targetIssue(url);
+  if (issue || allowPrivate()) return issue;
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host)) return null;
+  const addrs = await lookup(host, { all: true }).catch(() => []);
+  if (addrs.length === 0) return `${host} does not resolve`;
+  const bad = addrs.find((a) => isBlockedAddress(a.address));
+  return bad ? `${host} resolves to a non-public address (${bad.address})` : null;
+}
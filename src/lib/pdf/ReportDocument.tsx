@@ -0,0 +1,206 @@
+// src/lib/pdf/ReportDocument.tsx
+import {
+  Document,
+  Image as PdfImage,
+  Page,
+  Rect,
+  StyleSheet,
+  Svg,
+  Text,
+  View,
+  renderToBuffer,
+} from "@react-pdf/renderer";
+import type { EventRow } from "@/lib/report";
+import type { ReportData } from "@/lib/reportData";
+import { FALLBACK_COLOR, TYPE_COLORS } from "@/lib/eventColors";
+import { readSnapshot } from "@/lib/snapshots";
+
+const CHART_W = 380;
+const MAX_THUMBS = 6;
+
+const s = StyleSheet.create({
+  page: { padding: 36, fontSize: 10, fontFamily: "Helvetica", color: "#111" },
+  h1: { fontSize: 18, fontFamily: "Helvetica-Bold", marginBottom: 4 },
+  h2: { fontSize: 12, fontFamily: "Helvetica-Bold", marginTop: 16, marginBottom: 6 },
+  muted: { color: "#666" },
+  row: { flexDirection: "row" },
+  meta: { flexDirection: "row", marginBottom: 2 },
+  metaKey: { width: 90, color: "#666" },
+  score: { fontSize: 28, fontFamily: "Helvetica-Bold", marginRight: 12 },
+  flag: { borderRadius: 8, paddingVertical: 3, paddingHorizontal: 8, marginRight: 6, fontSize: 9 },
+  th: { fontFamily: "Helvetica-Bold", borderBottomWidth: 1, borderColor: "#ccc", paddingVertical: 3 },
+  td: { borderBottomWidth: 0.5, borderColor: "#e2e2e2", paddingVertical: 3 },
+  laneLabel: { width: 110, fontSize: 8 },
+  thumb: { width: 160, marginRight: 8, marginBottom: 8 },
+});
+
+function msToHMS(ms: number) {
+  const sec = Math.max(0, Math.round(ms / 1000));
+  const hh = Math.floor(sec / 3600);
+  const mm = Math.floor((sec % 3600) / 60);
+  const ss = sec % 60;
+  if (hh) return `${hh}h ${mm}m ${ss}s`;
+  if (mm) return `${mm}m ${ss}s`;
+  return `${ss}s`;
+}
+
+function systemCheckLine(check: ReportData["systemCheck"]) {
+  if (!check) return "not run";
+  const failed = Object.entries(check.checks).filter(([, c]) => !c.ok).map(([name]) => name);
+  return check.passed ? `passed ${check.at}` : `failed (${failed.join(", ")}) ${check.at}`;
+}
+
+function identityLine(identity: ReportData["identity"]) {
+  if (!identity.reference) return "no reference photo";
+  const sim = identity.similarity;
+  if (!sim) return `reference photo ${identity.capturedAt ?? ""}, not re-checked`;
+  return `similarity mean ${sim.mean}, min ${sim.min} over ${sim.checks} re-matches – ${identity.mismatches} mismatch event(s)`;
+}
+
+function Flag({ label, on }: { label: string; on: boolean }) {
+  return (
+    <Text style={[s.flag, { backgroundColor: on ? "#fde2e2" : "#dff5e7", color: on ? "#b42318" : "#1a7f45" }]}>
+      {label}: {on ? "Yes" : "No"}
+    </Text>
+  );
+}
+
+/** One lane per event type; intervals as bars, individual events as ticks. */
+function Timeline({ report, events }: { report: ReportData; events: EventRow[] }) {
+  const total = Math.max(report.interview.durationMs, events.at(-1)?.t ?? 0, 1);
+  const x = (t: number) => (Math.min(t, total) / total) * CHART_W;
+  const types = Array.from(new Set(events.map((e) => e.type)));
+
+  if (types.length === 0) return <Text style={s.muted}>No events captured.</Text>;
+
+  return (
+    <View>
+      {types.map((type) => {
+        const color = TYPE_COLORS[type] ?? FALLBACK_COLOR;
+        return (
+          <View key={type} style={[s.row, { alignItems: "center", marginBottom: 3 }]}>
+            <Text style={s.laneLabel}>{type}</Text>
+            <Svg width={CHART_W} height={10}>
+              <Rect x={0} y={0} width={CHART_W} height={10} fill="#f2f2f2" />
+              {report.intervals
+                .filter((iv) => iv.type === type)
+                .map((iv, i) => (
+                  <Rect key={i} x={x(iv.start)} y={1} width={Math.max(1, x(iv.end) - x(iv.start))} height={8} fill={color} fillOpacity={0.45} />
+                ))}
+              {events
+                .filter((e) => e.type === type)
+                .map((e, i) => (
+                  <Rect key={`e${i}`} x={x(e.t)} y={0} width={1} height={10} fill={color} />
+                ))}
+            </Svg>
+          </View>
+        );
+      })}
+      <View style={[s.row, { marginLeft: 110, width: CHART_W, justifyContent: "space-between" }]}>
+        <Text style={s.muted}>0s</Text>
+        <Text style={s.muted}>{msToHMS(total)}</Text>
+      </View>
+    </View>
+  );
+}
+
+/** An evidence snapshot with its bytes loaded (signed URLs may not be reachable from the server). */
+type Thumb = { t: number; type: string; data: Buffer };
+
+function ReportDocument({ report, events, thumbs }: { report: ReportData; events: EventRow[]; thumbs: Thumb[] }) {
+  const { interview, integrity, policy, chain } = report;
+
+  return (
+    <Document title={`Proctoring report ${interview._id}`}>
+      <Page size="A4" style={s.page}>
+        <Text style={s.h1}>Interview Integrity Report</Text>
+        <Text style={[s.muted, { marginBottom: 10 }]}>Interview {interview._id}</Text>
+
+        {/* Meta */}
+        {[
+          ["Candidate", interview.candidateName ?? ""],
+          ["Started", interview.startedAt ?? ""],
+          ["Ended", interview.endedAt ?? ""],
+          ["Duration", msToHMS(interview.durationMs)],
+          ["Policy", `${policy.name} v${policy.version} (${policy.mode})`],
+          ["Review", `${report.review.dismissed} dismissed, ${report.review.disputed} disputed, ${report.review.confirmed} confirmed – raw score ${report.rawIntegrity.score}`],
+          ["System check", systemCheckLine(report.systemCheck)],
+          ["Identity", identityLine(report.identity)],
+          ["Event log", `${chain.status}${chain.issueCount ? ` – ${chain.issueCount} issue(s)` : ""}`],
+        ].map(([k, v]) => (
+          <View key={k} style={s.meta}>
+            <Text style={s.metaKey}>{k}</Text>
+            <Text>{v}</Text>
+          </View>
+        ))}
+
+        {/* Score & flags */}
+        <View style={[s.row, { alignItems: "center", flexWrap: "wrap", marginTop: 12 }]}>
+          <Text style={s.score}>{integrity.score}</Text>
+          <Flag label="Phone shown" on={report.phoneDetected} />
+          <Flag label="Multiple faces" on={report.multipleFaces} />
+          <Flag label="Other voices" on={report.otherVoices} />
+          <Flag label="Left the page" on={report.leftPage} />
+          <Flag label="Copy/paste" on={report.clipboardUsed} />
+          <Flag label="Identity mismatch" on={report.identityMismatch} />
+        </View>
+
+        {/* Deductions */}
+        <Text style={s.h2}>Deductions</Text>
+        {integrity.breakdown.length === 0 ? (
+          <Text style={s.muted}>None.</Text>
+        ) : (
+          <View>
+            <View style={s.row}>
+              <Text style={[s.th, { width: 200 }]}>Type</Text>
+              <Text style={[s.th, { width: 80 }]}>Count</Text>
+              <Text style={[s.th, { width: 80 }]}>Seconds</Text>
+              <Text style={[s.th, { width: 80 }]}>Deduction</Text>
+            </View>
+            {integrity.breakdown.map((b) => (
+              <View key={b.type} style={s.row}>
+                <Text style={[s.td, { width: 200 }]}>{b.type}</Text>
+                <Text style={[s.td, { width: 80 }]}>{b.times}</Text>
+                <Text style={[s.td, { width: 80 }]}>{b.seconds ?? ""}</Text>
+                <Text style={[s.td, { width: 80 }]}>-{b.deduct}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Timeline */}
+        <Text style={s.h2}>Timeline</Text>
+        <Timeline report={report} events={events} />
+
+        {/* Key frames */}
+        {thumbs.length > 0 && (
+          <View wrap={false}>
+            <Text style={s.h2}>Key frames</Text>
+            <View style={[s.row, { flexWrap: "wrap" }]}>
+              {thumbs.map((e, i) => (
+                <View key={i} style={s.thumb}>
+                  <PdfImage src={{ data: e.data, format: "jpg" }} />
+                  <Text style={s.muted}>
+                    {(e.t / 1000).toFixed(1)}s {e.type}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+      </Page>
+    </Document>
+  );
+}
+
+/** Render the report to a PDF buffer (server only). */
+export async function renderReportPdf(report: ReportData, events: EventRow[]): Promise<Buffer> {
+  const loaded = await Promise.all(
+    report.evidence
+      .filter((e) => e.status === "ok")
+      .slice(0, MAX_THUMBS)
+      .map(async (e) => ({ t: e.t, type: e.type, data: await readSnapshot(e.key) }))
+  );
+  const thumbs = loaded.filter((e): e is Thumb => e.data !== null);
+  return renderToBuffer(<ReportDocument report={report} events={events} thumbs={thumbs} />);
+}
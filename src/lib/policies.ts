@@ -0,0 +1,138 @@
+// src/lib/policies.ts
+import type { Db } from "mongodb";
+import { indexesOnce } from "@/lib/mongo";
+import type { NextResponse } from "next/server";
+import type { PolicyRef, ScoringPolicy } from "@/lib/types";
+import { DEFAULT_RULES } from "@/lib/report";
+import { apiError } from "@/lib/http";
+
+export const DEFAULT_POLICY_NAME = process.env.SCORING_POLICY || "default";
+
+/** The version an interview is pinned to no longer exists; scoring it under other rules would change its score. */
+export class PolicyMissingError extends Error {
+  constructor(readonly ref: PolicyRef) {
+    super(`scoring policy "${ref.name}" v${ref.version} is missing; restore it to score this interview`);
+  }
+}
+
+/** Used when the "default" policy was never stored in Mongo. */
+const BUILTIN_POLICY: ScoringPolicy = {
+  name: "default",
+  version: 1,
+  rules: DEFAULT_RULES,
+  mode: "count",
+  description: "Built-in rules",
+  createdAt: new Date(0).toISOString(),
+};
+
+function col(db: Db) {
+  return db.collection<ScoringPolicy>("policies");
+}
+
+const ensureIndexes = indexesOnce((db: Db) => col(db).createIndex({ name: 1, version: 1 }, { unique: true }));
+
+/** Latest (highest) version of a named policy, or null. */
+export async function getLatestPolicy(db: Db, name: string): Promise<ScoringPolicy | null> {
+  const doc = await col(db).findOne(
+    { name },
+    { projection: { _id: 0 }, sort: { version: -1 } }
+  );
+  if (doc) return doc;
+  return name === BUILTIN_POLICY.name ? BUILTIN_POLICY : null;
+}
+
+/** One exact policy version, or null. */
+export async function getPolicyVersion(
+  db: Db,
+  name: string,
+  version: number
+): Promise<ScoringPolicy | null> {
+  const doc = await col(db).findOne({ name, version }, { projection: { _id: 0 } });
+  if (doc) return doc;
+  return name === BUILTIN_POLICY.name && version === BUILTIN_POLICY.version ? BUILTIN_POLICY : null;
+}
+
+/**
+ * Policy to pin on a new interview: latest non-archived version of `name`
+ * (or of the deployment default).
+ */
+export async function pinPolicy(db: Db, name = DEFAULT_POLICY_NAME): Promise<PolicyRef | null> {
+  const p = await getLatestPolicy(db, name);
+  if (!p || p.archivedAt) return null;
+  return { name: p.name, version: p.version };
+}
+
+/**
+ * Policy that scores an interview. Interviews created before policies existed
+ * have no pin and are scored with the built-in rules; a pin whose version is
+ * gone throws PolicyMissingError rather than silently substituting other rules.
+ */
+export async function resolvePolicy(db: Db, ref?: PolicyRef | null): Promise<ScoringPolicy> {
+  if (!ref) return BUILTIN_POLICY;
+  const policy = await getPolicyVersion(db, ref.name, ref.version);
+  if (!policy) throw new PolicyMissingError(ref);
+  return policy;
+}
+
+/** resolvePolicy, but null when the pinned version is missing (the interview is shown unscored). */
+export async function resolvePolicyOrNull(db: Db, ref?: PolicyRef | null): Promise<ScoringPolicy | null> {
+  return resolvePolicy(db, ref).catch((e) => {
+    if (e instanceof PolicyMissingError) return null;
+    throw e;
+  });
+}
+
+/** For a route's catch around scoring: 409 naming the missing policy; any other error is rethrown. */
+export function policyConflict(e: unknown): NextResponse {
+  if (e instanceof PolicyMissingError) return apiError(409, "CONFLICT", e.message);
+  throw e;
+}
+
+/** All policies, latest version of each name. */
+export async function listPolicies(db: Db): Promise<ScoringPolicy[]> {
+  const rows = await col(db)
+    .aggregate<ScoringPolicy>([
+      { $sort: { name: 1, version: -1 } },
+      { $group: { _id: "$name", doc: { $first: "$$ROOT" } } },
+      { $replaceRoot: { newRoot: "$doc" } },
+      { $project: { _id: 0 } },
+      { $sort: { name: 1 } },
+    ])
+    .toArray();
+
+  if (!rows.some((p) => p.name === BUILTIN_POLICY.name)) rows.unshift(BUILTIN_POLICY);
+  return rows;
+}
+
+/** Insert the next version of `name` (version 1 if new). */
+export async function savePolicyVersion(
+  db: Db,
+  name: string,
+  input: Pick<ScoringPolicy, "rules" | "mode" | "description">
+): Promise<ScoringPolicy> {
+  const prev = await getLatestPolicy(db, name);
+  const doc: ScoringPolicy = {
+    name,
+    version: (prev?.version ?? 0) + 1,
+    rules: input.rules,
+    mode: input.mode ?? "count",
+    description: input.description,
+    createdAt: new Date().toISOString(),
+  };
+  // (name, version) is unique; a concurrent save of the same version fails loudly
+  await ensureIndexes(db);
+  await col(db).insertOne({ ...doc });
+  return doc;
+}
+
+/**
+ * Archive every version of a policy. Versions are never removed, because
+ * interviews pinned to them must still score the same way.
+ */
+export async function archivePolicy(db: Db, name: string): Promise<number> {
+  const res = await col(db).updateMany(
+    { name, archivedAt: { $exists: false } },
+    { $set: { archivedAt: new Date().toISOString() } }
+  );
+  return res.matchedCount;
+}
@@ -0,0 +1,143 @@
+// src/lib/recordings.ts
+import type { Db } from "mongodb";
+import { indexesOnce } from "@/lib/mongo";
+import { getStorage } from "@/lib/storage";
+
+/** One uploaded MediaRecorder slice. A "take" is one Start→Stop run of the recorder. */
+export type RecordingChunk = {
+  interviewId: string;
+  take: string;
+  seq: number;
+  key: string;
+  size: number;
+  createdAt: string;
+};
+
+/** Finalized take, appended to `interview.recordings`. */
+export type RecordingTake = {
+  take: string;
+  url: string;
+  key: string;
+  chunks: number;
+  bytes: number;
+  finalizedAt: string;
+};
+
+export const MAX_CHUNK_BYTES = 8 * 1024 * 1024;
+
+function col(db: Db) {
+  return db.collection<RecordingChunk>("recording_chunks");
+}
+
+const ensureIndexes = indexesOnce((db: Db) => col(db).createIndex({ interviewId: 1, take: 1, seq: 1 }, { unique: true }));
+
+function chunkKey(interviewId: string, take: string, seq: number) {
+  return `recordings/${interviewId}/${take}/${String(seq).padStart(6, "0")}.part`;
+}
+
+/** Store one chunk. Re-sending the same (take, seq) overwrites it, so retries are safe. */
+export async function storeChunk(
+  db: Db,
+  interviewId: string,
+  take: string,
+  seq: number,
+  bytes: Buffer
+): Promise<RecordingChunk> {
+  const key = chunkKey(interviewId, take, seq);
+  const storage = getStorage();
+  await storage.delete(key).catch(() => undefined); // some backends refuse to overwrite
+  await storage.put(key, bytes, { contentType: "application/octet-stream" });
+
+  const doc: RecordingChunk = {
+    interviewId,
+    take,
+    seq,
+    key,
+    size: bytes.length,
+    createdAt: new Date().toISOString(),
+  };
+  await ensureIndexes(db);
+  await col(db).replaceOne({ interviewId, take, seq }, doc, { upsert: true });
+  return doc;
+}
+
+/** Sequence numbers already received for a take (for resume). */
+export async function listChunkSeqs(db: Db, interviewId: string, take: string): Promise<number[]> {
+  const rows = await col(db)
+    .find({ interviewId, take }, { projection: { _id: 0, seq: 1 }, sort: { seq: 1 } })
+    .toArray();
+  return rows.map((r) => r.seq);
+}
+
+/** Concatenate stored chunks in order into one stream (WebM slices are contiguous). */
+function concatChunks(keys: string[]): ReadableStream<Uint8Array> {
+  const storage = getStorage();
+  let i = 0;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      for (;;) {
+        if (!reader) {
+          if (i >= keys.length) return controller.close();
+          const obj = await storage.get(keys[i++]);
+          if (!obj) throw new Error(`missing chunk ${keys[i - 1]}`);
+          reader = obj.body.getReader();
+        }
+        const { done, value } = await reader.read();
+        if (!done) return controller.enqueue(value);
+        reader = null;
+      }
+    },
+    async cancel() {
+      await reader?.cancel();
+    },
+  });
+}
+
+/**
+ * Assemble chunks 0..total-1 of a take into one file.
+ * Returns the missing sequence numbers instead if any chunk has not arrived.
+ * The parts are kept: discard them once the take is recorded on the interview.
+ */
+export async function assembleTake(
+  db: Db,
+  interviewId: string,
+  take: string,
+  total: number,
+  mimeType: string
+): Promise<{ missing: number[] } | { recording: RecordingTake }> {
+  const chunks = await col(db)
+    .find({ interviewId, take, seq: { $lt: total } }, { sort: { seq: 1 } })
+    .toArray();
+
+  const have = new Set(chunks.map((c) => c.seq));
+  const missing: number[] = [];
+  for (let s = 0; s < total; s++) if (!have.has(s)) missing.push(s);
+  if (missing.length) return { missing };
+
+  const ext = mimeType.includes("mp4") ? "mp4" : "webm";
+  const key = `videos/${interviewId}-${take}.${ext}`;
+  const storage = getStorage();
+  await storage.delete(key).catch(() => undefined);
+  const res = await storage.put(key, concatChunks(chunks.map((c) => c.key)), { contentType: mimeType });
+
+  return {
+    recording: {
+      take,
+      url: res.url,
+      key: res.key,
+      chunks: total,
+      bytes: chunks.reduce((n, c) => n + c.size, 0),
+      finalizedAt: new Date().toISOString(),
+    },
+  };
+}
+
+/** Drop a take's parts (objects first, so a failure leaves rows to retry from). */
+export async function discardChunks(db: Db, interviewId: string, take: string): Promise<void> {
+  const storage = getStorage();
+  const chunks = await col(db).find({ interviewId, take }, { projection: { _id: 0, key: 1 } }).toArray();
+  await Promise.all(chunks.map((c) => storage.delete(c.key)));
+  await col(db).deleteMany({ interviewId, take });
+}
@@ -0,0 +1,45 @@
+// src/lib/rejectedEvents.ts
+// Events POST /api/events refused for good (failed validation, interview closed).
+// The candidate's outbox reports them here instead of dropping them, so staff can
+// see what was lost and why. They never enter the event log or the score.
+import type { Db } from "mongodb";
+import { indexesOnce } from "@/lib/mongo";
+import type { Issue } from "@/lib/validate";
+
+export type RejectedEvent = {
+  interviewId: string;
+  eventId: string;
+  status: number;              // HTTP status of the refusal
+  issues?: Issue[];            // the validation issues that named this event
+  payload: string;             // the event as the client held it (JSON, possibly truncated)
+  rejectedAt: string;          // client clock
+  reportedAt: string;
+};
+
+/** Newest reports returned per interview. */
+const LIST_LIMIT = 500;
+
+function col(db: Db) {
+  return db.collection<RejectedEvent>("rejected_events");
+}
+
+const ensureIndexes = indexesOnce((db: Db) => col(db).createIndex({ interviewId: 1, eventId: 1 }, { unique: true }));
+
+/** Store reported rejections; re-reporting an event replaces its row. */
+export async function recordRejected(db: Db, rows: RejectedEvent[]): Promise<number> {
+  if (rows.length === 0) return 0;
+  await ensureIndexes(db);
+  await col(db).bulkWrite(
+    rows.map((r) => ({
+      replaceOne: { filter: { interviewId: r.interviewId, eventId: r.eventId }, replacement: r, upsert: true },
+    })),
+    { ordered: false }
+  );
+  return rows.length;
+}
+
+export async function listRejected(db: Db, interviewId: string): Promise<RejectedEvent[]> {
+  return col(db)
+    .find({ interviewId }, { projection: { _id: 0 }, sort: { reportedAt: -1 }, limit: LIST_LIMIT })
+    .toArray();
+}
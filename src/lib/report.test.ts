@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { computeIntegrity, computeTimeWeighted, mergeIntervals, type EventRow } from "@/lib/report";
+
+const ev = (type: string, t: number, meta?: Record<string, unknown>): EventRow => ({
+  interviewId: "i1",
+  type,
+  t,
+  meta,
+  createdAt: new Date(t).toISOString(),
+});
+
+describe("mergeIntervals", () => {
+  it("merges events of one type that are within the gap", () => {
+    const out = mergeIntervals([ev("NO_FACE_10S", 12_000, { durationMs: 10_000 }), ev("NO_FACE_10S", 14_000)]);
+    expect(out).toEqual([{ type: "NO_FACE_10S", start: 2_000, end: 14_000, durationMs: 12_000, events: 2 }]);
+  });
+
+  it("starts a new interval after the gap", () => {
+    const out = mergeIntervals([ev("TAB_HIDDEN", 2_000), ev("TAB_HIDDEN", 10_000)]);
+    expect(out.map((iv) => [iv.start, iv.end])).toEqual([
+      [1_000, 2_000],
+      [9_000, 10_000],
+    ]);
+  });
+
+  it("keeps types apart and sorts unsorted input", () => {
+    const out = mergeIntervals([ev("PHONE_DETECTED", 5_000, { persistedMs: 2_000 }), ev("TAB_HIDDEN", 1_500)]);
+    expect(out.map((iv) => iv.type)).toEqual(["TAB_HIDDEN", "PHONE_DETECTED"]);
+    expect(out[1]).toMatchObject({ start: 3_000, end: 5_000, durationMs: 2_000 });
+  });
+
+  it("clamps spans at the interview start", () => {
+    expect(mergeIntervals([ev("NO_FACE_10S", 500, { durationMs: 10_000 })])[0].start).toBe(0);
+  });
+});
+
+describe("computeTimeWeighted", () => {
+  const rules = { NO_FACE_10S: { per: 2, cap: 25 }, TAB_HIDDEN: { per: 1, perPct: 0.5, cap: 10 } };
+
+  it("deducts per percent of the interview spent in violation", () => {
+    const intervals = mergeIntervals([ev("NO_FACE_10S", 10_000, { durationMs: 10_000 })]);
+    const { score, breakdown } = computeTimeWeighted(intervals, 200_000, rules);
+    expect(breakdown).toEqual([{ type: "NO_FACE_10S", times: 1, deduct: 10, seconds: 10 }]);
+    expect(score).toBe(90);
+  });
+
+  it("prefers perPct and applies the cap", () => {
+    const intervals = mergeIntervals([ev("TAB_HIDDEN", 60_000, { durationMs: 60_000 })]);
+    expect(computeTimeWeighted(intervals, 100_000, rules).breakdown[0].deduct).toBe(10);
+  });
+
+  it("deducts nothing without a duration or a rule", () => {
+    const intervals = mergeIntervals([ev("NO_FACE_10S", 5_000), ev("UNKNOWN", 5_000)]);
+    expect(computeTimeWeighted(intervals, 0, rules)).toEqual({
+      score: 100,
+      breakdown: [{ type: "NO_FACE_10S", times: 1, deduct: 0, seconds: 1 }],
+    });
+  });
+});
+
+describe("computeIntegrity", () => {
+  it("caps each type and orders the breakdown by deduction", () => {
+    const { score, breakdown } = computeIntegrity({ PHONE_DETECTED: 5, TAB_HIDDEN: 1, UNKNOWN: 3 });
+    expect(breakdown).toEqual([
+      { type: "PHONE_DETECTED", times: 5, deduct: 30 },
+      { type: "TAB_HIDDEN", times: 1, deduct: 5 },
+    ]);
+    expect(score).toBe(65);
+  });
+});
@@ -1,14 +1,18 @@
 // src/lib/report.ts
 import type { Db } from "mongodb";
+import type { ScoringPolicy, ScoringRule } from "@/lib/types";
 
 /** Minimal shape of an event row used by reports. */
 export type EventRow = {
+  eventId?: string;
   interviewId: string;
   t: number;                           // ms since interview start
   type: string;
   confidence?: number;
   meta?: Record<string, unknown>;
   createdAt: string;
+  seq?: number;
+  receivedAt?: string;
 };
 
 export type CountMap = Record<string, number>;
@@ -20,23 +24,38 @@ export function summarizeCounts(events: EventRow[]): CountMap {
   return m;
 }
 
-/** Scoring rules (deductions). Tweak as you like. */
-const RULES: Record<string, { per: number; cap: number }> = {
+/** One line of the deductions table (`seconds` only in time mode). */
+export type BreakdownRow = { type: string; times: number; deduct: number; seconds?: number };
+
+/** Built-in scoring rules (deductions), used when no stored policy applies. */
+export const DEFAULT_RULES: Record<string, ScoringRule> = {
   FOCUS_LOST_5S:   { per: 2,  cap: 20 },
   NO_FACE_10S:     { per: 5,  cap: 25 },
   MULTIPLE_FACES:  { per: 15, cap: 30 },
   PHONE_DETECTED:  { per: 10, cap: 30 },
   BOOK_DETECTED:   { per: 5,  cap: 20 },
   EXTRA_DEVICE:    { per: 5,  cap: 20 },
+  BACKGROUND_VOICE:  { per: 5,  cap: 20 },
+  MULTIPLE_SPEAKERS: { per: 10, cap: 30 },
+  SUSTAINED_NOISE:   { per: 2,  cap: 10 },
+  TAB_HIDDEN:         { per: 5,  cap: 25 },
+  WINDOW_BLUR:        { per: 2,  cap: 15 },
+  FULLSCREEN_EXIT:    { per: 3,  cap: 15 },
+  COPY_PASTE:         { per: 5,  cap: 20 },
+  DEVTOOLS_SUSPECTED: { per: 10, cap: 20 },
+  IDENTITY_MISMATCH:  { per: 15, cap: 30 },
 };
 
 /** Compute final score + a readable breakdown. */
-export function computeIntegrity(counts: CountMap) {
+export function computeIntegrity(
+  counts: CountMap,
+  rules: Record<string, ScoringRule> = DEFAULT_RULES
+) {
   let score = 100;
-  const breakdown: Array<{ type: string; times: number; deduct: number }> = [];
+  const breakdown: BreakdownRow[] = [];
 
   for (const [type, n] of Object.entries(counts)) {
-    const r = RULES[type];
+    const r = rules[type];
     if (!r) continue;
     const deduct = Math.min(r.per * n, r.cap);
     score = Math.max(0, score - deduct);
@@ -47,6 +66,129 @@ export function computeIntegrity(counts: CountMap) {
   return { score, breakdown };
 }
 
+/** A stretch of time in which one violation type was continuously present. */
+export type ViolationInterval = {
+  type: string;
+  start: number;                       // ms since interview start
+  end: number;
+  durationMs: number;
+  events: number;                      // how many events were merged into it
+};
+
+/** Events further apart than this start a new interval. */
+const MERGE_GAP_MS = 3000;
+/** Shortest span a single event counts for. */
+const MIN_SPAN_MS = 1000;
+
+/**
+ * Detectors fire at the END of a violation window and report how long it
+ * lasted (`durationMs` from face focus, `persistedMs` from object detection).
+ */
+export function eventSpanMs(e: Pick<EventRow, "meta">): number {
+  const m = e.meta ?? {};
+  const d =
+    typeof m.durationMs === "number" ? m.durationMs :
+    typeof m.persistedMs === "number" ? m.persistedMs : 0;
+  return Math.max(MIN_SPAN_MS, d);
+}
+
+/**
+ * mergeIntervals for events fed one at a time in `t` order (e.g. straight from
+ * a sorted cursor), so the events never have to sit in memory together.
+ */
+export function intervalMerger(gapMs = MERGE_GAP_MS) {
+  const open: Record<string, ViolationInterval> = {};
+  const out: ViolationInterval[] = [];
+
+  return {
+    add(e: Pick<EventRow, "t" | "type" | "meta">) {
+      const start = Math.max(0, e.t - eventSpanMs(e));
+      const cur = open[e.type];
+      if (cur && start <= cur.end + gapMs) {
+        cur.start = Math.min(cur.start, start);
+        cur.end = Math.max(cur.end, e.t);
+        cur.events += 1;
+      } else {
+        const iv = { type: e.type, start, end: e.t, durationMs: 0, events: 1 };
+        open[e.type] = iv;
+        out.push(iv);
+      }
+    },
+    done(): ViolationInterval[] {
+      for (const iv of out) iv.durationMs = iv.end - iv.start;
+      return out.sort((a, b) => a.start - b.start);
+    },
+  };
+}
+
+/** Merge consecutive events of the same type into violation intervals. */
+export function mergeIntervals(events: EventRow[], gapMs = MERGE_GAP_MS): ViolationInterval[] {
+  const merger = intervalMerger(gapMs);
+  for (const e of [...events].sort((a, b) => a.t - b.t)) merger.add(e);
+  return merger.done();
+}
+
+/**
+ * Time-weighted score: each type deducts `perPct` (or `per`) points for every
+ * 1% of the interview spent in violation, capped at `cap`.
+ */
+export function computeTimeWeighted(
+  intervals: ViolationInterval[],
+  durationMs: number,
+  rules: Record<string, ScoringRule> = DEFAULT_RULES
+) {
+  const totals: Record<string, { ms: number; n: number }> = {};
+  for (const iv of intervals) {
+    const t = (totals[iv.type] ??= { ms: 0, n: 0 });
+    t.ms += iv.durationMs;
+    t.n += 1;
+  }
+
+  let score = 100;
+  const breakdown: BreakdownRow[] = [];
+
+  for (const [type, { ms, n }] of Object.entries(totals)) {
+    const r = rules[type];
+    if (!r) continue;
+    const pct = durationMs > 0 ? Math.min(100, (ms / durationMs) * 100) : 0;
+    const deduct = Math.min(Math.round((r.perPct ?? r.per) * pct), r.cap);
+    score = Math.max(0, score - deduct);
+    breakdown.push({ type, times: n, deduct, seconds: Math.round(ms / 100) / 10 });
+  }
+
+  breakdown.sort((a, b) => b.deduct - a.deduct);
+  return { score, breakdown };
+}
+
+/** Score with the policy's mode; intervals are returned either way for the report. */
+export function scoreWithPolicy(
+  events: EventRow[],
+  durationMs: number,
+  policy: Pick<ScoringPolicy, "rules" | "mode">
+) {
+  const counts = summarizeCounts(events);
+  const intervals = mergeIntervals(events);
+  const integrity =
+    policy.mode === "time"
+      ? computeTimeWeighted(intervals, durationMs, policy.rules)
+      : computeIntegrity(counts, policy.rules);
+  return { counts, intervals, integrity };
+}
+
+/** Yes/no flags reports and exports show, from the (review-filtered) counts. */
+export function reportFlags(counts: CountMap) {
+  return {
+    phoneDetected: (counts["PHONE_DETECTED"] ?? 0) > 0,
+    multipleFaces: (counts["MULTIPLE_FACES"] ?? 0) > 0,
+    otherVoices: (counts["BACKGROUND_VOICE"] ?? 0) + (counts["MULTIPLE_SPEAKERS"] ?? 0) > 0,
+    leftPage: (counts["TAB_HIDDEN"] ?? 0) + (counts["WINDOW_BLUR"] ?? 0) + (counts["FULLSCREEN_EXIT"] ?? 0) > 0,
+    clipboardUsed: (counts["COPY_PASTE"] ?? 0) > 0,
+    identityMismatch: (counts["IDENTITY_MISMATCH"] ?? 0) > 0,
+  };
+}
+
+export type ReportFlags = ReturnType<typeof reportFlags>;
+
 /**
  * Fetch all events for an interview in time order (typed).
  * Use projection inside `find` so the generic <EventRow> is preserved
@@ -60,7 +202,7 @@ export async function fetchEventsByInterview(
     .collection<EventRow>("events")
     .find(
       { interviewId },
-      { projection: { _id: 0 }, sort: { t: 1 } } // <- keeps EventRow generic
+      { projection: { _id: 0, prevHash: 0, hash: 0 }, sort: { t: 1 } } // <- keeps EventRow generic
     )
     .toArray();
 
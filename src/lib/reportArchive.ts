@@ -0,0 +1,45 @@
+// src/lib/reportArchive.ts
+// What follows a completed interview: the interview.completed webhook, a PDF copy
+// of the report under one stable key (reportPdfUrl), then report.ready. The report
+// routes only read; this is the one place reports are stored or announced.
+import type { Db } from "mongodb";
+import { renderReportPdf } from "@/lib/pdf/ReportDocument";
+import type { EventRow } from "@/lib/report";
+import { buildReport, interviewKey, type InterviewDoc, type ReportData } from "@/lib/reportData";
+import { getStorage } from "@/lib/storage";
+import { notifyInterviewCompleted, notifyReportReady } from "@/lib/webhooks";
+
+/** One file per interview; storing it again replaces it. */
+export function reportPdfKey(interviewId: string) {
+  return `reports/${interviewId}.pdf`;
+}
+
+/** Render the report to PDF, store it and point reportPdfUrl at it. */
+export async function archiveReportPdf(db: Db, report: ReportData, events: EventRow[]): Promise<string> {
+  const interviewId = report.interview._id;
+  const pdf = await renderReportPdf(report, events);
+  const key = reportPdfKey(interviewId);
+  const storage = getStorage();
+  await storage.delete(key).catch(() => undefined); // some backends refuse to overwrite
+  const { url } = await storage.put(key, pdf, { contentType: "application/pdf" });
+  await db
+    .collection<InterviewDoc>("interviews")
+    .updateOne({ _id: interviewKey(interviewId) }, { $set: { reportPdfUrl: url } });
+  return url;
+}
+
+/**
+ * Run once an interview has been completed (finalize, PATCH endedAt). Errors are
+ * logged, not thrown: the completion itself has already been saved.
+ */
+export async function finishInterview(db: Db, id: string): Promise<void> {
+  await notifyInterviewCompleted(db, id);
+  try {
+    const built = await buildReport(db, id);
+    if (!built || built.report.interview.status !== "completed") return;
+    await archiveReportPdf(db, built.report, built.events);
+    await notifyReportReady(db, built.report);
+  } catch (e) {
+    console.error("report archive:", (e as Error).message);
+  }
+}
@@ -0,0 +1,129 @@
+// src/lib/reportData.ts
+import { ObjectId, type Db } from "mongodb";
+import {
+  scoreWithPolicy,
+  fetchEventsByInterview,
+  estimateDurationMs,
+  eventSpanMs,
+  reportFlags,
+  type EventRow,
+  type ReportFlags,
+} from "@/lib/report";
+import { resolvePolicy } from "@/lib/policies";
+import { verifyChain, type ChainHead } from "@/lib/eventChain";
+import { listEvidence } from "@/lib/snapshots";
+import { reviewSummary, reviewsByEvent, withoutDismissed } from "@/lib/reviews";
+import { identityReport } from "@/lib/identity";
+import { statusOf } from "@/lib/lifecycle";
+import type {
+  IdentityState,
+  InterviewSchedule,
+  InterviewStatus,
+  InviteState,
+  LiveState,
+  PolicyRef,
+  SystemCheck,
+} from "@/lib/types";
+
+// 👇 describe your collection’s _id properly (ObjectId OR string)
+export type InterviewDoc = {
+  _id: ObjectId | string;
+  candidateName?: string;
+  candidateEmail?: string;
+  status?: InterviewStatus;          // absent on interviews created before scheduling
+  schedule?: InterviewSchedule;
+  invite?: InviteState;
+  tokenGen?: number;                 // bumped when the invite is reissued; older candidate tokens stop working
+  createdAt?: string;
+  startedAt?: string;                // when recording started (creation time on legacy interviews)
+  deadline?: string;                 // startedAt + schedule.maxDurationMs
+  endedAt?: string;
+  videoUrl?: string;
+  reportPdfUrl?: string;
+  integrityScore?: number;          // reviewed score, kept current by refreshScore (src/lib/scoring.ts)
+  flags?: ReportFlags;
+  scoredAt?: string;
+  policy?: PolicyRef;
+  chainHead?: ChainHead;             // last seq appended to the event chain
+  live?: LiveState;                  // latest candidate heartbeat
+  requireFullscreen?: boolean;
+  systemCheck?: SystemCheck;         // latest pre-interview check
+  identity?: IdentityState;          // reference photo + re-match stats
+};
+
+/** One key that is either ObjectId or string, depending on validity. */
+export function interviewKey(id: string): InterviewDoc["_id"] {
+  return ObjectId.isValid(id) ? new ObjectId(id) : id;
+}
+
+/**
+ * Everything the JSON report returns, shared by the JSON and PDF routes.
+ * Scores, counts and flags leave out events a reviewer dismissed (`rawIntegrity`
+ * keeps the detector-only score).
+ */
+export async function buildReport(db: Db, id: string) {
+  const col = db.collection<InterviewDoc>("interviews");
+
+  const interview = await col.findOne({ _id: interviewKey(id) });
+  if (!interview) return null;
+
+  const events: EventRow[] = await fetchEventsByInterview(db, String(interview._id));
+  const durationMs = estimateDurationMs(
+    interview.startedAt,
+    interview.endedAt,
+    events
+  );
+  const policy = await resolvePolicy(db, interview.policy);
+  const byEvent = await reviewsByEvent(db, String(interview._id));
+  const raw = scoreWithPolicy(events, durationMs, policy);
+  const { counts, intervals, integrity } = scoreWithPolicy(withoutDismissed(events, byEvent), durationMs, policy);
+  const chain = await verifyChain(db, interview);
+  const evidence = await listEvidence(db, String(interview._id), events);
+
+  const report = {
+    interview: {
+      _id: String(interview._id),
+      candidateName: interview.candidateName ?? null,
+      candidateEmail: interview.candidateEmail ?? null,
+      status: statusOf(interview),
+      schedule: interview.schedule ?? null,
+      startedAt: interview.startedAt ?? null,
+      endedAt: interview.endedAt ?? null,
+      videoUrl: interview.videoUrl ?? null,
+      reportPdfUrl: interview.reportPdfUrl ?? null,
+      integrityScore: integrity.score,
+      durationMs,
+    },
+    counts,
+    integrity,
+    rawIntegrity: raw.integrity,
+    systemCheck: interview.systemCheck ?? null,
+    identity: await identityReport(interview.identity, counts),
+    review: await reviewSummary(db, String(interview._id), byEvent),
+    policy: { name: policy.name, version: policy.version, mode: policy.mode ?? "count" },
+    intervals,
+    chain: {
+      status: chain.status,
+      events: chain.events,
+      unchained: chain.unchained,
+      issueCount: chain.issues.length,
+      issues: chain.issues.slice(0, 20),
+    },
+    ...reportFlags(counts),
+    evidence,
+    // every event, compact, for the report player; `start` is where the violation began
+    markers: events.map((e) => ({
+      seq: e.seq ?? null,
+      t: e.t,
+      start: Math.max(0, e.t - eventSpanMs(e)),
+      type: e.type,
+      review: (e.eventId && byEvent.get(e.eventId)?.status) || null,
+    })),
+    // kept for existing clients; GET /api/interviews/[id]/events pages through all of them
+    eventSample: events.slice(0, 50),
+  };
+
+  return { report, events };
+}
+
+export type ReportData = NonNullable<Awaited<ReturnType<typeof buildReport>>>["report"];
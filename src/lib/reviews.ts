@@ -0,0 +1,93 @@
+// src/lib/reviews.ts
+// Human review of individual events. Verdicts live beside the event log, never
+// in it, so the hash chain is untouched; every change is appended to an audit trail.
+import type { Db } from "mongodb";
+import { indexesOnce } from "@/lib/mongo";
+import type { EventRow } from "@/lib/report";
+import type { EventReview, ReviewAuditEntry, Reviewer, ReviewStatus } from "@/lib/types";
+
+/** Most recent audit entries included in reports. */
+const REPORT_AUDIT_LIMIT = 50;
+
+function reviews(db: Db) {
+  return db.collection<EventReview>("event_reviews");
+}
+
+function audit(db: Db) {
+  return db.collection<ReviewAuditEntry>("review_audit");
+}
+
+const ensureIndexes = indexesOnce(async (db: Db) => {
+  await reviews(db).createIndex({ interviewId: 1, eventId: 1 }, { unique: true });
+  await audit(db).createIndex({ interviewId: 1, at: -1 });
+});
+
+/** Set the verdict on one event (replacing any earlier one) and log it. */
+export async function reviewEvent(
+  db: Db,
+  interviewId: string,
+  eventId: string,
+  status: ReviewStatus,
+  note: string | undefined,
+  reviewer: Reviewer
+): Promise<EventReview> {
+  await ensureIndexes(db);
+  const at = new Date().toISOString();
+  const review: EventReview = { interviewId, eventId, status, ...(note && { note }), reviewer, reviewedAt: at };
+
+  const previous = await reviews(db).findOneAndReplace({ interviewId, eventId }, review, {
+    upsert: true,
+    projection: { status: 1 },
+  });
+  await audit(db).insertOne({
+    interviewId,
+    eventId,
+    action: status,
+    previous: previous?.status ?? null,
+    ...(note && { note }),
+    reviewer,
+    at,
+  });
+  return review;
+}
+
+/** Remove the verdict (the event counts again). False if there was none. */
+export async function clearReview(db: Db, interviewId: string, eventId: string, reviewer: Reviewer): Promise<boolean> {
+  await ensureIndexes(db);
+  const previous = await reviews(db).findOneAndDelete({ interviewId, eventId }, { projection: { status: 1 } });
+  if (!previous) return false;
+  await audit(db).insertOne({
+    interviewId,
+    eventId,
+    action: "cleared",
+    previous: previous.status,
+    reviewer,
+    at: new Date().toISOString(),
+  });
+  return true;
+}
+
+/** Current verdicts by eventId; pass eventIds to look up just those. */
+export async function reviewsByEvent(db: Db, interviewId: string, eventIds?: string[]): Promise<Map<string, EventReview>> {
+  const rows = await reviews(db)
+    .find(eventIds ? { interviewId, eventId: { $in: eventIds } } : { interviewId }, { projection: { _id: 0 } })
+    .toArray();
+  return new Map(rows.map((r) => [r.eventId, r]));
+}
+
+/** Audit trail, newest first. */
+export async function listReviewAudit(db: Db, interviewId: string, limit = 0): Promise<ReviewAuditEntry[]> {
+  return audit(db).find({ interviewId }, { projection: { _id: 0 }, sort: { at: -1 }, limit }).toArray();
+}
+
+/** Events that still count towards the score. */
+export function withoutDismissed(events: EventRow[], byEvent: Map<string, EventReview>): EventRow[] {
+  return events.filter((e) => !e.eventId || byEvent.get(e.eventId)?.status !== "dismissed");
+}
+
+/** Review summary for reports. */
+export async function reviewSummary(db: Db, interviewId: string, byEvent: Map<string, EventReview>) {
+  const counts: Record<ReviewStatus, number> = { confirmed: 0, dismissed: 0, disputed: 0 };
+  for (const r of byEvent.values()) counts[r.status] += 1;
+  return { ...counts, audit: await listReviewAudit(db, interviewId, REPORT_AUDIT_LIMIT) };
+}
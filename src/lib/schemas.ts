@@ -0,0 +1,260 @@
+// src/lib/schemas.ts
+// Request schemas for every API route, derived from the shapes in src/lib/types.ts.
+import {
+  EVENT_TYPES,
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  FOCUS_STATUSES,
+  IDENTITY_PHOTO_KINDS,
+  INTERVIEW_STATUSES,
+  REVIEW_STATUSES,
+  ROLES,
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_EVENTS,
+} from "@/lib/types";
+import { FACE_SIGNATURE_LENGTH } from "@/lib/detect/faceSignature";
+import {
+  array,
+  boolean,
+  csvList,
+  isoDate,
+  jsonObject,
+  number,
+  numeric,
+  object,
+  oneOf,
+  optional,
+  record,
+  refine,
+  string,
+} from "@/lib/validate";
+import { targetIssue } from "@/lib/netGuard";
+
+/** Per-batch limits for POST /api/events. */
+export const MAX_EVENTS_PER_BATCH = 500;
+export const MAX_META_BYTES = 4096;
+/** Body cap for POST /api/events: a full batch of events with full meta (1 KB each for the other fields). */
+export const MAX_EVENT_BATCH_BYTES = MAX_EVENTS_PER_BATCH * (MAX_META_BYTES + 1024);
+/** Longest interview we accept event offsets for (ms). */
+export const MAX_EVENT_T_MS = 24 * 60 * 60 * 1000;
+
+const id = string({ min: 1, max: 64 });
+const slug = string({ min: 1, max: 64, pattern: /^[\w.-]+$/ });
+const eventId = string({ min: 1, max: 64, pattern: /^[\w-]+$/ });
+
+/* ----- auth ----- */
+
+const email = string({ trim: true, min: 3, max: 254, pattern: /^[^\s@]+@[^\s@]+$/ });
+
+export const LoginSchema = object({
+  email,
+  password: string({ min: 1, max: 200 }),
+});
+
+export const UserCreateSchema = object({
+  email,
+  password: string({ min: 8, max: 200 }),
+  roles: array(oneOf(ROLES), { min: 1, max: ROLES.length }),
+});
+
+/* ----- events ----- */
+
+export const ProctorEventInputSchema = object({
+  eventId: optional(eventId),
+  interviewId: optional(id),
+  t: number({ min: 0, max: MAX_EVENT_T_MS }),
+  type: oneOf(EVENT_TYPES),
+  confidence: optional(number({ min: 0, max: 1 })),
+  meta: optional(jsonObject({ maxBytes: MAX_META_BYTES })),
+  createdAt: optional(isoDate()),
+});
+
+export const EventBatchSchema = object({
+  interviewId: id,
+  events: array(ProctorEventInputSchema, { max: MAX_EVENTS_PER_BATCH }),
+});
+
+/** Events the outbox gave up on; payload is the client's copy, cut to MAX_REJECTED_PAYLOAD chars. */
+export const MAX_REJECTED_PAYLOAD = 8192;
+
+export const RejectedEventBatchSchema = object({
+  events: array(
+    object({
+      eventId,
+      status: number({ int: true, min: 400, max: 599 }),
+      issues: optional(
+        array(object({ path: string({ max: 200 }), message: string({ max: 500 }) }), { max: 20 })
+      ),
+      payload: string({ max: MAX_REJECTED_PAYLOAD }),
+      rejectedAt: isoDate(),
+    }),
+    { min: 1, max: 50 }
+  ),
+});
+
+/* ----- interviews ----- */
+
+/** Without a window the interview can be started for the next 24 hours; maxDurationMin defaults to 120. */
+export const InterviewCreateSchema = object({
+  candidateName: string({ trim: true, min: 1, max: 200 }),
+  candidateEmail: optional(email),
+  policyName: optional(slug),
+  requireFullscreen: optional(boolean()),
+  windowStart: optional(isoDate()),
+  windowEnd: optional(isoDate()),
+  maxDurationMin: optional(number({ int: true, min: 1, max: 8 * 60 })),
+});
+
+/** integrityScore is deliberately absent: only the server computes it (unknown keys are rejected). */
+export const InterviewPatchSchema = object({
+  videoUrl: optional(string({ max: 2048 })),
+  endedAt: optional(isoDate()),
+  candidateName: optional(string({ trim: true, min: 1, max: 200 })),
+});
+
+export const InterviewListQuerySchema = object({
+  q: optional(string({ max: 200 })),
+  from: optional(isoDate()),
+  to: optional(isoDate()),
+  minScore: optional(numeric({ min: 0, max: 100 })),
+  maxScore: optional(numeric({ min: 0, max: 100 })),
+  phone: optional(oneOf(["0", "1"])),
+  multipleFaces: optional(oneOf(["0", "1"])),
+  status: optional(oneOf(INTERVIEW_STATUSES)),
+  sort: optional(oneOf(["startedAt", "integrityScore"])),
+  order: optional(oneOf(["asc", "desc"])),
+  page: optional(numeric({ int: true, min: 1 })),
+  limit: optional(numeric({ int: true, min: 1, max: 100 })),
+});
+
+/** GET /api/exports; interview filters as in the dashboard list, `types` narrows the events dataset. */
+export const ExportQuerySchema = object({
+  dataset: optional(oneOf(EXPORT_DATASETS)),
+  format: optional(oneOf(EXPORT_FORMATS)),
+  q: optional(string({ max: 200 })),
+  from: optional(isoDate()),
+  to: optional(isoDate()),
+  minScore: optional(numeric({ min: 0, max: 100 })),
+  maxScore: optional(numeric({ min: 0, max: 100 })),
+  phone: optional(oneOf(["0", "1"])),
+  multipleFaces: optional(oneOf(["0", "1"])),
+  status: optional(oneOf(INTERVIEW_STATUSES)),
+  types: optional(csvList(oneOf(EVENT_TYPES), { max: EVENT_TYPES.length })),
+  background: optional(oneOf(["0", "1"])),
+});
+
+/** GET /api/interviews/[id]/events; t bounds are ms since the interview started. */
+export const EventListQuerySchema = object({
+  cursor: optional(string({ max: 200, pattern: /^[\w-]+$/ })),
+  limit: optional(numeric({ int: true, min: 1, max: 500 })),
+  types: optional(csvList(oneOf(EVENT_TYPES), { max: EVENT_TYPES.length })),
+  from: optional(numeric({ min: 0, max: MAX_EVENT_T_MS })),
+  to: optional(numeric({ min: 0, max: MAX_EVENT_T_MS })),
+  minConfidence: optional(numeric({ min: 0, max: 1 })),
+  includeMeta: optional(oneOf(["0", "1"])),
+});
+
+export const EventReviewSchema = object({
+  status: oneOf(REVIEW_STATUSES),
+  note: optional(string({ trim: true, max: 1000 })),
+});
+
+const CheckResultSchema = object({ ok: boolean(), detail: optional(string({ max: 300 })) });
+
+export const SystemCheckSchema = object({
+  checks: object({
+    camera: CheckResultSchema,
+    microphone: CheckResultSchema,
+    lighting: CheckResultSchema,
+    recorder: CheckResultSchema,
+    faceModel: CheckResultSchema,
+    objectModel: CheckResultSchema,
+    calibration: CheckResultSchema,
+  }),
+  baseline: optional(
+    object({
+      yaw: number({ min: -90, max: 90 }),
+      pitch: number({ min: -90, max: 90 }),
+      faceSize: number({ min: 0, max: 1 }),
+    })
+  ),
+  mimeType: optional(string({ max: 100 })),
+  userAgent: optional(string({ max: 500 })),
+});
+
+export const HeartbeatSchema = object({
+  status: oneOf(FOCUS_STATUSES),
+  faces: number({ int: true, min: 0, max: 50 }),
+  recording: boolean(),
+  similarity: optional(number({ min: 0, max: 1 })),
+});
+
+/* ----- scoring policies ----- */
+
+const ScoringRuleSchema = object({
+  per: number({ min: 0, max: 100 }),
+  cap: number({ min: 0, max: 100 }),
+  perPct: optional(number({ min: 0, max: 100 })),
+});
+
+const policyFields = {
+  rules: record(ScoringRuleSchema, { maxKeys: 64 }),
+  mode: optional(oneOf(["count", "time"])),
+  description: optional(string({ max: 500 })),
+};
+
+export const PolicyCreateSchema = object({ name: slug, ...policyFields });
+export const PolicyUpdateSchema = object(policyFields);
+export const PolicyQuerySchema = object({ version: optional(numeric({ int: true, min: 1 })) });
+
+/* ----- recordings ----- */
+
+const take = string({ min: 1, max: 32, pattern: /^[A-Za-z0-9-]+$/ });
+
+export const ChunkListQuerySchema = object({ take });
+export const ChunkUploadQuerySchema = object({ take, seq: numeric({ int: true, min: 0, max: 1_000_000 }) });
+
+export const FinalizeRecordingSchema = object({
+  take,
+  totalChunks: number({ int: true, min: 1, max: 1_000_000 }),
+  mimeType: optional(string({ max: 100, pattern: /^(video|audio)\/[\w.+-]+(;.*)?$/ })),
+  endedAt: optional(isoDate()),            // accepted from older clients but ignored; the server stamps the end
+});
+
+/* ----- snapshots ----- */
+
+export const SnapshotUploadQuerySchema = object({ eventId });
+
+/* ----- identity ----- */
+
+/** The selfie carries its face signature; the ID photo does not. */
+export const IdentityUploadQuerySchema = object({
+  kind: oneOf(IDENTITY_PHOTO_KINDS),
+  signature: optional(
+    csvList(numeric({ min: 0, max: 10 }), { min: FACE_SIGNATURE_LENGTH, max: FACE_SIGNATURE_LENGTH })
+  ),
+});
+
+/* ----- webhooks ----- */
+
+const webhookFields = {
+  // public hosts only; the sender checks what the name resolves to again before each attempt
+  url: refine(string({ trim: true, max: 2048, pattern: /^https?:\/\/[^\s/?#]+\S*$/ }), targetIssue),
+  events: array(oneOf(WEBHOOK_EVENTS), { min: 1, max: WEBHOOK_EVENTS.length }),
+  description: optional(string({ trim: true, max: 500 })),
+};
+
+export const WebhookCreateSchema = object(webhookFields);
+
+export const WebhookUpdateSchema = object({
+  url: optional(webhookFields.url),
+  events: optional(webhookFields.events),
+  description: webhookFields.description,
+  active: optional(boolean()),
+});
+
+export const WebhookDeliveryQuerySchema = object({
+  status: optional(oneOf(WEBHOOK_DELIVERY_STATUSES)),
+  cursor: optional(string({ max: 24, pattern: /^[0-9a-f]{24}$/ })),
+  limit: optional(numeric({ int: true, min: 1, max: 100 })),
+});
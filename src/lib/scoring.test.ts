@@ -0,0 +1,52 @@
+import type { Db } from "mongodb";
+import { describe, expect, it } from "vitest";
+import { scoreWithPolicy, type EventRow } from "@/lib/report";
+import { withoutDismissed } from "@/lib/reviews";
+import { scoreInterview } from "@/lib/scoring";
+import type { EventReview } from "@/lib/types";
+
+const ev = (eventId: string, type: string, t: number, meta?: Record<string, unknown>): EventRow => ({
+  interviewId: "i1",
+  eventId,
+  type,
+  t,
+  meta,
+  createdAt: new Date(t).toISOString(),
+});
+
+const events = [
+  ev("a", "NO_FACE_10S", 12_000, { durationMs: 10_000 }),
+  ev("b", "PHONE_DETECTED", 20_000, { persistedMs: 3_000 }),
+  ev("c", "PHONE_DETECTED", 21_000),
+  ev("d", "TAB_HIDDEN", 40_000),
+];
+const byEvent = new Map([["b", { status: "dismissed" } as EventReview]]);
+
+/** Events served by a sorted cursor, as scoreInterview reads them. */
+const fakeDb = {
+  collection: () => ({ find: () => [...events].sort((x, y) => x.t - y.t)[Symbol.iterator]() }),
+} as unknown as Db;
+
+const rules = {
+  NO_FACE_10S: { per: 5, cap: 25 },
+  PHONE_DETECTED: { per: 10, cap: 30 },
+  TAB_HIDDEN: { per: 5, cap: 25 },
+};
+
+describe("scoreInterview", () => {
+  it.each(["count", "time"] as const)("matches scoreWithPolicy in %s mode", async (mode) => {
+    const policy = { mode, rules };
+    const interview = { _id: "i1", startedAt: "2024-01-01T00:00:00.000Z", endedAt: "2024-01-01T00:01:40.000Z" };
+    const got = await scoreInterview(fakeDb, interview, policy, byEvent);
+
+    expect(got.durationMs).toBe(100_000);
+    const reviewed = scoreWithPolicy(withoutDismissed(events, byEvent), 100_000, policy);
+    expect({ counts: got.counts, intervals: got.intervals, integrity: got.integrity }).toEqual(reviewed);
+    expect(got.raw).toEqual(scoreWithPolicy(events, 100_000, policy));
+  });
+
+  it("falls back to the last event time without an end", async () => {
+    const got = await scoreInterview(fakeDb, { _id: "i1" }, { rules: {} }, byEvent);
+    expect(got.durationMs).toBe(40_000);
+  });
+});
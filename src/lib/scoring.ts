@@ -0,0 +1,118 @@
+// src/lib/scoring.ts
+// An interview's reviewed score from one projected pass over its events, and the
+// copy kept on the interview (integrityScore, flags) that lists and exports
+// filter and sort on. That copy is refreshed wherever events, reviews or the end
+// time change, never by the routes that only read a report.
+import type { Db } from "mongodb";
+import {
+  computeIntegrity,
+  computeTimeWeighted,
+  estimateDurationMs,
+  intervalMerger,
+  reportFlags,
+  type CountMap,
+  type EventRow,
+  type ViolationInterval,
+} from "@/lib/report";
+import { resolvePolicyOrNull } from "@/lib/policies";
+import { reviewsByEvent } from "@/lib/reviews";
+import { interviewKey, type InterviewDoc } from "@/lib/reportData";
+import type { EventReview, ScoringPolicy } from "@/lib/types";
+
+type ScoredEvent = Pick<EventRow, "eventId" | "t" | "type" | "meta">;
+
+/** Unscored interviews backfilled per sweep. */
+const MAX_BACKFILL = 50;
+
+/**
+ * Counts and intervals for one view of the events (all of them, or the reviewed
+ * ones), fed one event at a time in `t` order; `score` can be taken at any point.
+ */
+export function scoreTally() {
+  const counts: CountMap = {};
+  const merger = intervalMerger();
+  return {
+    counts,
+    add(e: ScoredEvent) {
+      counts[e.type] = (counts[e.type] ?? 0) + 1;
+      merger.add(e);
+    },
+    score(durationMs: number, policy: Pick<ScoringPolicy, "rules" | "mode">) {
+      const intervals: ViolationInterval[] = merger.done();
+      const integrity =
+        policy.mode === "time"
+          ? computeTimeWeighted(intervals, durationMs, policy.rules)
+          : computeIntegrity(counts, policy.rules);
+      return { counts, intervals, integrity };
+    },
+  };
+}
+
+/**
+ * Reviewed and raw scores without loading the events: a sorted cursor that
+ * projects only what scoring reads. Same results as scoreWithPolicy.
+ */
+export async function scoreInterview(
+  db: Db,
+  interview: Pick<InterviewDoc, "_id" | "startedAt" | "endedAt">,
+  policy: Pick<ScoringPolicy, "rules" | "mode">,
+  byEvent?: Map<string, EventReview>
+) {
+  const interviewId = String(interview._id);
+  const reviews = byEvent ?? (await reviewsByEvent(db, interviewId));
+  const all = scoreTally();
+  const kept = scoreTally();
+  let lastT = 0;
+
+  const cursor = db.collection<ScoredEvent>("events").find(
+    { interviewId },
+    { projection: { _id: 0, eventId: 1, t: 1, type: 1, "meta.durationMs": 1, "meta.persistedMs": 1 }, sort: { t: 1 } }
+  );
+  for await (const e of cursor) {
+    lastT = e.t;
+    all.add(e);
+    if (!e.eventId || reviews.get(e.eventId)?.status !== "dismissed") kept.add(e);
+  }
+
+  const durationMs =
+    interview.startedAt && interview.endedAt ? estimateDurationMs(interview.startedAt, interview.endedAt) : lastT;
+  return { durationMs, reviews, raw: all.score(durationMs, policy), ...kept.score(durationMs, policy) };
+}
+
+/**
+ * Recompute and store the reviewed score and flags. Errors are logged, not
+ * thrown: the change that triggered the refresh has already been saved.
+ */
+export async function refreshScore(db: Db, id: string): Promise<void> {
+  try {
+    const col = db.collection<InterviewDoc>("interviews");
+    const interview = await col.findOne(
+      { _id: interviewKey(id) },
+      { projection: { startedAt: 1, endedAt: 1, policy: 1 } }
+    );
+    if (!interview) return;
+    const policy = await resolvePolicyOrNull(db, interview.policy);
+    // without its pinned policy an interview still gets flags, but no score
+    const { counts, integrity } = await scoreInterview(db, interview, policy ?? { rules: {} });
+    const $set = { flags: reportFlags(counts), scoredAt: new Date().toISOString() };
+    await col.updateOne(
+      { _id: interview._id },
+      policy ? { $set: { ...$set, integrityScore: integrity.score } } : { $set, $unset: { integrityScore: "" } }
+    );
+  } catch (e) {
+    console.error("score refresh:", (e as Error).message);
+  }
+}
+
+/**
+ * Score started interviews that have never been scored (stored before scores
+ * were kept current), a batch per webhook sweep, so filters see every interview.
+ */
+export async function refreshUnscored(db: Db, limit = MAX_BACKFILL): Promise<number> {
+  const rows = await db
+    .collection<InterviewDoc>("interviews")
+    .find({ scoredAt: { $exists: false }, startedAt: { $exists: true } }, { projection: { _id: 1 }, limit })
+    .toArray();
+  for (const r of rows) await refreshScore(db, String(r._id));
+  return rows.length;
+}
@@ -0,0 +1,109 @@
+// src/lib/snapshotUploader.ts
+// Client side of /api/interviews/[id]/snapshots: grabs an evidence frame when an
+// event fires and uploads it separately from the event. Frames wait in IndexedDB
+// until the server has them, like recording slices and events.
+import { idbDelete, idbGetByPrefix, idbPut } from "@/lib/idb";
+import { authHeader } from "@/lib/candidateSession";
+
+type SnapshotRow = { interviewId: string; eventId: string; data: Blob };
+
+/** Longest side of a snapshot; enough to make out a phone or a second face. */
+const MAX_WIDTH = 480;
+const JPEG_QUALITY = 0.7;
+/** Per page load; detectors already rate-limit themselves, this bounds storage. */
+const MAX_SNAPSHOTS = 300;
+
+const quiet = <T>(p: Promise<T>) => p.catch(() => undefined);
+
+/** Current video frame plus the detector overlay canvas, downscaled to a JPEG. Null before the camera runs. */
+export function captureFrame(
+  video: HTMLVideoElement,
+  overlay: HTMLCanvasElement | null,
+  maxWidth = MAX_WIDTH
+): Promise<Blob | null> {
+  if (video.readyState < 2 || !video.videoWidth) return Promise.resolve(null);
+  const scale = Math.min(1, maxWidth / video.videoWidth);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return Promise.resolve(null);
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  if (overlay && overlay.width > 0 && overlay.height > 0) ctx.drawImage(overlay, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve) => canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY));
+}
+
+async function sha256Hex(blob: Blob): Promise<string | null> {
+  // crypto.subtle only exists in secure contexts (https, localhost)
+  if (typeof crypto === "undefined" || !crypto.subtle) return null;
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Snapshot queue for one interview. `capture` returns the meta to put on the
+ * event (snapshotKey, snapshotSha256), so the event hash covers the image.
+ */
+export function createSnapshotUploader(interviewId: string, token: string | null) {
+  const pending = new Map<string, SnapshotRow>();
+  let flushing = false;
+  let taken = 0;
+
+  async function upload(row: SnapshotRow): Promise<boolean> {
+    try {
+      const r = await fetch(`/api/interviews/${interviewId}/snapshots?eventId=${encodeURIComponent(row.eventId)}`, {
+        method: "POST",
+        headers: { "Content-Type": "image/jpeg", ...authHeader(token) },
+        body: row.data,
+      });
+      // other 4xx (too large, hash mismatch) will not get better on retry
+      return r.ok || (r.status >= 400 && r.status < 500 && r.status !== 408 && r.status !== 429);
+    } catch {
+      return false;
+    }
+  }
+
+  async function flush() {
+    if (flushing || pending.size === 0) return;
+    flushing = true;
+    try {
+      for (const row of Array.from(pending.values())) {
+        if (!(await upload(row))) break; // offline: keep the rest for the next flush
+        pending.delete(row.eventId);
+        await quiet(idbDelete("snapshotOutbox", [interviewId, row.eventId]));
+      }
+    } finally {
+      flushing = false;
+    }
+  }
+
+  return {
+    /** Pick up snapshots a previous page load left unsent. */
+    async load() {
+      const rows = (await quiet(idbGetByPrefix<SnapshotRow>("snapshotOutbox", [interviewId]))) ?? [];
+      for (const r of rows) if (!pending.has(r.eventId)) pending.set(r.eventId, r);
+    },
+
+    async capture(
+      video: HTMLVideoElement,
+      overlay: HTMLCanvasElement | null,
+      eventId: string
+    ): Promise<Record<string, unknown> | null> {
+      if (taken >= MAX_SNAPSHOTS) return null;
+      const data = await captureFrame(video, overlay).catch(() => null);
+      if (!data) return null;
+      taken++;
+      const sha = await sha256Hex(data).catch(() => null);
+
+      const row: SnapshotRow = { interviewId, eventId, data };
+      pending.set(eventId, row);
+      await quiet(idbPut("snapshotOutbox", row));
+      void flush();
+
+      // same path as snapshotKey() on the server
+      return { snapshotKey: `snapshots/${interviewId}/${eventId}.jpg`, ...(sha ? { snapshotSha256: sha } : {}) };
+    },
+
+    flush,
+  };
+}
@@ -0,0 +1,116 @@
+// src/lib/snapshots.ts
+// Evidence snapshots: a downscaled JPEG of the candidate's frame (with detector
+// overlays) taken when an event fires. The event itself carries meta.snapshotKey
+// and meta.snapshotSha256, so the image is covered by the event hash chain even
+// though the bytes arrive separately (POST /api/interviews/[id]/snapshots).
+import { createHash } from "node:crypto";
+import type { Db } from "mongodb";
+import { indexesOnce } from "@/lib/mongo";
+import { getStorage } from "@/lib/storage";
+import type { EventRow } from "@/lib/report";
+
+export const MAX_SNAPSHOT_BYTES = 512 * 1024;
+/** Gallery size in reports; older evidence is still stored. */
+const MAX_EVIDENCE = 100;
+
+/** One uploaded image. */
+export type SnapshotDoc = {
+  interviewId: string;
+  eventId: string;
+  key: string;
+  sha256: string;
+  size: number;
+  createdAt: string;
+};
+
+/**
+ * A gallery entry: an event that referenced a snapshot.
+ * status "missing" = not uploaded (yet); "mismatch" = the bytes differ from the hash on the event.
+ */
+export type Evidence = {
+  eventId: string;
+  seq: number | null;
+  t: number;
+  type: string;
+  key: string;
+  url: string | null;
+  status: "ok" | "missing" | "mismatch";
+};
+
+function col(db: Db) {
+  return db.collection<SnapshotDoc>("snapshots");
+}
+
+const ensureIndexes = indexesOnce((db: Db) => col(db).createIndex({ interviewId: 1, eventId: 1 }, { unique: true }));
+
+/** Same path the client writes into meta.snapshotKey. */
+export function snapshotKey(interviewId: string, eventId: string) {
+  return `snapshots/${interviewId}/${eventId}.jpg`;
+}
+
+export function isJpeg(bytes: Buffer) {
+  return bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+}
+
+export function sha256Hex(bytes: Buffer) {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+/** Store one snapshot. Re-sending the same eventId overwrites it, so retries are safe. */
+export async function storeSnapshot(db: Db, interviewId: string, eventId: string, bytes: Buffer): Promise<SnapshotDoc> {
+  const key = snapshotKey(interviewId, eventId);
+  const storage = getStorage();
+  await storage.delete(key).catch(() => undefined); // some backends refuse to overwrite
+  await storage.put(key, bytes, { contentType: "image/jpeg" });
+
+  const doc: SnapshotDoc = {
+    interviewId,
+    eventId,
+    key,
+    sha256: sha256Hex(bytes),
+    size: bytes.length,
+    createdAt: new Date().toISOString(),
+  };
+  await ensureIndexes(db);
+  await col(db).replaceOne({ interviewId, eventId }, doc, { upsert: true });
+  return doc;
+}
+
+/** Events that reference a snapshot, in timeline order, with a browser URL for each uploaded image. */
+export async function listEvidence(db: Db, interviewId: string, events: EventRow[]): Promise<Evidence[]> {
+  const refs = events
+    .filter((e) => e.eventId && typeof e.meta?.snapshotKey === "string")
+    .slice(0, MAX_EVIDENCE);
+  if (refs.length === 0) return [];
+
+  const stored = await col(db)
+    .find({ interviewId, eventId: { $in: refs.map((e) => e.eventId!) } }, { projection: { _id: 0 } })
+    .toArray();
+  const byEvent = new Map(stored.map((s) => [s.eventId, s]));
+  const storage = getStorage();
+
+  return Promise.all(
+    refs.map(async (e): Promise<Evidence> => {
+      const s = byEvent.get(e.eventId!);
+      const expected = e.meta?.snapshotSha256;
+      const status = !s ? "missing" : typeof expected === "string" && expected !== s.sha256 ? "mismatch" : "ok";
+      return {
+        eventId: e.eventId!,
+        seq: e.seq ?? null,
+        t: e.t,
+        type: e.type,
+        // never the client-supplied meta.snapshotKey: it only marks that a frame was taken
+        key: snapshotKey(interviewId, e.eventId!),
+        url: s ? await storage.signedUrl(s.key).catch(() => null) : null,
+        status,
+      };
+    })
+  );
+}
+
+/** Raw bytes of a stored snapshot (for embedding in the PDF); null if it is gone. */
+export async function readSnapshot(key: string): Promise<Buffer | null> {
+  const obj = await getStorage().get(key).catch(() => null);
+  if (!obj) return null;
+  return Buffer.from(await new Response(obj.body).arrayBuffer());
+}
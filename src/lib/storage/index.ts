@@ -0,0 +1,20 @@
+// src/lib/storage/index.ts
+import { localDiskDriver } from "./localDisk";
+import { vercelBlobDriver } from "./vercelBlob";
+import type { StorageDriver } from "./types";
+
+export type { ByteRange, PutBody, StorageDriver, StoredObject } from "./types";
+export { verifyMediaSignature } from "./signing";
+export { isValidKey } from "./keys";
+export { parseRange } from "./range";
+
+/**
+ * Storage backend picked by STORAGE_DRIVER ("vercel-blob" | "local").
+ * Without it: Vercel Blob when BLOB_READ_WRITE_TOKEN is set, else local disk.
+ */
+export function getStorage(): StorageDriver {
+  const name = process.env.STORAGE_DRIVER;
+  if (name === "local") return localDiskDriver;
+  if (name === "vercel-blob") return vercelBlobDriver;
+  return process.env.BLOB_READ_WRITE_TOKEN ? vercelBlobDriver : localDiskDriver;
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { isValidKey } from "@/lib/storage/keys";
+
+describe("isValidKey", () => {
+  it("accepts the keys the app writes", () => {
+    expect(isValidKey("videos/1700000000000-take 1.webm")).toBe(true);
+    expect(isValidKey("snapshots/665f1c2a/ev-1.jpg")).toBe(true);
+    expect(isValidKey("reports/665f1c2a.pdf")).toBe(true);
+  });
+
+  it("rejects empty segments, dot segments and odd characters", () => {
+    for (const key of ["", "/abs", "a//b", "a/", "../x", "a/./b", "a\\b", "a\u0000b", "x".repeat(1025)]) {
+      expect(isValidKey(key)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,14 @@
+// src/lib/storage/keys.ts
+
+/** Longest key accepted from a URL. */
+const MAX_KEY_LENGTH = 1024;
+
+/**
+ * Whether `key` is a well-formed storage key: "/"-separated non-empty segments,
+ * none of them "." or "..", no backslashes or control characters.
+ */
+export function isValidKey(key: string): boolean {
+  if (!key || key.length > MAX_KEY_LENGTH) return false;
+  if (/[\\\u0000-\u001f\u007f]/.test(key)) return false;
+  return key.split("/").every((seg) => seg !== "" && seg !== "." && seg !== "..");
+}
@@ -0,0 +1,43 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { StorageDriver } from "@/lib/storage/types";
+
+let dir: string;
+let driver: StorageDriver;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "storage-"));
+  vi.stubEnv("LOCAL_STORAGE_DIR", dir);
+  vi.resetModules();
+  ({ localDiskDriver: driver } = await import("@/lib/storage/localDisk"));
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(dir, { recursive: true, force: true });
+});
+
+const text = async (body: ReadableStream<Uint8Array>) => new Response(body).text();
+
+describe("localDiskDriver.get", () => {
+  it("returns an empty body for a zero-byte object", async () => {
+    await driver.put("a/empty.json", Buffer.alloc(0));
+    const obj = await driver.get("a/empty.json");
+    expect(obj).toMatchObject({ size: 0, contentType: "application/json" });
+    expect(await text(obj!.body)).toBe("");
+  });
+
+  it("reads a byte range", async () => {
+    await driver.put("a/file.csv", Buffer.from("0123456789"));
+    const obj = await driver.get("a/file.csv", { start: 2, end: 4 });
+    expect(obj?.range).toEqual({ start: 2, end: 4 });
+    expect(await text(obj!.body)).toBe("234");
+  });
+
+  it("returns null for a missing key and rejects escapes", async () => {
+    expect(await driver.get("a/missing.webm")).toBeNull();
+    await expect(driver.get("../outside")).rejects.toThrow(/invalid storage key/);
+  });
+});
@@ -0,0 +1,83 @@
+// src/lib/storage/localDisk.ts
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeWebStream } from "stream/web";
+import { mediaUrl, signedMediaUrl } from "./signing";
+import type { ByteRange, PutBody, StorageDriver, StoredObject } from "./types";
+
+const ROOT = path.resolve(process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), ".data", "storage"));
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".webm": "video/webm",
+  ".mp4": "video/mp4",
+  ".pdf": "application/pdf",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".json": "application/json",
+  ".jsonl": "application/x-ndjson",
+  ".csv": "text/csv; charset=utf-8",
+};
+
+/** Resolve a key inside ROOT; rejects absolute keys and ".." escapes. */
+function fileFor(key: string): string {
+  const clean = path.posix.normalize(key).replace(/^\/+/, "");
+  if (!clean || clean.startsWith("..")) throw new Error(`invalid storage key: ${key}`);
+  const file = path.join(ROOT, ...clean.split("/"));
+  if (!file.startsWith(ROOT + path.sep)) throw new Error(`invalid storage key: ${key}`);
+  return file;
+}
+
+/** Local filesystem driver, for on-prem installs and offline dev. */
+export const localDiskDriver: StorageDriver = {
+  name: "local",
+
+  async put(key: string, body: PutBody) {
+    const file = fileFor(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    if (Buffer.isBuffer(body)) {
+      await fs.writeFile(file, body);
+    } else if (body instanceof Blob) {
+      await fs.writeFile(file, Buffer.from(await body.arrayBuffer()));
+    } else {
+      await pipeline(Readable.fromWeb(body as NodeWebStream<Uint8Array>), createWriteStream(file));
+    }
+    return { key, url: mediaUrl(key) };
+  },
+
+  async get(key: string, range?: ByteRange): Promise<StoredObject | null> {
+    const file = fileFor(key);
+    let size: number;
+    try {
+      size = (await fs.stat(file)).size;
+    } catch {
+      return null;
+    }
+
+    const contentType = CONTENT_TYPES[path.extname(file).toLowerCase()] ?? "application/octet-stream";
+    // createReadStream would read the whole file for end = -1
+    if (size === 0) return { body: new Blob([]).stream(), size, contentType };
+
+    const start = range?.start ?? 0;
+    const end = Math.min(range?.end ?? size - 1, size - 1);
+    const stream = createReadStream(file, { start, end });
+
+    return {
+      body: Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>,
+      size,
+      contentType,
+      range: range ? { start, end } : undefined,
+    };
+  },
+
+  async delete(key: string) {
+    await fs.rm(fileFor(key), { force: true });
+  },
+
+  async signedUrl(key: string, expiresInSec = 3600) {
+    return signedMediaUrl(key, expiresInSec);
+  },
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { parseRange } from "@/lib/storage/range";
+
+describe("parseRange", () => {
+  it("parses closed and open-ended ranges", () => {
+    expect(parseRange("bytes=0-99", 1000)).toEqual({ start: 0, end: 99 });
+    expect(parseRange("bytes=500-", 1000)).toEqual({ start: 500, end: 999 });
+  });
+
+  it("clamps the end to the object", () => {
+    expect(parseRange("bytes=900-5000", 1000)).toEqual({ start: 900, end: 999 });
+  });
+
+  it("parses suffix ranges, clamped to the size", () => {
+    expect(parseRange("bytes=-100", 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRange("bytes=-5000", 1000)).toEqual({ start: 0, end: 999 });
+  });
+
+  it("rejects unsatisfiable and malformed ranges", () => {
+    expect(parseRange("bytes=1000-", 1000)).toBeNull();
+    expect(parseRange("bytes=50-10", 1000)).toBeNull();
+    expect(parseRange("bytes=-0", 1000)).toBeNull();
+    expect(parseRange("bytes=-", 1000)).toBeNull();
+    expect(parseRange("bytes=0-1,5-6", 1000)).toBeNull();
+    expect(parseRange("items=0-1", 1000)).toBeNull();
+    expect(parseRange("bytes=0-", 0)).toBeNull();
+  });
+});
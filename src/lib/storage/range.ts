@@ -0,0 +1,15 @@
+// src/lib/storage/range.ts
+import type { ByteRange } from "./types";
+
+/** Parse a single "bytes=start-end" / "bytes=-suffix" range; null if unsatisfiable. */
+export function parseRange(header: string, size: number): ByteRange | null {
+  const m = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!m || (m[1] === "" && m[2] === "")) return null;
+  if (m[1] === "") {
+    const suffix = Math.min(Number(m[2]), size);
+    return suffix > 0 ? { start: size - suffix, end: size - 1 } : null;
+  }
+  const start = Number(m[1]);
+  const end = m[2] === "" ? size - 1 : Math.min(Number(m[2]), size - 1);
+  return start <= end && start < size ? { start, end } : null;
+}
@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { mediaUrl, signedMediaUrl, verifyMediaSignature } from "@/lib/storage/signing";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+function params(url: string) {
+  const sp = new URL(url, "http://x").searchParams;
+  return [sp.get("exp"), sp.get("sig")] as const;
+}
+
+describe("media signing", () => {
+  it("encodes each key segment", () => {
+    expect(mediaUrl("videos/a b#1.webm")).toBe("/api/media/videos/a%20b%231.webm");
+  });
+
+  it("returns the plain URL without a signing secret", () => {
+    vi.stubEnv("STORAGE_SIGNING_SECRET", "");
+    expect(signedMediaUrl("exports/1.csv")).toBe("/api/media/exports/1.csv");
+  });
+
+  it("accepts its own signature for the same key only", () => {
+    vi.stubEnv("STORAGE_SIGNING_SECRET", "s3cret");
+    const [exp, sig] = params(signedMediaUrl("snapshots/a.jpg", 60));
+    expect(verifyMediaSignature("snapshots/a.jpg", exp, sig)).toBe(true);
+    expect(verifyMediaSignature("snapshots/b.jpg", exp, sig)).toBe(false);
+  });
+
+  it("rejects expired signatures", () => {
+    vi.stubEnv("STORAGE_SIGNING_SECRET", "s3cret");
+    const [exp, sig] = params(signedMediaUrl("snapshots/a.jpg", -10));
+    expect(verifyMediaSignature("snapshots/a.jpg", exp, sig)).toBe(false);
+  });
+
+  it("lets unsigned requests through unless signatures are required", () => {
+    expect(verifyMediaSignature("k", null, null)).toBe(true);
+    vi.stubEnv("LOCAL_STORAGE_REQUIRE_SIGNED", "1");
+    expect(verifyMediaSignature("k", null, null)).toBe(false);
+  });
+});
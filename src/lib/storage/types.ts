@@ -0,0 +1,23 @@
+// src/lib/storage/types.ts
+
+export type PutBody = Blob | Buffer | ReadableStream<Uint8Array>;
+
+/** Inclusive byte range, as in an HTTP Range header. */
+export type ByteRange = { start: number; end?: number };
+
+export interface StoredObject {
+  body: ReadableStream<Uint8Array>;
+  size: number;                      // full object size, even for a range read
+  contentType: string;
+  range?: { start: number; end: number };
+}
+
+/** What every storage backend must implement. Keys are "/"-separated paths. */
+export interface StorageDriver {
+  readonly name: "vercel-blob" | "local";
+  put(key: string, body: PutBody, opts?: { contentType?: string }): Promise<{ key: string; url: string }>;
+  get(key: string, range?: ByteRange): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+  /** URL that can be handed to a browser; expires where the backend supports it. */
+  signedUrl(key: string, expiresInSec?: number): Promise<string>;
+}
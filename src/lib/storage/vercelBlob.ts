@@ -0,0 +1,73 @@
+// src/lib/storage/vercelBlob.ts
+import { createHmac } from "crypto";
+import { BlobNotFoundError, del, head, put, type HeadBlobResult } from "@vercel/blob";
+import { mediaUrl, signedMediaUrl } from "./signing";
+import type { ByteRange, PutBody, StorageDriver, StoredObject } from "./types";
+
+function token() {
+  const t = process.env.BLOB_READ_WRITE_TOKEN;
+  if (!t) throw new Error("Missing BLOB_READ_WRITE_TOKEN");
+  return t;
+}
+
+function pathSecret(): string {
+  const s = process.env.STORAGE_SIGNING_SECRET || process.env.AUTH_SECRET;
+  if (s) return s;
+  if (process.env.NODE_ENV === "production") throw new Error("STORAGE_SIGNING_SECRET or AUTH_SECRET must be set");
+  return "dev-only-insecure-secret";
+}
+
+/** Blob pathname for a key: an HMAC prefix keeps the blob's URL from being guessed from the key. */
+function blobPath(key: string) {
+  return `${createHmac("sha256", pathSecret()).update(key).digest("hex").slice(0, 32)}/${key}`;
+}
+
+/** Metadata for a key; falls back to the bare pathname that older uploads used. */
+async function find(key: string): Promise<HeadBlobResult | null> {
+  for (const pathname of [blobPath(key), key]) {
+    try {
+      return await head(pathname, { token: token() });
+    } catch (e) {
+      if (!(e instanceof BlobNotFoundError)) throw e;
+    }
+  }
+  return null;
+}
+
+/**
+ * Vercel Blob. The SDK only stores public blobs, so blob URLs never leave the
+ * server: objects are streamed through GET /api/media/[...key] like local files.
+ */
+export const vercelBlobDriver: StorageDriver = {
+  name: "vercel-blob",
+
+  async put(key: string, body: PutBody, opts?: { contentType?: string }) {
+    await put(blobPath(key), body, { access: "public", token: token(), contentType: opts?.contentType });
+    return { key, url: mediaUrl(key) };
+  },
+
+  async get(key: string, range?: ByteRange): Promise<StoredObject | null> {
+    const meta = await find(key);
+    if (!meta) return null;
+
+    const headers: Record<string, string> = {};
+    if (range) headers.Range = `bytes=${range.start}-${range.end ?? ""}`;
+    const r = await fetch(meta.url, { headers });
+    if (!r.ok || !r.body) throw new Error(`blob fetch failed (${r.status})`);
+
+    return {
+      body: r.body,
+      size: meta.size,
+      contentType: meta.contentType,
+      range: range ? { start: range.start, end: range.end ?? meta.size - 1 } : undefined,
+    };
+  },
+
+  async delete(key: string) {
+    await del([blobPath(key), key], { token: token() });
+  },
+
+  async signedUrl(key: string, expiresInSec = 3600) {
+    return signedMediaUrl(key, expiresInSec);
+  },
+};
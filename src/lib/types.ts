@@ -1,16 +1,30 @@
 // src/lib/types.ts
 import type { ObjectId } from "mongodb";
 
-export type EventType =
-  | "FOCUS_LOST_5S"
-  | "NO_FACE_10S"
-  | "MULTIPLE_FACES"
-  | "PHONE_DETECTED"
-  | "BOOK_DETECTED"
-  | "EXTRA_DEVICE";
+/** Every event type the detectors emit; also drives API validation. */
+export const EVENT_TYPES = [
+  "FOCUS_LOST_5S",
+  "NO_FACE_10S",
+  "MULTIPLE_FACES",
+  "PHONE_DETECTED",
+  "BOOK_DETECTED",
+  "EXTRA_DEVICE",
+  "BACKGROUND_VOICE",
+  "MULTIPLE_SPEAKERS",
+  "SUSTAINED_NOISE",
+  "TAB_HIDDEN",
+  "WINDOW_BLUR",
+  "FULLSCREEN_EXIT",
+  "COPY_PASTE",
+  "DEVTOOLS_SUSPECTED",
+  "IDENTITY_MISMATCH",
+] as const;
+
+export type EventType = (typeof EVENT_TYPES)[number];
 
 /** Client → API payload */
 export interface ProctorEventInput {
+  eventId?: string;                 // client-generated UUID; makes retries idempotent
   interviewId: string;
   t: number;                        // ms since start
   type: EventType;
@@ -22,12 +36,231 @@ export interface ProctorEventInput {
 /** Stored in Mongo */
 export interface ProctorEventDB {
   _id?: ObjectId;
+  eventId?: string;
   interviewId: string;
   t: number;
   type: EventType;
   confidence?: number;
   meta?: Record<string, unknown>;
+  createdAt: string;                 // client clock; receivedAt is the server's
+  // Tamper-evident chain (absent on events stored before chaining existed)
+  seq?: number;                      // 0-based position in the interview's log
+  receivedAt?: string;
+  prevHash?: string;
+  hash?: string;
+}
+
+/** Reviewer verdict on one event; dismissed events are left out of the score */
+export const REVIEW_STATUSES = ["confirmed", "dismissed", "disputed"] as const;
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export interface Reviewer {
+  userId: string;
+  email: string;
+}
+
+/** Stored in Mongo ("event_reviews"): the current verdict, one per event */
+export interface EventReview {
+  interviewId: string;
+  eventId: string;
+  status: ReviewStatus;
+  note?: string;
+  reviewer: Reviewer;
+  reviewedAt: string;
+}
+
+/** Stored in Mongo ("review_audit"): append-only, one entry per review action */
+export interface ReviewAuditEntry {
+  interviewId: string;
+  eventId: string;
+  action: ReviewStatus | "cleared";
+  previous: ReviewStatus | null;
+  note?: string;
+  reviewer: Reviewer;
+  at: string;
+}
+
+/** Interview lifecycle; legacy interviews without a status count as in_progress until they end */
+export const INTERVIEW_STATUSES = ["scheduled", "in_progress", "completed", "expired", "abandoned"] as const;
+export type InterviewStatus = (typeof INTERVIEW_STATUSES)[number];
+
+/** When the candidate may start, and for how long */
+export interface InterviewSchedule {
+  windowStart: string;               // ISO; recording may not start before
+  windowEnd: string;                 // ISO; a session not started by then expires
+  maxDurationMs: number;             // recording stops automatically after this
+}
+
+/** One-time invite link; only the hash of the code is stored */
+export interface InviteState {
+  codeHash: string;
+  createdAt: string;
+  redeemedAt?: string;
+}
+
+/** What a webhook subscription can be notified of */
+export const WEBHOOK_EVENTS = ["interview.started", "interview.completed", "report.ready", "violation.high_severity"] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** Stored in Mongo ("webhooks") */
+export interface WebhookSubscription {
+  _id?: ObjectId;
+  url: string;
+  events: WebhookEvent[];
+  secret: string;                    // HMAC key for X-Webhook-Signature; only shown on creation
+  description?: string;
+  active: boolean;
+  createdBy: string;                 // staff email
+  createdAt: string;
+}
+
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "delivered", "failed"] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+/** One POST to the subscriber */
+export interface WebhookAttempt {
+  at: string;
+  durationMs: number;
+  responseStatus?: number;
+  error?: string;                    // network error or timeout
+}
+
+/** Stored in Mongo ("webhook_deliveries"): one notification to one subscription, with every attempt */
+export interface WebhookDelivery {
+  _id?: ObjectId;
+  webhookId: string;
+  key: string;                       // unique per subscription, so a trigger that fires twice sends once
+  event: WebhookEvent;
+  interviewId: string;
+  data: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  nextAttemptAt?: string;            // set while pending
+  lockedUntil?: string;              // claimed by a sender
+  replayOf?: string;                 // delivery this one re-sends
+  createdAt: string;
+  deliveredAt?: string;
+}
+
+/** Bulk exports: one row per interview or one row per event, as JSON Lines or CSV */
+export const EXPORT_DATASETS = ["interviews", "events"] as const;
+export type ExportDataset = (typeof EXPORT_DATASETS)[number];
+export const EXPORT_FORMATS = ["jsonl", "csv"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_JOB_STATUSES = ["queued", "running", "done", "failed"] as const;
+export type ExportJobStatus = (typeof EXPORT_JOB_STATUSES)[number];
+
+/** Stored in Mongo ("export_jobs"): an export too large to stream in one request */
+export interface ExportJob {
+  _id?: ObjectId;
+  query: Record<string, unknown>;    // the validated GET /api/exports query
+  dataset: ExportDataset;
+  format: ExportFormat;
+  status: ExportJobStatus;
+  requestedBy: string;               // staff email
+  requestedById?: string;            // staff user id; jobs are readable by it and by admins
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  rows?: number;
+  key?: string;                      // storage key of the finished file
+  error?: string;
+}
+
+/** Focus status the candidate page derives from face tracking */
+export const FOCUS_STATUSES = ["idle", "focused", "away"] as const;
+export type FocusStatus = (typeof FOCUS_STATUSES)[number];
+
+/** Neutral head pose and usual face size from the system check; useFaceFocus measures against it */
+export interface FocusBaseline {
+  yaw: number;                       // degrees
+  pitch: number;                     // degrees
+  faceSize: number;                  // face width / frame width
+}
+
+/** Steps of the pre-interview system check (/interview/[id]/check) */
+export const SYSTEM_CHECKS = ["camera", "microphone", "lighting", "recorder", "faceModel", "objectModel", "calibration"] as const;
+export type SystemCheckName = (typeof SYSTEM_CHECKS)[number];
+
+export interface CheckResult {
+  ok: boolean;
+  detail?: string;
+}
+
+/** Kept on the interview ("systemCheck"); the latest run wins */
+export interface SystemCheck {
+  passed: boolean;                   // every step ok
+  checks: Record<SystemCheckName, CheckResult>;
+  baseline?: FocusBaseline;
+  mimeType?: string;
+  userAgent?: string;
+  at: string;                        // server receive time
+}
+
+/** Photos the candidate provides for identity verification */
+export const IDENTITY_PHOTO_KINDS = ["selfie", "idDocument"] as const;
+export type IdentityPhotoKind = (typeof IDENTITY_PHOTO_KINDS)[number];
+
+/** Kept on the interview ("identity"): the reference face and how well the session matched it */
+export interface IdentityState {
+  selfieKey?: string;
+  idDocumentKey?: string;
+  signature?: number[];              // face geometry of the selfie (src/lib/detect/faceSignature.ts)
+  capturedAt?: string;
+  // folded in from heartbeats, one sample per re-match
+  checks?: number;
+  similaritySum?: number;
+  minSimilarity?: number;
+  lastSimilarity?: number;
+}
+
+/** Latest heartbeat from the candidate page, kept on the interview ("live") */
+export interface LiveState {
+  status: FocusStatus;
+  faces: number;
+  recording: boolean;
+  similarity?: number;               // only on the beat after a new identity re-match
+  at: string;                        // server receive time
+}
+
+/** Staff roles; candidates get a per-interview token instead of an account */
+export const ROLES = ["admin", "interviewer", "reviewer"] as const;
+export type Role = (typeof ROLES)[number];
+
+/** Stored in Mongo ("users") */
+export interface User {
+  _id?: ObjectId;
+  email: string;
+  passwordHash: string;
+  roles: Role[];
+  createdAt: string;
+}
+
+/** Deduction for one event type: `per` occurrence, at most `cap` in total */
+export interface ScoringRule {
+  per: number;
+  cap: number;
+  perPct?: number;                  // time mode: per 1% of the interview in violation (default: per)
+}
+
+/** "count" deducts per event, "time" by share of the interview spent in violation */
+export type ScoringMode = "count" | "time";
+
+/** Pointer to one immutable version of a scoring policy */
+export interface PolicyRef {
+  name: string;
+  version: number;
+}
+
+/** Stored in Mongo ("policies"); every edit inserts a new version */
+export interface ScoringPolicy extends PolicyRef {
+  _id?: ObjectId;
+  rules: Record<string, ScoringRule>;
+  mode?: ScoringMode;               // default "count"
+  description?: string;
   createdAt: string;
+  archivedAt?: string;
 }
 
 export interface Interview {
@@ -37,4 +270,6 @@ export interface Interview {
   endedAt?: string;
   videoUrl?: string;
   integrityScore?: number;
+  policy?: PolicyRef;               // scoring policy pinned at creation
+  requireFullscreen?: boolean;      // candidate page prompts to stay in fullscreen
 }
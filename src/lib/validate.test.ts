@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  array,
+  boolean,
+  csvList,
+  isoDate,
+  jsonObject,
+  number,
+  numeric,
+  object,
+  oneOf,
+  optional,
+  record,
+  refine,
+  string,
+  validate,
+} from "@/lib/validate";
+
+const issuesOf = (r: ReturnType<typeof validate>) => (r.ok ? [] : r.issues);
+
+describe("scalars", () => {
+  it("checks strings and trims when asked", () => {
+    expect(validate(string({ trim: true, min: 2 }), "  ab ")).toEqual({ ok: true, value: "ab" });
+    expect(issuesOf(validate(string({ max: 2 }), "abc"))).toEqual([{ path: "(root)", message: "must be at most 2 characters" }]);
+    expect(issuesOf(validate(string({ pattern: /^\d+$/ }), "x1"))[0].message).toBe("has an invalid format");
+    expect(issuesOf(validate(string(), 1))[0].message).toBe("must be a string");
+  });
+
+  it("normalises ISO dates", () => {
+    expect(validate(isoDate(), "2024-05-01T10:00:00+02:00")).toEqual({ ok: true, value: "2024-05-01T08:00:00.000Z" });
+    expect(validate(isoDate(), "yesterday").ok).toBe(false);
+  });
+
+  it("checks numbers, integers and bounds", () => {
+    expect(validate(number({ min: 0, max: 10 }), 5)).toEqual({ ok: true, value: 5 });
+    expect(issuesOf(validate(number({ int: true }), 1.5))[0].message).toBe("must be an integer");
+    expect(issuesOf(validate(number({ max: 10 }), 11))[0].message).toBe("must be <= 10");
+    expect(validate(number(), Number.NaN).ok).toBe(false);
+    expect(validate(number(), "5").ok).toBe(false);
+  });
+
+  it("parses numeric query strings", () => {
+    expect(validate(numeric({ int: true }), " 42 ")).toEqual({ ok: true, value: 42 });
+    expect(validate(numeric(), "4x").ok).toBe(false);
+  });
+
+  it("checks booleans and enums", () => {
+    expect(validate(boolean(), false)).toEqual({ ok: true, value: false });
+    expect(validate(boolean(), "true").ok).toBe(false);
+    expect(validate(oneOf(["a", "b"] as const), "b")).toEqual({ ok: true, value: "b" });
+    expect(issuesOf(validate(oneOf(["a", "b"] as const), "c"))[0].message).toBe("must be one of a, b");
+  });
+});
+
+describe("object", () => {
+  const schema = object({
+    name: string({ min: 1 }),
+    age: optional(number({ int: true })),
+    tags: optional(array(string(), { max: 2 })),
+  });
+
+  it("treats null and empty strings as absent for optional keys", () => {
+    expect(validate(schema, { name: "x", age: null, tags: "" })).toEqual({ ok: true, value: { name: "x" } });
+  });
+
+  it("reports missing, unknown and nested invalid keys together", () => {
+    expect(issuesOf(validate(schema, { extra: 1, tags: ["a", 2] }))).toEqual([
+      { path: "extra", message: "is not allowed" },
+      { path: "name", message: "is required" },
+      { path: "tags[1]", message: "must be a string" },
+    ]);
+  });
+
+  it("rejects non-objects", () => {
+    expect(issuesOf(validate(schema, []))).toEqual([{ path: "(root)", message: "must be an object" }]);
+  });
+});
+
+describe("collections", () => {
+  it("bounds arrays", () => {
+    expect(issuesOf(validate(array(number(), { min: 1 }), []))[0].message).toBe("must have at least 1 items");
+    expect(issuesOf(validate(array(number(), { max: 1 }), [1, 2]))[0].message).toBe("must have at most 1 items");
+  });
+
+  it("splits comma-separated lists and validates each item", () => {
+    const s = csvList(oneOf(["A", "B"] as const));
+    expect(validate(s, "A, B,")).toEqual({ ok: true, value: ["A", "B"] });
+    expect(issuesOf(validate(s, "A,C"))).toEqual([{ path: "[1]", message: "must be one of A, B" }]);
+    expect(validate(s, " , ").ok).toBe(false);
+  });
+
+  it("validates record values and caps keys", () => {
+    expect(validate(record(number()), { a: 1 })).toEqual({ ok: true, value: { a: 1 } });
+    expect(issuesOf(validate(record(number()), { a: "x" }))).toEqual([{ path: "a", message: "must be a number" }]);
+    expect(validate(record(number(), { maxKeys: 1 }), { a: 1, b: 2 }).ok).toBe(false);
+  });
+
+  it("bounds free-form JSON objects by size", () => {
+    expect(validate(jsonObject({ maxBytes: 20 }), { a: 1 }).ok).toBe(true);
+    expect(issuesOf(validate(jsonObject({ maxBytes: 10 }), { a: "0123456789" }))[0].message).toBe(
+      "must be at most 10 bytes as JSON"
+    );
+    // counted in UTF-8 bytes: {"a":"éééé"} is 12 characters but 16 bytes
+    expect(validate(jsonObject({ maxBytes: 15 }), { a: "éééé" }).ok).toBe(false);
+    expect(validate(jsonObject({ maxBytes: 16 }), { a: "éééé" }).ok).toBe(true);
+  });
+});
+
+describe("refine", () => {
+  const even = refine(number(), (n) => (n % 2 === 0 ? null : "must be even"));
+
+  it("runs the check only on values the inner schema accepted", () => {
+    expect(validate(even, 4)).toEqual({ ok: true, value: 4 });
+    expect(issuesOf(validate(even, 3))).toEqual([{ path: "(root)", message: "must be even" }]);
+    expect(issuesOf(validate(even, "4"))).toEqual([{ path: "(root)", message: "must be a number" }]);
+  });
+});
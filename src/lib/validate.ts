@@ -0,0 +1,202 @@
+// src/lib/validate.ts
+// Minimal schema combinators for request validation. Each schema collects
+// field-level issues ({ path, message }) instead of throwing on the first one.
+
+export type Issue = { path: string; message: string };
+
+export type Schema<T> = {
+  parse(v: unknown, path: string, issues: Issue[]): T | undefined;
+  /** true when the key may be absent from an object */
+  optional?: boolean;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const at = (path: string) => path || "(root)";
+
+export function string(opts: { min?: number; max?: number; pattern?: RegExp; trim?: boolean } = {}): Schema<string> {
+  return {
+    parse(v, path, issues) {
+      if (typeof v !== "string") return void issues.push({ path: at(path), message: "must be a string" });
+      const s = opts.trim ? v.trim() : v;
+      if (opts.min != null && s.length < opts.min) return void issues.push({ path: at(path), message: `must be at least ${opts.min} characters` });
+      if (opts.max != null && s.length > opts.max) return void issues.push({ path: at(path), message: `must be at most ${opts.max} characters` });
+      if (opts.pattern && !opts.pattern.test(s)) return void issues.push({ path: at(path), message: "has an invalid format" });
+      return s;
+    },
+  };
+}
+
+/** ISO-8601 timestamp string; normalised with toISOString(). */
+export function isoDate(): Schema<string> {
+  return {
+    parse(v, path, issues) {
+      const d = typeof v === "string" ? new Date(v) : null;
+      if (!d || Number.isNaN(d.getTime())) return void issues.push({ path: at(path), message: "must be an ISO date string" });
+      return d.toISOString();
+    },
+  };
+}
+
+export function number(opts: { min?: number; max?: number; int?: boolean } = {}): Schema<number> {
+  return {
+    parse(v, path, issues) {
+      if (typeof v !== "number" || !Number.isFinite(v)) return void issues.push({ path: at(path), message: "must be a number" });
+      if (opts.int && !Number.isInteger(v)) return void issues.push({ path: at(path), message: "must be an integer" });
+      if (opts.min != null && v < opts.min) return void issues.push({ path: at(path), message: `must be >= ${opts.min}` });
+      if (opts.max != null && v > opts.max) return void issues.push({ path: at(path), message: `must be <= ${opts.max}` });
+      return v;
+    },
+  };
+}
+
+/** Number given as a string (query params); "" counts as absent via optional(). */
+export function numeric(opts: { min?: number; max?: number; int?: boolean } = {}): Schema<number> {
+  const inner = number(opts);
+  return {
+    parse(v, path, issues) {
+      const n = typeof v === "string" && v.trim() !== "" ? Number(v) : v;
+      return inner.parse(n, path, issues);
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    parse(v, path, issues) {
+      if (typeof v !== "boolean") return void issues.push({ path: at(path), message: "must be a boolean" });
+      return v;
+    },
+  };
+}
+
+export function oneOf<const T extends readonly string[]>(values: T): Schema<T[number]> {
+  return {
+    parse(v, path, issues) {
+      if (typeof v !== "string" || !values.includes(v)) {
+        return void issues.push({ path: at(path), message: `must be one of ${values.join(", ")}` });
+      }
+      return v as T[number];
+    },
+  };
+}
+
+export function optional<T>(s: Schema<T>): Schema<T | undefined> & { optional: true } {
+  return {
+    optional: true,
+    parse(v, path, issues) {
+      return v === undefined || v === null || v === "" ? undefined : s.parse(v, path, issues);
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>, opts: { min?: number; max?: number } = {}): Schema<T[]> {
+  return {
+    parse(v, path, issues) {
+      if (!Array.isArray(v)) return void issues.push({ path: at(path), message: "must be an array" });
+      if (opts.min != null && v.length < opts.min) return void issues.push({ path: at(path), message: `must have at least ${opts.min} items` });
+      if (opts.max != null && v.length > opts.max) return void issues.push({ path: at(path), message: `must have at most ${opts.max} items` });
+      const before = issues.length;
+      const out = v.map((x, i) => item.parse(x, `${path}[${i}]`, issues));
+      return issues.length === before ? (out as T[]) : undefined;
+    },
+  };
+}
+
+/** Comma-separated list in one string (query params), e.g. "A,B" -> ["A", "B"]. */
+export function csvList<T>(item: Schema<T>, opts: { min?: number; max?: number } = {}): Schema<T[]> {
+  const inner = array(item, { min: opts.min ?? 1, max: opts.max });
+  return {
+    parse(v, path, issues) {
+      if (typeof v !== "string") return void issues.push({ path: at(path), message: "must be a comma-separated list" });
+      return inner.parse(v.split(",").map((x) => x.trim()).filter(Boolean), path, issues);
+    },
+  };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+type ObjectOf<S extends Shape> = {
+  [K in keyof S as S[K]["optional"] extends true ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as S[K]["optional"] extends true ? K : never]?: Infer<S[K]>;
+};
+
+/** Plain object with known keys; unknown keys are rejected. */
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return {
+    parse(v, path, issues) {
+      if (!v || typeof v !== "object" || Array.isArray(v)) return void issues.push({ path: at(path), message: "must be an object" });
+      const before = issues.length;
+      const src = v as Record<string, unknown>;
+      const out: Record<string, unknown> = {};
+
+      for (const k of Object.keys(src)) {
+        if (!(k in shape)) issues.push({ path: path ? `${path}.${k}` : k, message: "is not allowed" });
+      }
+      for (const [k, s] of Object.entries(shape)) {
+        const p = path ? `${path}.${k}` : k;
+        if (src[k] === undefined && !s.optional) {
+          issues.push({ path: p, message: "is required" });
+          continue;
+        }
+        const val = s.parse(src[k], p, issues);
+        if (val !== undefined) out[k] = val;
+      }
+      return issues.length === before ? (out as ObjectOf<S>) : undefined;
+    },
+  };
+}
+
+/** Map of string keys to one value schema. */
+export function record<T>(value: Schema<T>, opts: { maxKeys?: number } = {}): Schema<Record<string, T>> {
+  return {
+    parse(v, path, issues) {
+      if (!v || typeof v !== "object" || Array.isArray(v)) return void issues.push({ path: at(path), message: "must be an object" });
+      const entries = Object.entries(v as Record<string, unknown>);
+      if (opts.maxKeys != null && entries.length > opts.maxKeys) {
+        return void issues.push({ path: at(path), message: `must have at most ${opts.maxKeys} keys` });
+      }
+      const before = issues.length;
+      const out: Record<string, T> = {};
+      for (const [k, x] of entries) {
+        const val = value.parse(x, path ? `${path}.${k}` : k, issues);
+        if (val !== undefined) out[k] = val;
+      }
+      return issues.length === before ? out : undefined;
+    },
+  };
+}
+
+const utf8 = new TextEncoder();
+
+/** Free-form JSON object, bounded by its serialized size in UTF-8 bytes. */
+export function jsonObject(opts: { maxBytes: number }): Schema<Record<string, unknown>> {
+  return {
+    parse(v, path, issues) {
+      if (!v || typeof v !== "object" || Array.isArray(v)) return void issues.push({ path: at(path), message: "must be an object" });
+      if (utf8.encode(JSON.stringify(v)).length > opts.maxBytes) {
+        return void issues.push({ path: at(path), message: `must be at most ${opts.maxBytes} bytes as JSON` });
+      }
+      return v as Record<string, unknown>;
+    },
+  };
+}
+
+/** A further check on a value `s` accepted; `check` returns the message when it fails. */
+export function refine<T>(s: Schema<T>, check: (v: T) => string | null): Schema<T> {
+  return {
+    parse(v, path, issues) {
+      const out = s.parse(v, path, issues);
+      if (out === undefined) return undefined;
+      const message = check(out);
+      return message ? void issues.push({ path: at(path), message }) : out;
+    },
+  };
+}
+
+/** Run a schema; `issues` is non-empty when validation failed. */
+export function validate<T>(schema: Schema<T>, value: unknown): { ok: true; value: T } | { ok: false; issues: Issue[] } {
+  const issues: Issue[] = [];
+  const out = schema.parse(value, "", issues);
+  return issues.length || out === undefined ? { ok: false, issues } : { ok: true, value: out };
+}
@@ -0,0 +1,42 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { isHighSeverity, MAX_ATTEMPTS, retryDelay, signWebhook } from "@/lib/webhooks";
+
+describe("signWebhook", () => {
+  it("signs `<t>.<body>` with HMAC-SHA256 of the secret", () => {
+    const body = JSON.stringify({ id: "d1", event: "interview.started" });
+    const mac = createHmac("sha256", "whsec_test").update(`1700000000.${body}`).digest("hex");
+    expect(signWebhook("whsec_test", 1_700_000_000, body)).toBe(`t=1700000000,v1=${mac}`);
+  });
+
+  it("changes with the timestamp, body and secret", () => {
+    const base = signWebhook("a", 1, "{}");
+    expect(signWebhook("a", 2, "{}")).not.toBe(base);
+    expect(signWebhook("a", 1, "{ }")).not.toBe(base);
+    expect(signWebhook("b", 1, "{}")).not.toBe(base);
+  });
+});
+
+describe("retryDelay", () => {
+  it("backs off 1 min, 5 min, 30 min, 2 h, 12 h", () => {
+    const delays = Array.from({ length: MAX_ATTEMPTS - 1 }, (_, i) => retryDelay(i + 1));
+    expect(delays).toEqual([60_000, 300_000, 1_800_000, 7_200_000, 43_200_000]);
+  });
+
+  it("gives up after the last attempt", () => {
+    expect(retryDelay(MAX_ATTEMPTS)).toBeNull();
+    expect(retryDelay(MAX_ATTEMPTS + 1)).toBeNull();
+  });
+});
+
+describe("isHighSeverity", () => {
+  it("uses the per-event deduction in count mode", () => {
+    expect(isHighSeverity({ per: 10, cap: 20 }, "count")).toBe(true);
+    expect(isHighSeverity({ per: 5, cap: 30 })).toBe(false);
+  });
+
+  it("uses the cap in time mode, where per is a rate", () => {
+    expect(isHighSeverity({ per: 2, cap: 30 }, "time")).toBe(true);
+    expect(isHighSeverity({ per: 15, cap: 20 }, "time")).toBe(false);
+  });
+});
@@ -0,0 +1,379 @@
+// src/lib/webhooks.ts
+// Outgoing webhooks. A trigger queues one delivery per active subscription that
+// wants the event; deliveries are POSTed with an HMAC signature and retried with
+// backoff until the receiver answers 2xx or the attempts run out. Due retries are
+// swept by every trigger, by GET /api/webhooks/sweep (cron) and by an in-process
+// timer. Every attempt is logged on the delivery, and any delivery can be replayed.
+import { createHmac, randomBytes } from "node:crypto";
+import { MongoBulkWriteError, ObjectId, type Db, type Filter, type WithId } from "mongodb";
+import { indexesOnce } from "@/lib/mongo";
+import { resolvedTargetIssue } from "@/lib/netGuard";
+import { resolvePolicy } from "@/lib/policies";
+import { interviewKey, type InterviewDoc, type ReportData } from "@/lib/reportData";
+import type { UnchainedEvent } from "@/lib/eventChain";
+import type {
+  ScoringMode,
+  ScoringRule,
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookSubscription,
+} from "@/lib/types";
+
+/** Wait before attempt 2, 3, …; a delivery fails for good after the last one. */
+const BACKOFF_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 12 * 60 * 60_000];
+export const MAX_ATTEMPTS = BACKOFF_MS.length + 1;
+const TIMEOUT_MS = 10_000;
+/** A claimed delivery is left alone by other senders for this long. */
+const LOCK_MS = 60_000;
+/** Due deliveries sent per run, so one trigger never stalls behind a long backlog. */
+const MAX_PER_RUN = 20;
+/** Count-mode rules deducting at least this much per event make the event a high-severity violation. */
+export const HIGH_SEVERITY_PER = 10;
+/** Time-mode rules have no per-event deduction; those allowed to take at least this much overall qualify. */
+export const HIGH_SEVERITY_CAP = 30;
+
+/** Wait before the next attempt after `attempts` failed ones; null once they are used up. */
+export function retryDelay(attempts: number): number | null {
+  return attempts >= 1 && attempts < MAX_ATTEMPTS ? BACKOFF_MS[attempts - 1] : null;
+}
+
+/** Whether events of this rule's type are high-severity under the policy's scoring mode. */
+export function isHighSeverity(rule: ScoringRule, mode: ScoringMode = "count"): boolean {
+  return mode === "time" ? rule.cap >= HIGH_SEVERITY_CAP : rule.per >= HIGH_SEVERITY_PER;
+}
+
+export function subscriptions(db: Db) {
+  return db.collection<WebhookSubscription>("webhooks");
+}
+
+export function deliveries(db: Db) {
+  return db.collection<WebhookDelivery>("webhook_deliveries");
+}
+
+const ensureIndexes = indexesOnce(async (db: Db) => {
+  await deliveries(db).createIndex({ webhookId: 1, key: 1 }, { unique: true });
+  await deliveries(db).createIndex({ status: 1, nextAttemptAt: 1 });
+});
+
+export function newWebhookSecret() {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/** X-Webhook-Signature: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">`. */
+export function signWebhook(secret: string, timestamp: number, body: string) {
+  const mac = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${mac}`;
+}
+
+/** A subscription as the API returns it: never the secret. */
+export function publicWebhook(w: WithId<WebhookSubscription>) {
+  return {
+    id: String(w._id),
+    url: w.url,
+    events: w.events,
+    description: w.description ?? null,
+    active: w.active,
+    createdBy: w.createdBy,
+    createdAt: w.createdAt,
+  };
+}
+
+export function publicDelivery(d: WithId<WebhookDelivery>) {
+  return {
+    id: String(d._id),
+    webhookId: d.webhookId,
+    event: d.event,
+    interviewId: d.interviewId,
+    status: d.status,
+    attempts: d.attempts,
+    nextAttemptAt: d.nextAttemptAt ?? null,
+    replayOf: d.replayOf ?? null,
+    createdAt: d.createdAt,
+    deliveredAt: d.deliveredAt ?? null,
+    data: d.data,
+  };
+}
+
+/** Subscription by id, or null (also for ids that are not ObjectIds). */
+export async function findWebhook(db: Db, id: string) {
+  return ObjectId.isValid(id) ? subscriptions(db).findOne({ _id: new ObjectId(id) }) : null;
+}
+
+/** Does any active subscription want `event`? Lets triggers skip building a payload. */
+export async function hasSubscribers(db: Db, event: WebhookEvent) {
+  return (await subscriptions(db).countDocuments({ active: true, events: event }, { limit: 1 })) > 0;
+}
+
+/**
+ * Queue `event` for every active subscription that wants it, then send everything
+ * that is due (so each trigger also sweeps retries a restart left behind).
+ * `key` names the occurrence: queuing the same key again for a subscription is a
+ * no-op, so triggers in several routes (or retried requests) notify once.
+ */
+export async function emitWebhook(
+  db: Db,
+  event: WebhookEvent,
+  interviewId: string,
+  key: string,
+  data: Record<string, unknown>
+): Promise<number> {
+  const subs = await subscriptions(db).find({ active: true, events: event }, { projection: { _id: 1 } }).toArray();
+  const queued = subs.length ? await enqueue(db, subs.map((s) => String(s._id)), event, interviewId, key, data) : 0;
+  await deliverDue(db);
+  return queued;
+}
+
+/** Insert one delivery per subscription; keys already queued are skipped. Returns how many were new. */
+async function enqueue(
+  db: Db,
+  webhookIds: string[],
+  event: WebhookEvent,
+  interviewId: string,
+  key: string,
+  data: Record<string, unknown>
+): Promise<number> {
+  await ensureIndexes(db);
+
+  const now = new Date().toISOString();
+  const docs: WebhookDelivery[] = webhookIds.map((webhookId) => ({
+    webhookId,
+    key,
+    event,
+    interviewId,
+    data,
+    status: "pending",
+    attempts: [],
+    nextAttemptAt: now,
+    createdAt: now,
+  }));
+  try {
+    await deliveries(db).insertMany(docs, { ordered: false });
+    return docs.length;
+  } catch (e) {
+    if (!(e instanceof MongoBulkWriteError)) throw e;
+    const errs = Array.isArray(e.writeErrors) ? e.writeErrors : [e.writeErrors];
+    if (errs.some((w) => w.code !== 11000)) throw e;
+    return e.result.insertedCount;
+  }
+}
+
+/** Claim one pending delivery matching `filter` for this sender. */
+async function claim(db: Db, filter: Filter<WebhookDelivery>) {
+  const now = new Date();
+  return deliveries(db).findOneAndUpdate(
+    {
+      ...filter,
+      status: "pending",
+      $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lt: now.toISOString() } }],
+    },
+    { $set: { lockedUntil: new Date(now.getTime() + LOCK_MS).toISOString() } },
+    { sort: { nextAttemptAt: 1 }, returnDocument: "after" }
+  );
+}
+
+/**
+ * Send up to `limit` deliveries whose next attempt is due; returns how many were
+ * attempted. The in-process retry timer is only a shortcut: it dies with the
+ * instance, so triggers and the cron sweep call this too.
+ */
+export async function deliverDue(db: Db, limit = MAX_PER_RUN): Promise<number> {
+  let sent = 0;
+  while (sent < limit) {
+    const d = await claim(db, { nextAttemptAt: { $lte: new Date().toISOString() } });
+    if (!d) break;
+    await attempt(db, d);
+    sent += 1;
+  }
+  return sent;
+}
+
+function scheduleRetry(db: Db, delayMs: number) {
+  const t = setTimeout(() => {
+    deliverDue(db).catch((e) => console.error("webhook retry:", (e as Error).message));
+  }, delayMs);
+  t.unref?.();
+}
+
+/** POST one delivery and record the outcome. */
+async function attempt(db: Db, d: WithId<WebhookDelivery>): Promise<WithId<WebhookDelivery> | null> {
+  const hook = await subscriptions(db).findOne({ _id: new ObjectId(d.webhookId) });
+  if (!hook?.active) {
+    // removed or switched off since it was queued; it can still be replayed once re-enabled
+    return deliveries(db).findOneAndUpdate(
+      { _id: d._id },
+      { $set: { status: "failed" }, $unset: { lockedUntil: "", nextAttemptAt: "" } },
+      { returnDocument: "after" }
+    );
+  }
+
+  const body = JSON.stringify({ id: String(d._id), event: d.event, createdAt: d.createdAt, data: d.data });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const at = new Date().toISOString();
+  const t0 = Date.now();
+  const log: WebhookAttempt = { at, durationMs: 0 };
+  try {
+    // the host may have been re-pointed at an internal address since the subscription was saved
+    const refused = await resolvedTargetIssue(hook.url);
+    if (refused) throw new Error(`refused: ${refused}`);
+    const res = await fetch(hook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "proctoring-webhooks/1",
+        "X-Webhook-Id": String(d._id),
+        "X-Webhook-Event": d.event,
+        "X-Webhook-Signature": signWebhook(hook.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    log.responseStatus = res.status;
+    await res.body?.cancel().catch(() => undefined);
+  } catch (e) {
+    log.error = (e as Error).name === "TimeoutError" ? `no response within ${TIMEOUT_MS} ms` : (e as Error).message;
+  }
+  log.durationMs = Date.now() - t0;
+
+  const ok = log.responseStatus !== undefined && log.responseStatus >= 200 && log.responseStatus < 300;
+  const delay = ok ? null : retryDelay(d.attempts.length + 1);
+  const updated = await deliveries(db).findOneAndUpdate(
+    { _id: d._id },
+    delay === null
+      ? {
+          $push: { attempts: log },
+          $set: ok ? { status: "delivered", deliveredAt: new Date().toISOString() } : { status: "failed" },
+          $unset: { lockedUntil: "", nextAttemptAt: "" },
+        }
+      : {
+          $push: { attempts: log },
+          $set: { nextAttemptAt: new Date(Date.now() + delay).toISOString() },
+          $unset: { lockedUntil: "" },
+        },
+    { returnDocument: "after" }
+  );
+  if (delay !== null) scheduleRetry(db, delay);
+  return updated;
+}
+
+/** Queue a copy of a delivery (same event and data, new id) and send it right away. */
+export async function replayDelivery(db: Db, original: WithId<WebhookDelivery>) {
+  await ensureIndexes(db);
+  const now = new Date().toISOString();
+  const { insertedId } = await deliveries(db).insertOne({
+    webhookId: original.webhookId,
+    key: `replay:${String(original._id)}:${now}`,
+    event: original.event,
+    interviewId: original.interviewId,
+    data: original.data,
+    status: "pending",
+    attempts: [],
+    nextAttemptAt: now,
+    replayOf: String(original._id),
+    createdAt: now,
+  });
+  const d = await claim(db, { _id: insertedId });
+  return (d && (await attempt(db, d))) ?? deliveries(db).findOne({ _id: insertedId });
+}
+
+/* ----- triggers ----- */
+
+function interviewData(doc: InterviewDoc) {
+  return {
+    interviewId: String(doc._id),
+    candidateName: doc.candidateName ?? null,
+    candidateEmail: doc.candidateEmail ?? null,
+    status: doc.status ?? null,
+    startedAt: doc.startedAt ?? null,
+    deadline: doc.deadline ?? null,
+    endedAt: doc.endedAt ?? null,
+  };
+}
+
+/** Trigger errors are logged, never surfaced: the request that fired them already succeeded. */
+function logged(what: string, run: () => Promise<unknown>) {
+  return run().catch((e) => console.error(`webhook ${what}:`, (e as Error).message));
+}
+
+/** interview.started, once per interview. */
+export function notifyInterviewStarted(db: Db, id: string) {
+  return logged("interview.started", async () => {
+    if (!(await hasSubscribers(db, "interview.started"))) return;
+    const doc = await db.collection<InterviewDoc>("interviews").findOne({ _id: interviewKey(id) });
+    if (doc) await emitWebhook(db, "interview.started", String(doc._id), `interview.started:${doc._id}`, interviewData(doc));
+  });
+}
+
+/** interview.completed once the recording is in (src/lib/reportArchive.ts follows it with report.ready). */
+export function notifyInterviewCompleted(db: Db, id: string) {
+  return logged("interview.completed", async () => {
+    const doc = await db.collection<InterviewDoc>("interviews").findOne({ _id: interviewKey(id) });
+    if (!doc?.endedAt) return;
+    const interviewId = String(doc._id);
+    await emitWebhook(db, "interview.completed", interviewId, `interview.completed:${interviewId}`, {
+      ...interviewData(doc),
+      status: "completed",
+      videoUrl: doc.videoUrl ?? null,
+    });
+  });
+}
+
+/** report.ready for the report of a completed interview. */
+export function notifyReportReady(db: Db, report: ReportData) {
+  return logged("report.ready", () => emitReportReady(db, report));
+}
+
+async function emitReportReady(db: Db, report: ReportData) {
+  const i = report.interview;
+  if (i.status !== "completed") return;
+  await emitWebhook(db, "report.ready", i._id, `report.ready:${i._id}`, {
+    interviewId: i._id,
+    candidateName: i.candidateName,
+    candidateEmail: i.candidateEmail,
+    startedAt: i.startedAt,
+    endedAt: i.endedAt,
+    durationMs: i.durationMs,
+    integrityScore: report.integrity.score,
+    rawIntegrityScore: report.rawIntegrity.score,
+    policy: report.policy,
+    counts: report.counts,
+    flags: {
+      phoneDetected: report.phoneDetected,
+      multipleFaces: report.multipleFaces,
+      otherVoices: report.otherVoices,
+      leftPage: report.leftPage,
+      clipboardUsed: report.clipboardUsed,
+      identityMismatch: report.identityMismatch,
+    },
+    chainStatus: report.chain.status,
+    reportUrl: `/api/reports/${i._id}`,
+    pdfUrl: `/api/reports/${i._id}/pdf`,
+  });
+}
+
+/** violation.high_severity for each newly ingested event the interview's policy weighs heavily. */
+export function notifyViolations(db: Db, interview: InterviewDoc, events: UnchainedEvent[]) {
+  return logged("violation.high_severity", async () => {
+    if (!(await hasSubscribers(db, "violation.high_severity"))) return;
+    const policy = await resolvePolicy(db, interview.policy);
+    const interviewId = String(interview._id);
+    for (const e of events) {
+      const rule = policy.rules[e.type];
+      if (!rule || !isHighSeverity(rule, policy.mode)) continue;
+      await emitWebhook(db, "violation.high_severity", interviewId, `violation:${interviewId}:${e.eventId}`, {
+        interviewId,
+        candidateName: interview.candidateName ?? null,
+        eventId: e.eventId,
+        type: e.type,
+        t: e.t,
+        confidence: e.confidence ?? null,
+        createdAt: e.createdAt,
+        // time mode deducts by time in violation, so there is no per-event figure
+        deduction: policy.mode === "time" ? null : rule.per,
+        cap: rule.cap,
+        policy: { name: policy.name, version: policy.version, mode: policy.mode ?? "count" },
+      });
+    }
+  });
+}